@@ -0,0 +1,241 @@
+// accountingExport.ts
+//
+// A company's invoices, payments and refunds over a date range, as a file
+// for its bookkeeper: a plain CSV, or an IIF file QuickBooks imports
+// directly (customers first, then one transaction per invoice, payment and
+// refund). Built server-side under the caller's own session -- `db` is the
+// team member's client, so RLS (is_company_member_via_client) decides what
+// it can read, and the caller checks is_company_member for the company
+// before calling.
+//
+// What lands on which date:
+//   * an invoice, on the day it was issued;
+//   * a payment, on its paid_on day from the ledger (migration 0049) --
+//     Stripe's and the ones founders recorded by hand alike;
+//   * a refund, on the day Stripe made it, from the refunds ledger
+//     (migration 0052) -- one entry per refund, so an invoice refunded in
+//     two parts exports twice, each in its own period.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type AccountingExportFormat = "csv" | "iif";
+export const ACCOUNTING_EXPORT_FORMATS: AccountingExportFormat[] = ["csv", "iif"];
+
+export interface AccountingExport {
+  filename: string;
+  contentType: string;
+  body: string;
+}
+
+// The QuickBooks accounts the IIF posts to. These are QuickBooks' own
+// default names; a bookkeeper using different ones maps them on import.
+const ACCOUNTS = {
+  receivable: "Accounts Receivable",
+  income: "Sales",
+  tax: "Sales Tax Payable",
+  deposits: "Undeposited Funds",
+};
+
+const METHOD_LABELS: Record<string, string> = {
+  stripe: "Stripe",
+  check: "Check",
+  bank_transfer: "Bank transfer",
+  cash: "Cash",
+  other: "Other",
+};
+
+interface ExportClient {
+  name: string;
+  contact_email: string | null;
+}
+
+interface ExportInvoice {
+  id: string;
+  invoice_number: string | null;
+  amount: number;
+  tax_amount: number;
+  status: string;
+  created_at: string;
+  clients: ExportClient;
+  payment_installments: { sequence_number: number; due_date: string | null }[];
+}
+
+interface ExportRefund {
+  amount: number;
+  stripe_refund_id: string | null;
+  refunded_on: string;
+  clients: ExportClient;
+  invoices: { invoice_number: string | null; amount: number; status: string } | null;
+}
+
+interface ExportPayment {
+  amount: number;
+  method: string;
+  reference: string | null;
+  paid_on: string;
+  clients: ExportClient;
+  payment_installments: { invoices: { invoice_number: string | null } | null } | null;
+}
+
+// One row of the export, before it's written out in either format.
+interface Entry {
+  type: "Invoice" | "Payment" | "Refund";
+  date: string;
+  invoiceNumber: string;
+  client: ExportClient;
+  description: string;
+  amount: number;
+  tax: number;
+  status: string;
+  dueDate: string;
+  method: string;
+  reference: string;
+}
+
+async function loadEntries(db: SupabaseClient, companyId: string, from: string, to: string): Promise<Entry[]> {
+  const start = `${from}T00:00:00Z`;
+  const end = new Date(Date.parse(`${to}T00:00:00Z`) + 86_400_000).toISOString();
+  const invoiceColumns =
+    "id, invoice_number, amount, tax_amount, status, created_at, clients!inner(name, contact_email, company_id), payment_installments(sequence_number, due_date)";
+
+  const [issued, paid, refunded] = await Promise.all([
+    db.from("invoices").select(invoiceColumns).eq("clients.company_id", companyId).gte("created_at", start).lt("created_at", end),
+    db
+      .from("installment_payments")
+      .select("amount, method, reference, paid_on, clients!inner(name, contact_email, company_id), payment_installments(invoices(invoice_number))")
+      .eq("clients.company_id", companyId)
+      .gte("paid_on", from)
+      .lte("paid_on", to),
+    db
+      .from("invoice_refunds")
+      .select("amount, stripe_refund_id, refunded_on, clients!inner(name, contact_email, company_id), invoices(invoice_number, amount, status)")
+      .eq("clients.company_id", companyId)
+      .gte("refunded_on", from)
+      .lte("refunded_on", to),
+  ]);
+  const failed = issued.error ?? paid.error ?? refunded.error;
+  if (failed) throw failed;
+
+  const entries: Entry[] = [];
+  for (const invoice of (issued.data ?? []) as unknown as ExportInvoice[]) {
+    const installment = invoice.payment_installments?.[0];
+    entries.push({
+      type: "Invoice",
+      date: invoice.created_at.slice(0, 10),
+      invoiceNumber: invoice.invoice_number ?? "",
+      client: invoice.clients,
+      description: installment ? `Payment ${installment.sequence_number}` : "Invoice",
+      amount: Number(invoice.amount),
+      tax: Number(invoice.tax_amount ?? 0),
+      status: invoice.status,
+      dueDate: installment?.due_date ?? "",
+      method: "",
+      reference: "",
+    });
+  }
+  for (const payment of (paid.data ?? []) as unknown as ExportPayment[]) {
+    entries.push({
+      type: "Payment",
+      date: payment.paid_on,
+      invoiceNumber: payment.payment_installments?.invoices?.invoice_number ?? "",
+      client: payment.clients,
+      description: "Payment received",
+      amount: Number(payment.amount),
+      tax: 0,
+      status: "",
+      dueDate: "",
+      method: METHOD_LABELS[payment.method] ?? payment.method,
+      reference: payment.reference ?? "",
+    });
+  }
+  for (const refund of (refunded.data ?? []) as unknown as ExportRefund[]) {
+    entries.push({
+      type: "Refund",
+      date: refund.refunded_on,
+      invoiceNumber: refund.invoices?.invoice_number ?? "",
+      client: refund.clients,
+      description: Number(refund.amount) < Number(refund.invoices?.amount ?? 0) ? "Partial refund" : "Refund",
+      amount: -Number(refund.amount),
+      tax: 0,
+      status: refund.invoices?.status ?? "",
+      dueDate: "",
+      method: "Stripe",
+      reference: refund.stripe_refund_id ?? "",
+    });
+  }
+
+  return entries.sort((a, b) => a.date.localeCompare(b.date) || a.invoiceNumber.localeCompare(b.invoiceNumber));
+}
+
+// Quoted where needed, and text that a spreadsheet would run as a formula
+// (a client named "=HYPERLINK(...)") is defused with a leading apostrophe.
+function csvField(value: string | number): string {
+  if (typeof value === "number") return value.toFixed(2);
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function toCsv(entries: Entry[]): string {
+  const header = ["Type", "Date", "Invoice Number", "Client", "Client Email", "Description", "Amount", "Tax", "Status", "Due Date", "Method", "Reference"];
+  const rows = entries.map((e) =>
+    [e.type, e.date, e.invoiceNumber, e.client.name, e.client.contact_email ?? "", e.description, e.amount, e.tax, e.status, e.dueDate, e.method, e.reference]
+      .map(csvField)
+      .join(",")
+  );
+  return [header.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+// IIF is tab-separated with no quoting, so tabs and line breaks can't
+// appear inside a field.
+function iifField(value: string): string {
+  return value.replace(/[\t\r\n]+/g, " ");
+}
+
+function iifDate(day: string): string {
+  const [year, month, date] = day.split("-");
+  return `${month}/${date}/${year}`;
+}
+
+function iifLine(kind: "TRNS" | "SPL", type: string, e: Entry, account: string, amount: number, memo: string): string {
+  return [kind, type, iifDate(e.date), account, iifField(e.client.name), amount.toFixed(2), iifField(e.invoiceNumber), iifField(memo)].join("\t");
+}
+
+function toIif(entries: Entry[]): string {
+  const lines: string[] = ["!CUST\tNAME\tEMAIL"];
+  const customers = new Map<string, string>();
+  for (const e of entries) if (!customers.has(e.client.name)) customers.set(e.client.name, e.client.contact_email ?? "");
+  for (const [name, email] of customers) lines.push(["CUST", iifField(name), iifField(email)].join("\t"));
+
+  lines.push("!TRNS\tTRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tDOCNUM\tMEMO");
+  lines.push("!SPL\tTRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tDOCNUM\tMEMO");
+  lines.push("!ENDTRNS");
+
+  for (const e of entries) {
+    if (e.type === "Invoice") {
+      lines.push(iifLine("TRNS", "INVOICE", e, ACCOUNTS.receivable, e.amount, e.description));
+      lines.push(iifLine("SPL", "INVOICE", e, ACCOUNTS.income, -(e.amount - e.tax), e.description));
+      if (e.tax > 0) lines.push(iifLine("SPL", "INVOICE", e, ACCOUNTS.tax, -e.tax, "Sales tax"));
+    } else if (e.type === "Payment") {
+      const memo = e.reference ? `${e.method} ${e.reference}` : e.method;
+      lines.push(iifLine("TRNS", "PAYMENT", e, ACCOUNTS.deposits, e.amount, memo));
+      lines.push(iifLine("SPL", "PAYMENT", e, ACCOUNTS.receivable, -e.amount, memo));
+    } else {
+      // e.amount is already negative: money back out to the client.
+      lines.push(iifLine("TRNS", "CHECK", e, ACCOUNTS.deposits, e.amount, e.description));
+      lines.push(iifLine("SPL", "CHECK", e, ACCOUNTS.receivable, -e.amount, e.description));
+    }
+    lines.push("ENDTRNS");
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+export async function buildAccountingExport(
+  db: SupabaseClient,
+  options: { companyId: string; companyName: string; from: string; to: string; format: AccountingExportFormat }
+): Promise<AccountingExport> {
+  const entries = await loadEntries(db, options.companyId, options.from, options.to);
+  const base = `${options.companyName.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "company"}-${options.from}-to-${options.to}`;
+  return options.format === "iif"
+    ? { filename: `${base}.iif`, contentType: "application/octet-stream", body: toIif(entries) }
+    : { filename: `${base}.csv`, contentType: "text/csv; charset=utf-8", body: toCsv(entries) };
+}
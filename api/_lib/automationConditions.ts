@@ -0,0 +1,82 @@
+// automationConditions.ts
+//
+// The fixed set of branch conditions an automation_edges row can carry
+// (migration 0034). A conditional edge only runs its target when the
+// condition holds for the firing; an unconditional edge (condition_type
+// null) behaves exactly as every edge did before. Like the action
+// handlers, this list is reviewed code, not founder-authored logic -- a
+// founder picks one of these predicates and fills in its value, and the
+// table's check constraint rejects anything else (build spec Section 3:
+// bounded, not arbitrary).
+//
+// Pure and shared by both sides: automationRuntime.ts evaluates these
+// against the firing's data, and the canvas/NodeDetailPanel use the same
+// labels so what an edge says on screen is what the runtime checks.
+
+export type ConditionType = "proposal_total_over" | "client_track_is" | "project_has_target_date";
+
+export type ClientTrack = "freelancer" | "founder_mini" | "founder_full" | "ceo";
+
+// Mirrors the three automation_edges columns directly, so a fetched edge
+// row can be passed to anything here as-is.
+export interface EdgeCondition {
+  condition_type: ConditionType | null;
+  condition_value: string | null;
+  // The "otherwise" side of a branch -- runs when the predicate does NOT
+  // hold, so one node can route to two different next steps.
+  condition_negated: boolean;
+}
+
+export const CONDITION_TYPES: ConditionType[] = ["proposal_total_over", "client_track_is", "project_has_target_date"];
+
+export const CONDITION_LABELS: Record<ConditionType, string> = {
+  proposal_total_over: "Proposal total is over…",
+  client_track_is: "Client track is…",
+  project_has_target_date: "Project has a target delivery date",
+};
+
+export const TRACK_LABELS: Record<ClientTrack, string> = {
+  freelancer: "Freelancer",
+  founder_mini: "Founder Mini",
+  founder_full: "Founder Full",
+  ceo: "CEO",
+};
+
+export const UNCONDITIONAL: EdgeCondition = { condition_type: null, condition_value: null, condition_negated: false };
+
+// Same rules as the automation_edges_condition_shape check constraint in
+// 0034 -- lets the panel disable "Connect" up front instead of surfacing a
+// constraint violation after the confirm step.
+export function isValidCondition(condition: EdgeCondition): boolean {
+  const { condition_type: type, condition_value: value } = condition;
+  if (type === null) return value === null && !condition.condition_negated;
+  switch (type) {
+    case "proposal_total_over":
+      return value !== null && /^\d+(\.\d{1,2})?$/.test(value);
+    case "client_track_is":
+      return value !== null && value in TRACK_LABELS;
+    case "project_has_target_date":
+      return value === null;
+  }
+}
+
+function formatAmount(value: string | null): string {
+  return `$${Number(value ?? 0).toLocaleString("en-US", { maximumFractionDigits: 2 })}`;
+}
+
+// Short label drawn on the edge and listed under "Runs next". Null for an
+// unconditional edge -- those stay unlabelled, same as before.
+export function describeCondition(condition: EdgeCondition): string | null {
+  const { condition_type: type, condition_value: value, condition_negated: negated } = condition;
+  if (type === null) return null;
+  switch (type) {
+    case "proposal_total_over":
+      return negated ? `Total ${formatAmount(value)} or less` : `Total over ${formatAmount(value)}`;
+    case "client_track_is": {
+      const track = TRACK_LABELS[value as ClientTrack] ?? value;
+      return negated ? `Track isn't ${track}` : `Track is ${track}`;
+    }
+    case "project_has_target_date":
+      return negated ? "No target delivery date" : "Has a target delivery date";
+  }
+}
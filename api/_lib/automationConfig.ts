@@ -0,0 +1,198 @@
+// automationConfig.ts
+//
+// Typed per-node settings for the Automation Web: what each action_type
+// may keep in automations.config (the jsonb column from migration 0012,
+// unused until now beyond a wait's length), and the one validator every
+// reader and writer goes through. Shared browser + server like
+// proposalEngine.ts -- NodeDetailPanel validates before it saves,
+// automationRuntime.ts re-validates before it acts (a config that doesn't
+// pass is recorded as a skipped step, never half-used), and migration
+// 0038's validate_automation_config() trigger rejects the same malformed
+// shapes at the database, since the dashboard writes automations directly
+// under RLS rather than through an api/ route.
+//
+// Every field is optional: a freshly added node has config {} and each
+// handler either falls back to its original behavior (notify_team's
+// trigger message, the buildKickoffTasks list) or skips with "not set
+// yet". Templates only know the placeholders in TEMPLATE_PLACEHOLDERS --
+// anything else in {{ }} is rejected, not passed through as literal text.
+
+import { CLIENT_STAGES, type ClientStage } from "./automationHandlers/moveClientStage";
+import type { DeliverablePlan } from "./automationHandlers/createDeliverables";
+
+export interface KickoffTaskConfig {
+  title: string;
+  description?: string;
+  // company_members.profile_id of whoever should own it; unassigned when
+  // absent, same as the default kickoff list.
+  assignee_id?: string;
+  // Due this many days after the project's start date.
+  due_offset_days?: number;
+}
+
+export interface AutomationConfigs {
+  create_project_and_tasks: { tasks?: KickoffTaskConfig[] };
+  notify_team: { message_template?: string };
+  request_testimonial: { prompt?: string };
+  wait: { days?: number };
+  send_email: { subject?: string; body?: string };
+  enroll_in_sequence: { sequence_id?: string };
+  move_client_stage: { stage?: ClientStage };
+  create_deliverables: { deliverables?: DeliverablePlan[] };
+  raise_next_invoice: Record<string, never>;
+}
+
+export type AutomationConfigActionType = keyof AutomationConfigs;
+
+export const TEMPLATE_PLACEHOLDERS = ["client_name"] as const;
+export type TemplateVariables = Record<(typeof TEMPLATE_PLACEHOLDERS)[number], string>;
+
+export const MAX_TEMPLATE_LENGTH = 5000;
+export const MAX_WAIT_DAYS = 365;
+export const MAX_LIST_ITEMS = 25;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function fillTemplate(template: string, variables: TemplateVariables): string {
+  return template.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+    name in variables ? variables[name as keyof TemplateVariables] : match
+  );
+}
+
+// For template output going into an HTML email body.
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+type FieldResult<T> = { ok: true; value: T | undefined } | { ok: false; error: string };
+
+function templateField(raw: Record<string, unknown>, key: string, label: string): FieldResult<string> {
+  const value = raw[key];
+  if (value === undefined || value === null || value === "") return { ok: true, value: undefined };
+  if (typeof value !== "string") return { ok: false, error: `${label} must be text` };
+  if (value.length > MAX_TEMPLATE_LENGTH) return { ok: false, error: `${label} is too long` };
+  for (const [, name] of value.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name)) {
+      return { ok: false, error: `${label} uses an unknown placeholder: {{${name}}}` };
+    }
+  }
+  return { ok: true, value };
+}
+
+function listField(raw: Record<string, unknown>, key: string, label: string): FieldResult<Record<string, unknown>[]> {
+  const value = raw[key];
+  if (value === undefined || value === null) return { ok: true, value: undefined };
+  if (!Array.isArray(value)) return { ok: false, error: `${label} must be a list` };
+  if (value.length > MAX_LIST_ITEMS) return { ok: false, error: `${label} can have at most ${MAX_LIST_ITEMS} entries` };
+  for (const entry of value) {
+    if (!entry || typeof entry !== "object") return { ok: false, error: `${label} has an invalid entry` };
+    const title = (entry as Record<string, unknown>).title;
+    if (typeof title !== "string" || !title.trim()) return { ok: false, error: `Every entry in ${label.toLowerCase()} needs a title` };
+  }
+  return { ok: true, value: value as Record<string, unknown>[] };
+}
+
+function optionalText(entry: Record<string, unknown>, key: string): string | undefined {
+  const value = entry[key];
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+// Returns the config with only the fields its action_type understands --
+// unknown keys are dropped rather than rejected, so an older node's leftover
+// keys don't block saving it.
+export function validateAutomationConfig<A extends AutomationConfigActionType>(
+  actionType: A,
+  rawConfig: unknown
+): { ok: true; config: AutomationConfigs[A] } | { ok: false; error: string } {
+  if (rawConfig !== undefined && rawConfig !== null && (typeof rawConfig !== "object" || Array.isArray(rawConfig))) {
+    return { ok: false, error: "Settings must be an object" };
+  }
+  const raw = (rawConfig ?? {}) as Record<string, unknown>;
+  const done = (config: object) => ({ ok: true as const, config: config as AutomationConfigs[A] });
+
+  switch (actionType as AutomationConfigActionType) {
+    case "create_project_and_tasks": {
+      const tasks = listField(raw, "tasks", "Kickoff tasks");
+      if (tasks.ok === false) return tasks;
+      if (!tasks.value) return done({});
+      const clean: KickoffTaskConfig[] = [];
+      for (const entry of tasks.value) {
+        const title = templateField(entry, "title", "A task title");
+        if (title.ok === false) return title;
+        const description = templateField(entry, "description", "A task description");
+        if (description.ok === false) return description;
+        const assignee = entry.assignee_id;
+        if (assignee !== undefined && assignee !== null && assignee !== "" && (typeof assignee !== "string" || !UUID_PATTERN.test(assignee))) {
+          return { ok: false, error: "A task has an invalid assignee" };
+        }
+        const offset = entry.due_offset_days;
+        if (offset !== undefined && offset !== null && (!Number.isInteger(offset) || (offset as number) < 0 || (offset as number) > MAX_WAIT_DAYS)) {
+          return { ok: false, error: `A task's due offset must be a whole number of days from 0 to ${MAX_WAIT_DAYS}` };
+        }
+        const task: KickoffTaskConfig = { title: title.value!.trim() };
+        if (description.value) task.description = description.value;
+        if (assignee) task.assignee_id = assignee as string;
+        if (offset !== undefined && offset !== null) task.due_offset_days = offset as number;
+        clean.push(task);
+      }
+      return done({ tasks: clean });
+    }
+    case "notify_team": {
+      const message = templateField(raw, "message_template", "The message");
+      if (message.ok === false) return message;
+      return done(message.value ? { message_template: message.value } : {});
+    }
+    case "request_testimonial": {
+      const prompt = templateField(raw, "prompt", "The testimonial prompt");
+      if (prompt.ok === false) return prompt;
+      return done(prompt.value ? { prompt: prompt.value } : {});
+    }
+    case "wait": {
+      const days = raw.days;
+      if (days === undefined || days === null) return done({});
+      if (!Number.isInteger(days) || (days as number) < 1 || (days as number) > MAX_WAIT_DAYS) {
+        return { ok: false, error: `A wait must be a whole number of days from 1 to ${MAX_WAIT_DAYS}` };
+      }
+      return done({ days });
+    }
+    case "send_email": {
+      const subject = templateField(raw, "subject", "The subject");
+      if (subject.ok === false) return subject;
+      const body = templateField(raw, "body", "The message");
+      if (body.ok === false) return body;
+      const config: AutomationConfigs["send_email"] = {};
+      if (subject.value) config.subject = subject.value;
+      if (body.value) config.body = body.value;
+      return done(config);
+    }
+    case "enroll_in_sequence": {
+      const sequenceId = raw.sequence_id;
+      if (sequenceId === undefined || sequenceId === null || sequenceId === "") return done({});
+      if (typeof sequenceId !== "string" || !UUID_PATTERN.test(sequenceId)) return { ok: false, error: "Invalid email sequence" };
+      return done({ sequence_id: sequenceId });
+    }
+    case "move_client_stage": {
+      const stage = raw.stage;
+      if (stage === undefined || stage === null || stage === "") return done({});
+      if (!(CLIENT_STAGES as readonly unknown[]).includes(stage)) return { ok: false, error: "Invalid stage" };
+      return done({ stage });
+    }
+    case "create_deliverables": {
+      const deliverables = listField(raw, "deliverables", "Deliverables");
+      if (deliverables.ok === false) return deliverables;
+      if (!deliverables.value) return done({});
+      return done({
+        deliverables: deliverables.value.map((entry) => {
+          const plan: DeliverablePlan = { title: (entry.title as string).trim() };
+          const description = optionalText(entry, "description");
+          if (description) plan.description = description;
+          return plan;
+        }),
+      });
+    }
+    case "raise_next_invoice":
+      return done({});
+  }
+  return { ok: false, error: "Unknown action" };
+}
@@ -0,0 +1,45 @@
+// createDeliverables.ts
+//
+// The vetted handler behind the 'create_deliverables' action_type: adds
+// the node's configured list of deliverables to the firing's project, in
+// order, after any it already has. New rows start 'pending' and
+// client_visible (the column defaults from migration 0012) -- the same
+// shape as a deliverable added by hand from the project view.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { HandlerPreview } from "./preview";
+
+export interface DeliverablePlan {
+  title: string;
+  description?: string;
+}
+
+export interface CreateDeliverablesContext {
+  projectId: string;
+  deliverables: DeliverablePlan[];
+}
+
+export function describeDeliverables(ctx: CreateDeliverablesContext): HandlerPreview {
+  const n = ctx.deliverables.length;
+  return { writes: [`Add ${n} deliverable${n === 1 ? "" : "s"} to the project: ${ctx.deliverables.map((d) => d.title).join(", ")}`] };
+}
+
+export async function createDeliverables(supabase: SupabaseClient, ctx: CreateDeliverablesContext): Promise<void> {
+  const { data: last } = await supabase
+    .from("deliverables")
+    .select("sort_order")
+    .eq("project_id", ctx.projectId)
+    .order("sort_order", { ascending: false })
+    .limit(1);
+  const start = (last?.[0]?.sort_order ?? -1) + 1;
+
+  const { error } = await supabase.from("deliverables").insert(
+    ctx.deliverables.map((d, i) => ({
+      project_id: ctx.projectId,
+      title: d.title,
+      description: d.description ?? null,
+      sort_order: start + i,
+    }))
+  );
+  if (error) throw new Error(`Couldn't create the deliverables: ${error.message}`);
+}
@@ -8,9 +8,14 @@
 // agnostic like projectAutomation.ts itself -- takes whichever
 // SupabaseClient the caller already has (service-role from an API route, or
 // the browser client under a team member's own session), never assumes one.
+//
+// A node can replace the default buildKickoffTasks list with its own
+// (config.tasks, migration 0038) -- the runtime resolves titles, assignees
+// and due dates before they get here, so this only writes them.
 
 import type { SupabaseClient } from "@supabase/supabase-js";
 import { buildKickoffTasks, kickoffProjectName, KICKOFF_TASK_METADATA } from "../projectAutomation";
+import type { HandlerPreview } from "./preview";
 
 export interface CreateProjectAndTasksContext {
   clientId: string;
@@ -18,6 +23,26 @@ export interface CreateProjectAndTasksContext {
   companyId: string;
   proposalId?: string;
   startDate: string; // YYYY-MM-DD
+  // The node's configured task list; the default kickoff list when absent.
+  tasks?: ConfiguredKickoffTask[];
+}
+
+export interface ConfiguredKickoffTask {
+  title: string;
+  description: string | null;
+  assigneeId: string | null;
+  dueDate: string | null; // YYYY-MM-DD
+}
+
+export function describeProjectAndTasks(ctx: CreateProjectAndTasksContext): HandlerPreview {
+  const titles = (ctx.tasks ?? buildKickoffTasks(ctx.clientName)).map((t) => t.title);
+  const writes = [
+    `Create the project "${kickoffProjectName(ctx.clientName)}" starting ${ctx.startDate}`,
+    `Add ${titles.length} task${titles.length === 1 ? "" : "s"}: ${titles.join(", ")}`,
+    `Move ${ctx.clientName} to Active`,
+  ];
+  if (ctx.proposalId) writes.push("Add an agreement for the proposal, ready to sign");
+  return { writes };
 }
 
 export async function createProjectAndTasks(supabase: SupabaseClient, ctx: CreateProjectAndTasksContext): Promise<void> {
@@ -33,8 +58,23 @@ export async function createProjectAndTasks(supabase: SupabaseClient, ctx: Creat
     .select("id")
     .single();
 
-  const kickoffTasks = buildKickoffTasks(ctx.clientName);
-  if (project) {
+  if (project && ctx.tasks) {
+    await supabase.from("tasks").insert(
+      ctx.tasks.map((t) => ({
+        title: t.title,
+        description: t.description,
+        company_id: ctx.companyId,
+        client_id: ctx.clientId,
+        project_id: project.id,
+        assigned_to: t.assigneeId,
+        due_date: t.dueDate,
+        status: "active",
+        priority: "medium",
+        metadata: KICKOFF_TASK_METADATA,
+      }))
+    );
+  } else if (project) {
+    const kickoffTasks = buildKickoffTasks(ctx.clientName);
     await supabase.from("tasks").insert(
       kickoffTasks.map((t) => ({
         title: t.title,
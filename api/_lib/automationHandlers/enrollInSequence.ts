@@ -0,0 +1,69 @@
+// enrollInSequence.ts
+//
+// The vetted handler behind the 'enroll_in_sequence' action_type: enrolls
+// the client's contact email in one of the company's email_sequences
+// (migration 0018), starting at step 1 today -- the daily cron in
+// api/cron/process-email-sequences.ts does the actual sending, exactly as
+// for a manual enrollment from the Marketing page. A client already
+// actively enrolled in that sequence isn't enrolled twice.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { HandlerPreview } from "./preview";
+
+export interface EnrollInSequenceContext {
+  companyId: string;
+  clientId: string;
+  sequenceId: string;
+}
+
+type EnrollmentCheck = { skipped: string } | { email: string; sequenceName: string };
+
+// Everything enrollInSequence looks at before it writes.
+async function checkEnrollment(supabase: SupabaseClient, ctx: EnrollInSequenceContext): Promise<EnrollmentCheck> {
+  const { data: sequence } = await supabase
+    .from("email_sequences")
+    .select("id, name, active")
+    .eq("id", ctx.sequenceId)
+    .eq("company_id", ctx.companyId)
+    .maybeSingle();
+  if (!sequence) return { skipped: "The chosen email sequence no longer exists" };
+  if (!sequence.active) return { skipped: "The chosen email sequence is turned off" };
+
+  const { data: client } = await supabase
+    .from("clients")
+    .select("contact_email")
+    .eq("id", ctx.clientId)
+    .eq("company_id", ctx.companyId)
+    .maybeSingle();
+  if (!client?.contact_email) return { skipped: "This client doesn't have a contact email" };
+
+  const { data: existing } = await supabase
+    .from("email_sequence_enrollments")
+    .select("id")
+    .eq("sequence_id", ctx.sequenceId)
+    .eq("client_id", ctx.clientId)
+    .eq("status", "active")
+    .limit(1);
+  if (existing && existing.length > 0) return { skipped: "This client is already enrolled in that sequence" };
+
+  return { email: client.contact_email, sequenceName: sequence.name };
+}
+
+export async function describeEnrollInSequence(supabase: SupabaseClient, ctx: EnrollInSequenceContext): Promise<HandlerPreview> {
+  const check = await checkEnrollment(supabase, ctx);
+  if ("skipped" in check) return check;
+  return { writes: [`Enroll ${check.email} in "${check.sequenceName}", starting today`] };
+}
+
+// Resolves to a reason when there was nothing to do (recorded as a skipped
+// step), or null once the enrollment exists.
+export async function enrollInSequence(supabase: SupabaseClient, ctx: EnrollInSequenceContext): Promise<string | null> {
+  const check = await checkEnrollment(supabase, ctx);
+  if ("skipped" in check) return check.skipped;
+
+  const { error } = await supabase
+    .from("email_sequence_enrollments")
+    .insert({ sequence_id: ctx.sequenceId, client_id: ctx.clientId, email: check.email });
+  if (error) throw new Error(`Couldn't enroll the client: ${error.message}`);
+  return null;
+}
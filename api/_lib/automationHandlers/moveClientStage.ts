@@ -0,0 +1,49 @@
+// moveClientStage.ts
+//
+// The vetted handler behind the 'move_client_stage' action_type: sets the
+// client's Client Journey stage (clients.stage, migration 0001) to the one
+// saved on the node's config -- the same write createProjectAndTasks and
+// the dashboard's project_completed path already make by hand, now
+// something a founder can place anywhere in a chain.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { HandlerPreview } from "./preview";
+
+export const CLIENT_STAGES = ["lead", "proposal_sent", "active", "delivered", "archived"] as const;
+export type ClientStage = (typeof CLIENT_STAGES)[number];
+
+// Same wording as the stage dropdown in DashboardApp.tsx's client view.
+export const CLIENT_STAGE_LABELS: Record<ClientStage, string> = {
+  lead: "Lead",
+  proposal_sent: "Proposal Sent",
+  active: "Active",
+  delivered: "Delivered",
+  archived: "Archived",
+};
+
+export interface MoveClientStageContext {
+  companyId: string;
+  clientId: string;
+  stage: ClientStage;
+}
+
+export async function describeMoveClientStage(supabase: SupabaseClient, ctx: MoveClientStageContext): Promise<HandlerPreview> {
+  const { data: client } = await supabase
+    .from("clients")
+    .select("name, stage")
+    .eq("id", ctx.clientId)
+    .eq("company_id", ctx.companyId)
+    .maybeSingle();
+  if (!client) return { skipped: "This client no longer exists" };
+  if (client.stage === ctx.stage) return { writes: [] };
+  return { writes: [`Move ${client.name} from ${CLIENT_STAGE_LABELS[client.stage as ClientStage] ?? client.stage} to ${CLIENT_STAGE_LABELS[ctx.stage]}`] };
+}
+
+export async function moveClientStage(supabase: SupabaseClient, ctx: MoveClientStageContext): Promise<void> {
+  const { error } = await supabase
+    .from("clients")
+    .update({ stage: ctx.stage })
+    .eq("id", ctx.clientId)
+    .eq("company_id", ctx.companyId);
+  if (error) throw new Error(`Couldn't move the client's stage: ${error.message}`);
+}
@@ -10,18 +10,30 @@
 // client the caller already has, same pattern as the rest of api/_lib.
 
 import type { SupabaseClient } from "@supabase/supabase-js";
+import type { HandlerPreview } from "./preview";
 
 export interface NotifyTeamContext {
   companyId: string;
   message: string;
 }
 
-export async function notifyTeam(supabase: SupabaseClient, ctx: NotifyTeamContext): Promise<void> {
+async function fetchFounders(supabase: SupabaseClient, companyId: string) {
   const { data: founders } = await supabase
     .from("company_members")
     .select("profile_id")
-    .eq("company_id", ctx.companyId)
+    .eq("company_id", companyId)
     .eq("role", "founder");
+  return founders;
+}
+
+export async function describeNotifyTeam(supabase: SupabaseClient, ctx: NotifyTeamContext): Promise<HandlerPreview> {
+  const founders = await fetchFounders(supabase, ctx.companyId);
+  if (!founders || founders.length === 0) return { skipped: "This company doesn't have a founder to message" };
+  return { writes: [`Message ${founders.length === 1 ? "the founder" : `${founders.length} founders`}: "${ctx.message}"`] };
+}
+
+export async function notifyTeam(supabase: SupabaseClient, ctx: NotifyTeamContext): Promise<void> {
+  const founders = await fetchFounders(supabase, ctx.companyId);
 
   if (!founders || founders.length === 0) return;
 
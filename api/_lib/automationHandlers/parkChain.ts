@@ -0,0 +1,57 @@
+// parkChain.ts
+//
+// The vetted handler behind the 'wait' action_type. A wait node doesn't do
+// anything itself -- it parks the rest of the chain as an automation_waits
+// row (migration 0035) with a run_at time, and the runtime stops walking
+// there. The daily cron (api/cron/process-email-sequences.ts) picks due
+// rows back up through resumeChain() in automationRuntime.ts, which carries
+// on from this node's outgoing edges with the exact context the original
+// firing had.
+//
+// Also flips the node's status to 'waiting' so the canvas pill says what's
+// actually true. Best-effort: under a team member's own session the
+// department_scoped_edit policy (0028) may not allow the status write --
+// the parked row is what matters, and the cron resets the pill anyway.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { HandlerPreview } from "./preview";
+
+export interface ParkChainContext {
+  companyId: string;
+  automationId: string;
+  triggerType: string;
+  days: number;
+  // The firing's full AutomationTriggerContext, stored verbatim so the
+  // resumed half of the chain sees the same client/proposal/project.
+  chainContext: object;
+}
+
+function resumeAt(days: number): Date {
+  const runAt = new Date();
+  runAt.setDate(runAt.getDate() + days);
+  return runAt;
+}
+
+// A wait never skips once it has its days, so this is always writes.
+export function describeParkChain(ctx: ParkChainContext): Extract<HandlerPreview, { writes: string[] }> {
+  return { writes: [`Hold everything after this until ${resumeAt(ctx.days).toISOString().slice(0, 10)}`] };
+}
+
+// Resolves to the run_at the chain was parked until.
+export async function parkChain(supabase: SupabaseClient, ctx: ParkChainContext): Promise<Date> {
+  const runAt = resumeAt(ctx.days);
+
+  const { error } = await supabase.from("automation_waits").insert({
+    company_id: ctx.companyId,
+    automation_id: ctx.automationId,
+    trigger_type: ctx.triggerType,
+    context: ctx.chainContext,
+    run_at: runAt.toISOString(),
+  });
+  // Unlike the run log, this write IS the step -- if it didn't land,
+  // nothing after the wait will ever run, so it has to surface as failed.
+  if (error) throw new Error(`Couldn't schedule the wait: ${error.message}`);
+
+  await supabase.from("automations").update({ status: "waiting" }).eq("id", ctx.automationId).eq("status", "active");
+  return runAt;
+}
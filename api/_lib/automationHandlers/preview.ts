@@ -0,0 +1,9 @@
+// preview.ts
+//
+// What a handler's describe function hands a simulation (simulateTrigger
+// in automationRuntime.ts): the rows it would write, one plain line each
+// for the founder to read, or why it would skip. Describe functions only
+// ever read -- they share their handler's lookups, never its inserts or
+// updates.
+
+export type HandlerPreview = { writes: string[] } | { skipped: string };
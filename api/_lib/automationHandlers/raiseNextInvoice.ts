@@ -0,0 +1,66 @@
+// raiseNextInvoice.ts
+//
+// The vetted handler behind the 'raise_next_invoice' action_type: bills
+// the earliest still-'pending' payment_installments row on the client's
+// payment schedule (the firing's proposal's, when it has one) -- the same
+// invoice-then-mark-'invoiced' step api/create-checkout-session.ts does
+// lazily when a client clicks Pay, done up front instead so the invoice
+// exists before anyone asks for it. The charge amount always comes from
+// the installment row itself.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { HandlerPreview } from "./preview";
+
+export interface RaiseNextInvoiceContext {
+  clientId: string;
+  projectId?: string;
+  proposalId?: string;
+}
+
+type NextInstallment = { skipped: string } | { id: string; amount: number; taxAmount: number; sequenceNumber: number };
+
+async function findNextInstallment(supabase: SupabaseClient, ctx: RaiseNextInvoiceContext): Promise<NextInstallment> {
+  let schedules = supabase.from("payment_schedules").select("id").eq("client_id", ctx.clientId);
+  if (ctx.proposalId) schedules = schedules.eq("proposal_id", ctx.proposalId);
+  const { data: scheduleRows } = await schedules;
+  if (!scheduleRows || scheduleRows.length === 0) return { skipped: "This client doesn't have a payment schedule" };
+
+  const { data: next } = await supabase
+    .from("payment_installments")
+    .select("id, amount, tax_amount, sequence_number")
+    .in("payment_schedule_id", scheduleRows.map((s) => s.id))
+    .eq("status", "pending")
+    .is("invoice_id", null)
+    .order("sequence_number", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+  if (!next) return { skipped: "Every payment on this schedule is already invoiced or paid" };
+  return { id: next.id, amount: Number(next.amount), taxAmount: Number(next.tax_amount ?? 0), sequenceNumber: next.sequence_number };
+}
+
+export async function describeNextInvoice(supabase: SupabaseClient, ctx: RaiseNextInvoiceContext): Promise<HandlerPreview> {
+  const next = await findNextInstallment(supabase, ctx);
+  if ("skipped" in next) return next;
+  return { writes: [`Invoice payment ${next.sequenceNumber} ($${next.amount.toLocaleString()}) and mark it invoiced`] };
+}
+
+// Resolves to a reason when there was nothing to bill (recorded as a
+// skipped step), or null once the invoice exists.
+export async function raiseNextInvoice(supabase: SupabaseClient, ctx: RaiseNextInvoiceContext): Promise<string | null> {
+  const next = await findNextInstallment(supabase, ctx);
+  if ("skipped" in next) return next.skipped;
+
+  const { data: invoice, error: invoiceError } = await supabase
+    .from("invoices")
+    .insert({ client_id: ctx.clientId, project_id: ctx.projectId ?? null, amount: next.amount, tax_amount: next.taxAmount, status: "unpaid" })
+    .select("id")
+    .single();
+  if (invoiceError || !invoice) throw new Error(`Couldn't create the invoice: ${invoiceError?.message}`);
+
+  await supabase
+    .from("payment_installments")
+    .update({ invoice_id: invoice.id, status: "invoiced" })
+    .eq("id", next.id)
+    .eq("status", "pending");
+  return null;
+}
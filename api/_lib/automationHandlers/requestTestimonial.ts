@@ -1,20 +1,38 @@
 // requestTestimonial.ts
 //
-// The vetted handler behind the 'request_testimonial' action_type. Today
-// this is a deliberate no-op: Phase 7's OffboardingCard already surfaces
-// the testimonial/referral capture reactively (it checks
-// project.status === 'completed' on every portal load, per roadmap.md's
-// Phase 10 note), so there's no additional side effect to fire here yet.
-// Kept as a real handler -- not omitted from the dispatch table -- so a
-// founder can still place this node in a chain and see it execute (status
-// pill updates) without silently doing nothing unexplained.
+// The vetted handler behind the 'request_testimonial' action_type. Phase
+// 7's OffboardingCard already surfaces the testimonial/referral capture
+// reactively (it checks project.status === 'completed' on every portal
+// load, per roadmap.md's Phase 10 note), so with no prompt configured this
+// is still a deliberate no-op -- kept as a real handler so a founder can
+// place this node in a chain and see it execute rather than silently do
+// nothing unexplained.
+//
+// When the node has its own prompt (config.prompt, migration 0038), it's
+// stored on the project as testimonial_prompt, and the portal's
+// OffboardingCard asks in the founder's words instead of its generic ask.
 
 import type { SupabaseClient } from "@supabase/supabase-js";
+import type { HandlerPreview } from "./preview";
 
 export interface RequestTestimonialContext {
   companyId: string;
+  projectId?: string;
+  // Already filled ({{client_name}} resolved) by the runtime.
+  prompt?: string;
+}
+
+export function describeRequestTestimonial(ctx: RequestTestimonialContext): HandlerPreview {
+  if (!ctx.prompt || !ctx.projectId) return { writes: [] };
+  return { writes: [`Ask for a testimonial on the portal with: "${ctx.prompt}"`] };
 }
 
-export async function requestTestimonial(_supabase: SupabaseClient, _ctx: RequestTestimonialContext): Promise<void> {
-  // No-op by design -- see file header.
+export async function requestTestimonial(supabase: SupabaseClient, ctx: RequestTestimonialContext): Promise<void> {
+  if (!ctx.prompt || !ctx.projectId) return;
+  const { error } = await supabase
+    .from("projects")
+    .update({ testimonial_prompt: ctx.prompt })
+    .eq("id", ctx.projectId)
+    .eq("company_id", ctx.companyId);
+  if (error) throw new Error(`Couldn't save the testimonial prompt: ${error.message}`);
 }
@@ -0,0 +1,48 @@
+// sendTemplatedEmail.ts
+//
+// The vetted handler behind the 'send_email' action_type: one email to the
+// client on the firing, using the subject/body saved on the node's config.
+// Sends through _lib/resend.ts, which needs RESEND_API_KEY -- a server-only
+// secret -- so the import is dynamic: the dashboard bundles this runtime
+// for its project_completed call, and must never pull the Resend SDK (or
+// try to read process.env) in the browser. automationRuntime.ts doesn't
+// call this at all outside a server context.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { HandlerPreview } from "./preview";
+
+export interface SendTemplatedEmailContext {
+  companyId: string;
+  clientId: string;
+  subject: string;
+  body: string;
+}
+
+const NO_CONTACT_EMAIL = "This client doesn't have a contact email";
+
+async function fetchContactEmail(supabase: SupabaseClient, ctx: SendTemplatedEmailContext): Promise<string | null> {
+  const { data: client } = await supabase
+    .from("clients")
+    .select("contact_email")
+    .eq("id", ctx.clientId)
+    .eq("company_id", ctx.companyId)
+    .maybeSingle();
+  return client?.contact_email ?? null;
+}
+
+export async function describeTemplatedEmail(supabase: SupabaseClient, ctx: SendTemplatedEmailContext): Promise<HandlerPreview> {
+  const to = await fetchContactEmail(supabase, ctx);
+  if (!to) return { skipped: NO_CONTACT_EMAIL };
+  return { writes: [`Email ${to}: "${ctx.subject}"`] };
+}
+
+// Resolves to a reason when there was nothing to send (recorded as a
+// skipped step), or null once the email has gone out.
+export async function sendTemplatedEmail(supabase: SupabaseClient, ctx: SendTemplatedEmailContext): Promise<string | null> {
+  const to = await fetchContactEmail(supabase, ctx);
+  if (!to) return NO_CONTACT_EMAIL;
+
+  const { getResendClient, getFromAddress } = await import("../resend");
+  await getResendClient().emails.send({ from: getFromAddress(), to, subject: ctx.subject, html: ctx.body });
+  return null;
+}
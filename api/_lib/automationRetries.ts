@@ -0,0 +1,57 @@
+// automationRetries.ts
+//
+// The backoff queue for automation nodes whose handler threw (migration
+// 0039). automationRuntime.ts queues a failed step here instead of letting
+// the error abort the firing; the daily cron (api/cron/process-email-
+// sequences.ts) picks due rows up through retryFailedStep() and uses
+// nextRetryAt() to decide when -- or whether -- to try again.
+//
+// Queuing is best-effort in the same way automationRunLog.ts is: the step
+// is already recorded as failed, so a queue insert that doesn't land is
+// logged, not thrown.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// Days to wait before each retry. Whole days, since the cron that makes
+// them runs once a day; three retries, then the step is given up on.
+export const RETRY_DELAYS_DAYS = [1, 2, 4];
+
+export interface FailedStep {
+  companyId: string;
+  automationId: string;
+  runId: string | null;
+  triggerType: string;
+  context: object;
+  error: string;
+}
+
+// When to make the retry after `attempts` retries have already been made,
+// or null once they've run out.
+export function nextRetryAt(attempts: number): Date | null {
+  const days = RETRY_DELAYS_DAYS[attempts];
+  if (days === undefined) return null;
+  const at = new Date();
+  at.setDate(at.getDate() + days);
+  return at;
+}
+
+// Resolves to when the first retry will happen, or null if it couldn't be
+// queued.
+export async function queueRetry(supabase: SupabaseClient, step: FailedStep): Promise<Date | null> {
+  const at = nextRetryAt(0);
+  if (!at) return null;
+  const { error } = await supabase.from("automation_retries").insert({
+    company_id: step.companyId,
+    automation_id: step.automationId,
+    run_id: step.runId,
+    trigger_type: step.triggerType,
+    context: step.context,
+    last_error: step.error,
+    next_attempt_at: at.toISOString(),
+  });
+  if (error) {
+    console.error("Error queuing automation retry (non-fatal):", error);
+    return null;
+  }
+  return at;
+}
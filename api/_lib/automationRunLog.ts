@@ -0,0 +1,128 @@
+// automationRunLog.ts
+//
+// Writes the automation_runs / automation_run_steps trail (migration 0033)
+// for automationRuntime.ts. Kept separate from the runtime so the
+// chain-walking logic stays readable, and so every write here can be
+// strictly best-effort: a failed log insert must never stop a chain that
+// was otherwise going to run, and must never surface as an error to the
+// endpoint that fired the trigger. Supabase reports write failures through
+// `{ error }` rather than throwing, so these just log and move on.
+//
+// A simulation (startSimulation) uses the same RunLog with nowhere to write:
+// its steps collect in memory on `simulated` and go back to whoever asked,
+// so a dry run walks the exact code path a real firing does.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type StepOutcome = "ran" | "skipped" | "failed";
+
+export interface RunLog {
+  // Null when the automation_runs insert itself failed -- the chain still
+  // runs, its steps just have nowhere to be recorded.
+  runId: string | null;
+  companyId: string;
+  triggerType: string;
+  stepOrder: number;
+  failedSteps: number;
+  // Set only for a simulation -- where recordStep puts steps instead of
+  // automation_run_steps.
+  simulated?: SimulatedStep[];
+}
+
+export interface StepRecord {
+  automationId: string;
+  actionType: string;
+  context: object;
+  outcome: StepOutcome;
+  detail?: string;
+  // What the step wrote (or, simulated, would write), one plain line each.
+  writes?: string[];
+  startedAt: Date;
+  finishedAt: Date;
+}
+
+export interface SimulatedStep {
+  automationId: string;
+  actionType: string;
+  stepOrder: number;
+  outcome: StepOutcome;
+  detail: string | null;
+  writes: string[];
+}
+
+// Resolves to null -- and only then -- when `idempotencyKey` was already
+// claimed by an earlier run (migration 0039's unique index): that firing
+// already happened, and the caller does nothing. Any other insert failure
+// is still non-fatal.
+export async function startRun(
+  supabase: SupabaseClient,
+  companyId: string,
+  triggerType: string,
+  clientId: string | undefined,
+  context: object,
+  idempotencyKey: string | null = null
+): Promise<RunLog | null> {
+  const { data, error } = await supabase
+    .from("automation_runs")
+    .insert({
+      company_id: companyId,
+      trigger_type: triggerType,
+      client_id: clientId ?? null,
+      context,
+      idempotency_key: idempotencyKey,
+    })
+    .select("id")
+    .single();
+  if (error?.code === "23505" && idempotencyKey) return null;
+  if (error || !data) {
+    console.error("Error recording automation run (non-fatal):", error);
+    return { runId: null, companyId, triggerType, stepOrder: 0, failedSteps: 0 };
+  }
+  return { runId: data.id, companyId, triggerType, stepOrder: 0, failedSteps: 0 };
+}
+
+export function startSimulation(companyId: string, triggerType: string): RunLog {
+  return { runId: null, companyId, triggerType, stepOrder: 0, failedSteps: 0, simulated: [] };
+}
+
+export async function recordStep(supabase: SupabaseClient, run: RunLog, step: StepRecord): Promise<void> {
+  run.stepOrder += 1;
+  if (step.outcome === "failed") run.failedSteps += 1;
+  if (run.simulated) {
+    run.simulated.push({
+      automationId: step.automationId,
+      actionType: step.actionType,
+      stepOrder: run.stepOrder,
+      outcome: step.outcome,
+      detail: step.detail ?? null,
+      writes: step.writes ?? [],
+    });
+    return;
+  }
+  if (!run.runId) return;
+  const { error } = await supabase.from("automation_run_steps").insert({
+    run_id: run.runId,
+    company_id: run.companyId,
+    automation_id: step.automationId,
+    action_type: step.actionType,
+    step_order: run.stepOrder,
+    context: step.context,
+    outcome: step.outcome,
+    detail: step.detail ?? null,
+    started_at: step.startedAt.toISOString(),
+    finished_at: step.finishedAt.toISOString(),
+    duration_ms: step.finishedAt.getTime() - step.startedAt.getTime(),
+  });
+  if (error) console.error("Error recording automation step (non-fatal):", error);
+}
+
+// 'failed' when any step in the run failed, even though the rest of it ran.
+export async function finishRun(supabase: SupabaseClient, run: RunLog): Promise<void> {
+  if (!run.runId) return;
+  const status = run.failedSteps > 0 ? "failed" : "completed";
+  const { error } = await supabase
+    .from("automation_runs")
+    .update({ status, finished_at: new Date().toISOString() })
+    .eq("id", run.runId);
+  if (error) console.error("Error finishing automation run (non-fatal):", error);
+}
@@ -11,14 +11,92 @@
 // If a company's web has no active row for a trigger, this is a no-op --
 // per spec Section 8, an empty web means nothing fires, it does not fall
 // back to any hardcoded behavior.
+//
+// Every firing that does reach at least one node is recorded to
+// automation_runs / automation_run_steps (migration 0033) via
+// automationRunLog.ts -- which node ran, which was skipped and why, which
+// threw -- so "what did my web do for this client" is answerable after
+// the fact, not just while a status pill is on screen.
+//
+// An edge may carry a branch condition (migration 0034) from the fixed
+// list in automationConditions.ts. The runtime only follows it when the
+// condition holds; a branch not taken is recorded as a skipped step on its
+// target, with the condition as the reason. If the firing doesn't carry
+// what a condition needs (e.g. no proposalId for a total check), neither
+// side of that branch runs -- "unknown" is never guessed into yes or no.
+//
+// A 'wait' node (migration 0035) ends the synchronous walk: the rest of the
+// chain is parked in automation_waits and picked back up by the daily cron
+// via resumeChain() below, so "request a testimonial 14 days after the
+// project completed" runs 14 days later rather than inside the request
+// that marked the project complete.
+//
+// simulateTrigger() is the same walk with nothing written: every handler
+// has a describe function (automationHandlers/preview.ts) that does its
+// handler's reads and reports the writes instead of making them, and the
+// steps come back to the caller rather than landing in automation_runs.
+// A simulated wait reports when it would resume and the walk carries on
+// past it, so the whole path shows at once.
+//
+// Firings are idempotent and failures are contained (migration 0039): a
+// repeat of a firing that already ran -- same trigger, same proposal /
+// invoice / project -- does nothing, and a node whose handler throws is
+// recorded as failed and queued for a retry (automationRetries.ts) while
+// its sibling branches carry on. Only what's downstream of the failed node
+// waits for that retry.
 
 import type { SupabaseClient } from "@supabase/supabase-js";
-import { createProjectAndTasks, type CreateProjectAndTasksContext } from "./automationHandlers/createProjectAndTasks";
-import { notifyTeam, type NotifyTeamContext } from "./automationHandlers/notifyTeam";
-import { requestTestimonial, type RequestTestimonialContext } from "./automationHandlers/requestTestimonial";
+import {
+  createProjectAndTasks,
+  describeProjectAndTasks,
+  type CreateProjectAndTasksContext,
+} from "./automationHandlers/createProjectAndTasks";
+import { notifyTeam, describeNotifyTeam, type NotifyTeamContext } from "./automationHandlers/notifyTeam";
+import {
+  requestTestimonial,
+  describeRequestTestimonial,
+  type RequestTestimonialContext,
+} from "./automationHandlers/requestTestimonial";
+import { parkChain, describeParkChain, type ParkChainContext } from "./automationHandlers/parkChain";
+import {
+  sendTemplatedEmail,
+  describeTemplatedEmail,
+  type SendTemplatedEmailContext,
+} from "./automationHandlers/sendTemplatedEmail";
+import { enrollInSequence, describeEnrollInSequence, type EnrollInSequenceContext } from "./automationHandlers/enrollInSequence";
+import { moveClientStage, describeMoveClientStage, type MoveClientStageContext } from "./automationHandlers/moveClientStage";
+import { createDeliverables, describeDeliverables, type CreateDeliverablesContext } from "./automationHandlers/createDeliverables";
+import { raiseNextInvoice, describeNextInvoice, type RaiseNextInvoiceContext } from "./automationHandlers/raiseNextInvoice";
+import type { HandlerPreview } from "./automationHandlers/preview";
+import { startRun, startSimulation, recordStep, finishRun, type RunLog, type SimulatedStep } from "./automationRunLog";
+import { queueRetry } from "./automationRetries";
+import { describeCondition, type EdgeCondition } from "./automationConditions";
+import {
+  validateAutomationConfig,
+  fillTemplate,
+  escapeHtml,
+  type AutomationConfigs,
+  type TemplateVariables,
+} from "./automationConfig";
 
-export type TriggerType = "proposal_accepted" | "deliverable_approved" | "project_completed";
-export type ActionType = "create_project_and_tasks" | "notify_team" | "request_testimonial";
+export type TriggerType =
+  | "proposal_accepted"
+  | "deliverable_approved"
+  | "project_completed"
+  | "invoice_paid"
+  | "agreement_signed"
+  | "lead_created"
+  | "onboarding_submitted";
+export type ActionType =
+  | "create_project_and_tasks"
+  | "notify_team"
+  | "request_testimonial"
+  | "wait"
+  | "send_email"
+  | "enroll_in_sequence"
+  | "move_client_stage"
+  | "create_deliverables"
+  | "raise_next_invoice";
 
 // Every field any handler might need. A given trigger only ever populates
 // the subset its handlers actually read -- see each handler's own Context
@@ -28,6 +106,11 @@ export interface AutomationTriggerContext {
   clientId?: string;
   clientName?: string;
   proposalId?: string;
+  projectId?: string;
+  deliverableId?: string;
+  invoiceId?: string;
+  agreementId?: string;
+  leadId?: string;
   message?: string;
   startDate?: string;
 }
@@ -37,46 +120,373 @@ interface AutomationRow {
   company_id: string;
   trigger_type: TriggerType;
   action_type: ActionType;
+  config: Record<string, unknown>;
   active: boolean;
 }
 
-async function dispatchAction(supabase: SupabaseClient, node: AutomationRow, ctx: AutomationTriggerContext): Promise<void> {
+const AUTOMATION_COLUMNS = "id, company_id, trigger_type, action_type, config, active";
+
+// A parked automation_waits row, as the cron hands it to resumeChain().
+export interface ParkedChain {
+  id: string;
+  company_id: string;
+  automation_id: string;
+  trigger_type: TriggerType;
+  context: AutomationTriggerContext;
+}
+
+// A queued automation_retries row, as the cron hands it to
+// retryFailedStep().
+export interface QueuedRetry {
+  id: string;
+  company_id: string;
+  automation_id: string;
+  trigger_type: TriggerType;
+  context: AutomationTriggerContext;
+}
+
+// The record a firing is about, per trigger -- a second firing for the
+// same one is a retry of the first (a re-submitted acceptance, a
+// redelivered Stripe event), not a new event. Null when the firing doesn't
+// carry that record, which leaves it unkeyed rather than keyed on less.
+function firingKey(triggerType: TriggerType, ctx: AutomationTriggerContext): string | null {
+  const subjects: Record<TriggerType, string | undefined> = {
+    proposal_accepted: ctx.proposalId,
+    deliverable_approved: ctx.deliverableId,
+    project_completed: ctx.projectId,
+    invoice_paid: ctx.invoiceId,
+    agreement_signed: ctx.agreementId,
+    // submit-lead.ts creates a leads row; intake creates a client.
+    lead_created: ctx.leadId ?? ctx.clientId,
+    onboarding_submitted: ctx.projectId,
+  };
+  const subject = subjects[triggerType];
+  return subject ? `${triggerType}:${subject}` : null;
+}
+
+// Fills {{client_name}} in a node's templates. Looks the name up when the
+// trigger carried a client id but not the name (e.g. deliverable_approved),
+// so a template never says "A client" when the real name was one query
+// away.
+async function templateVariables(supabase: SupabaseClient, ctx: AutomationTriggerContext): Promise<TemplateVariables> {
+  let name = ctx.clientName;
+  if (!name && ctx.clientId) {
+    const { data: client } = await supabase.from("clients").select("name").eq("id", ctx.clientId).maybeSingle();
+    name = client?.name;
+  }
+  return { client_name: name ?? "A client" };
+}
+
+function addDays(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+// What a node did when visited. "skipped" means the trigger didn't carry
+// what this handler needs (e.g. a project_completed firing has no
+// clientName for create_project_and_tasks) -- not an error, but exactly
+// the case that used to vanish without a trace. `halt` stops the walk at
+// this node -- only a wait sets it, whether it parked the chain or
+// couldn't (a wait with no length must not let what's after it fire now).
+type DispatchResult =
+  | { outcome: "ran"; detail?: string; writes?: string[]; halt?: boolean }
+  | { outcome: "skipped"; reason: string; halt?: boolean };
+
+// For the handlers that only find out once they look whether there was
+// anything to do -- they resolve to that reason, or null when they ran.
+function fromHandlerSkip(reason: string | null): DispatchResult {
+  return reason ? { outcome: "skipped", reason } : { outcome: "ran" };
+}
+
+function fromPreview(preview: HandlerPreview): DispatchResult {
+  if ("skipped" in preview) return { outcome: "skipped", reason: preview.skipped };
+  return { outcome: "ran", detail: preview.writes.length ? undefined : "Nothing to change", writes: preview.writes };
+}
+
+const NO_CLIENT = "This trigger doesn't include a client";
+
+async function dispatchAction(
+  supabase: SupabaseClient,
+  node: AutomationRow,
+  ctx: AutomationTriggerContext,
+  run: RunLog
+): Promise<DispatchResult> {
+  // Re-validated on every run (see automationConfig.ts) -- a node whose
+  // settings don't pass is skipped whole, never run on a best guess.
+  const parsed = validateAutomationConfig(node.action_type, node.config);
+  if (parsed.ok === false) {
+    return { outcome: "skipped", reason: `This step's settings aren't valid: ${parsed.error}`, halt: node.action_type === "wait" };
+  }
+  // A simulation's RunLog -- see simulateTrigger().
+  const describing = run.simulated !== undefined;
+
   switch (node.action_type) {
     case "create_project_and_tasks": {
-      if (!ctx.clientId || !ctx.clientName) return;
+      if (!ctx.clientId || !ctx.clientName) {
+        return { outcome: "skipped", reason: "This trigger doesn't include a client to create a project for" };
+      }
+      const config = parsed.config as AutomationConfigs["create_project_and_tasks"];
+      const startDate = ctx.startDate ?? new Date().toISOString().slice(0, 10);
+      const variables = { client_name: ctx.clientName };
       const handlerCtx: CreateProjectAndTasksContext = {
         clientId: ctx.clientId,
         clientName: ctx.clientName,
         companyId: ctx.companyId,
         proposalId: ctx.proposalId,
-        startDate: ctx.startDate ?? new Date().toISOString().slice(0, 10),
+        startDate,
+        tasks: config.tasks?.map((task) => ({
+          title: fillTemplate(task.title, variables),
+          description: task.description ? fillTemplate(task.description, variables) : null,
+          assigneeId: task.assignee_id ?? null,
+          dueDate: task.due_offset_days !== undefined ? addDays(startDate, task.due_offset_days) : null,
+        })),
       };
-      return createProjectAndTasks(supabase, handlerCtx);
+      if (describing) return fromPreview(describeProjectAndTasks(handlerCtx));
+      await createProjectAndTasks(supabase, handlerCtx);
+      return { outcome: "ran" };
     }
     case "notify_team": {
-      if (!ctx.message) return;
-      const handlerCtx: NotifyTeamContext = { companyId: ctx.companyId, message: ctx.message };
-      return notifyTeam(supabase, handlerCtx);
+      const config = parsed.config as AutomationConfigs["notify_team"];
+      const message = config.message_template
+        ? fillTemplate(config.message_template, await templateVariables(supabase, ctx))
+        : ctx.message;
+      if (!message) return { outcome: "skipped", reason: "This trigger doesn't include a message to send" };
+      const handlerCtx: NotifyTeamContext = { companyId: ctx.companyId, message };
+      if (describing) return fromPreview(await describeNotifyTeam(supabase, handlerCtx));
+      await notifyTeam(supabase, handlerCtx);
+      return { outcome: "ran" };
     }
     case "request_testimonial": {
-      const handlerCtx: RequestTestimonialContext = { companyId: ctx.companyId };
-      return requestTestimonial(supabase, handlerCtx);
+      const config = parsed.config as AutomationConfigs["request_testimonial"];
+      if (config.prompt && !ctx.projectId) {
+        return { outcome: "skipped", reason: "This trigger doesn't include a project to show the testimonial prompt on" };
+      }
+      const handlerCtx: RequestTestimonialContext = {
+        companyId: ctx.companyId,
+        projectId: ctx.projectId,
+        prompt: config.prompt ? fillTemplate(config.prompt, await templateVariables(supabase, ctx)) : undefined,
+      };
+      if (describing) return fromPreview(describeRequestTestimonial(handlerCtx));
+      await requestTestimonial(supabase, handlerCtx);
+      return { outcome: "ran" };
+    }
+    case "wait": {
+      // Whole days only -- the cron that resumes parked chains runs once a
+      // day, so anything finer would be a promise the runtime can't keep.
+      const { days } = parsed.config as AutomationConfigs["wait"];
+      if (!days) {
+        return { outcome: "skipped", reason: "This wait doesn't have a number of days set, so nothing after it ran", halt: true };
+      }
+      const handlerCtx: ParkChainContext = {
+        companyId: ctx.companyId,
+        automationId: node.id,
+        triggerType: run.triggerType,
+        days,
+        chainContext: ctx,
+      };
+      if (describing) {
+        return { outcome: "ran", detail: `Would wait ${days} day${days === 1 ? "" : "s"}`, writes: describeParkChain(handlerCtx).writes };
+      }
+      const runAt = await parkChain(supabase, handlerCtx);
+      return {
+        outcome: "ran",
+        detail: `Waiting ${days} day${days === 1 ? "" : "s"} — picks back up on ${runAt.toISOString().slice(0, 10)}`,
+        halt: true,
+      };
+    }
+    case "send_email": {
+      if (!ctx.clientId) return { outcome: "skipped", reason: NO_CLIENT };
+      const { subject, body } = parsed.config as AutomationConfigs["send_email"];
+      if (!subject || !body) return { outcome: "skipped", reason: "This email doesn't have a subject and message set yet" };
+      const variables = await templateVariables(supabase, ctx);
+      const handlerCtx: SendTemplatedEmailContext = {
+        companyId: ctx.companyId,
+        clientId: ctx.clientId,
+        subject: fillTemplate(subject, variables),
+        // The body is sent as HTML, so the name going into it is escaped.
+        body: fillTemplate(body, { client_name: escapeHtml(variables.client_name) }),
+      };
+      if (describing) return fromPreview(await describeTemplatedEmail(supabase, handlerCtx));
+      // See sendTemplatedEmail.ts -- sending needs a server-side secret.
+      // A chain that reaches this from the dashboard's own session (the
+      // project_completed call) can put a wait in front of it; the cron
+      // resumes that part server-side.
+      if (typeof window !== "undefined") {
+        return { outcome: "skipped", reason: "Emails only send from server-side triggers — put a wait before this step" };
+      }
+      return fromHandlerSkip(await sendTemplatedEmail(supabase, handlerCtx));
+    }
+    case "enroll_in_sequence": {
+      if (!ctx.clientId) return { outcome: "skipped", reason: NO_CLIENT };
+      const { sequence_id: sequenceId } = parsed.config as AutomationConfigs["enroll_in_sequence"];
+      if (!sequenceId) return { outcome: "skipped", reason: "This step doesn't have a sequence chosen yet" };
+      const handlerCtx: EnrollInSequenceContext = { companyId: ctx.companyId, clientId: ctx.clientId, sequenceId };
+      if (describing) return fromPreview(await describeEnrollInSequence(supabase, handlerCtx));
+      return fromHandlerSkip(await enrollInSequence(supabase, handlerCtx));
+    }
+    case "move_client_stage": {
+      if (!ctx.clientId) return { outcome: "skipped", reason: NO_CLIENT };
+      const { stage } = parsed.config as AutomationConfigs["move_client_stage"];
+      if (!stage) return { outcome: "skipped", reason: "This step doesn't have a stage chosen yet" };
+      const handlerCtx: MoveClientStageContext = { companyId: ctx.companyId, clientId: ctx.clientId, stage };
+      if (describing) return fromPreview(await describeMoveClientStage(supabase, handlerCtx));
+      await moveClientStage(supabase, handlerCtx);
+      return { outcome: "ran" };
+    }
+    case "create_deliverables": {
+      if (!ctx.projectId) return { outcome: "skipped", reason: "This trigger doesn't include a project to add deliverables to" };
+      const { deliverables } = parsed.config as AutomationConfigs["create_deliverables"];
+      if (!deliverables?.length) return { outcome: "skipped", reason: "This step doesn't have any deliverables listed yet" };
+      const handlerCtx: CreateDeliverablesContext = { projectId: ctx.projectId, deliverables };
+      if (describing) return fromPreview(describeDeliverables(handlerCtx));
+      await createDeliverables(supabase, handlerCtx);
+      return { outcome: "ran" };
+    }
+    case "raise_next_invoice": {
+      if (!ctx.clientId) return { outcome: "skipped", reason: NO_CLIENT };
+      const handlerCtx: RaiseNextInvoiceContext = { clientId: ctx.clientId, projectId: ctx.projectId, proposalId: ctx.proposalId };
+      if (describing) return fromPreview(await describeNextInvoice(supabase, handlerCtx));
+      return fromHandlerSkip(await raiseNextInvoice(supabase, handlerCtx));
+    }
+  }
+}
+
+// Whether the walk goes on past a node: "halt" for a wait, "failed" when
+// its handler threw.
+type NodeResult = { next: "continue" | "halt" } | { next: "failed"; error: string };
+
+// Runs one node and records the step either way. A handler that throws is
+// caught here, not rethrown -- the step is recorded as failed and, when
+// `retryOnFailure` is set (a real firing, not a simulation or a retry
+// already being tracked), queued for the cron to try again.
+async function runNode(
+  supabase: SupabaseClient,
+  node: AutomationRow,
+  ctx: AutomationTriggerContext,
+  run: RunLog,
+  retryOnFailure: boolean
+): Promise<NodeResult> {
+  const startedAt = new Date();
+  let result: DispatchResult;
+  try {
+    result = await dispatchAction(supabase, node, ctx, run);
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    const retryAt = retryOnFailure
+      ? await queueRetry(supabase, {
+          companyId: run.companyId,
+          automationId: node.id,
+          runId: run.runId,
+          triggerType: run.triggerType,
+          context: ctx,
+          error,
+        })
+      : null;
+    await recordStep(supabase, run, {
+      automationId: node.id,
+      actionType: node.action_type,
+      context: ctx,
+      outcome: "failed",
+      detail: retryAt ? `${error} — will retry on ${retryAt.toISOString().slice(0, 10)}` : error,
+      startedAt,
+      finishedAt: new Date(),
+    });
+    return { next: "failed", error };
+  }
+  await recordStep(supabase, run, {
+    automationId: node.id,
+    actionType: node.action_type,
+    context: ctx,
+    outcome: result.outcome,
+    detail: result.outcome === "skipped" ? result.reason : result.detail,
+    writes: result.outcome === "ran" ? result.writes : undefined,
+    startedAt,
+    finishedAt: new Date(),
+  });
+  return { next: result.halt ? "halt" : "continue" };
+}
+
+// Resolves to null when the edge should be followed, otherwise to why not
+// (recorded as the skipped step's detail). Looks up only the one fact the
+// condition needs. The proposal total is the accepted total on its
+// payment_schedules row -- the number the client actually agreed to,
+// already computed and frozen by submit-proposal-selections.ts.
+async function evaluateCondition(
+  supabase: SupabaseClient,
+  condition: EdgeCondition,
+  ctx: AutomationTriggerContext
+): Promise<string | null> {
+  if (condition.condition_type === null) return null;
+
+  let holds: boolean;
+  switch (condition.condition_type) {
+    case "proposal_total_over": {
+      if (!ctx.proposalId) return "This trigger doesn't include a proposal to check the total of";
+      const { data: schedule } = await supabase
+        .from("payment_schedules")
+        .select("total_amount")
+        .eq("proposal_id", ctx.proposalId)
+        .maybeSingle();
+      if (!schedule) return "This proposal doesn't have an accepted total yet";
+      holds = Number(schedule.total_amount) > Number(condition.condition_value);
+      break;
+    }
+    case "client_track_is": {
+      if (!ctx.clientId) return "This trigger doesn't include a client to check the track of";
+      const { data: client } = await supabase.from("clients").select("track").eq("id", ctx.clientId).maybeSingle();
+      holds = client?.track === condition.condition_value;
+      break;
+    }
+    case "project_has_target_date": {
+      if (!ctx.projectId) return "This trigger doesn't include a project to check";
+      const { data: project } = await supabase
+        .from("projects")
+        .select("target_delivery_date")
+        .eq("id", ctx.projectId)
+        .maybeSingle();
+      if (!project) return "This trigger's project no longer exists";
+      holds = project.target_delivery_date !== null;
+      break;
     }
   }
+
+  if (holds !== condition.condition_negated) return null;
+  return `Branch not taken: "${describeCondition(condition)}" didn't apply`;
 }
 
 // Depth-first walk from a head node, guarding against a cycle (shouldn't be
 // reachable through the UI, but the runtime shouldn't infinite-loop if one
-// ever exists) with a visited set.
-async function executeChain(supabase: SupabaseClient, node: AutomationRow, ctx: AutomationTriggerContext, visited: Set<string>): Promise<void> {
+// ever exists) with a visited set. A node that failed stops only its own
+// branch -- the caller's loop moves on to the next sibling.
+async function executeChain(
+  supabase: SupabaseClient,
+  node: AutomationRow,
+  ctx: AutomationTriggerContext,
+  visited: Set<string>,
+  run: RunLog
+): Promise<void> {
   if (visited.has(node.id)) return;
   visited.add(node.id);
 
-  await dispatchAction(supabase, node, ctx);
+  const result = await runNode(supabase, node, ctx, run, !run.simulated);
+  if (result.next !== "continue") return;
 
+  await walkEdges(supabase, node, ctx, visited, run);
+}
+
+// Follows every outgoing edge of a node that has already run (or, for
+// resumeChain, a wait whose time is up).
+async function walkEdges(
+  supabase: SupabaseClient,
+  node: AutomationRow,
+  ctx: AutomationTriggerContext,
+  visited: Set<string>,
+  run: RunLog
+): Promise<void> {
   const { data: edges } = await supabase
     .from("automation_edges")
-    .select("target_automation_id")
+    .select("target_automation_id, condition_type, condition_value, condition_negated")
     .eq("source_automation_id", node.id);
 
   if (!edges || edges.length === 0) return;
@@ -84,26 +494,136 @@ async function executeChain(supabase: SupabaseClient, node: AutomationRow, ctx:
   for (const edge of edges) {
     const { data: target } = await supabase
       .from("automations")
-      .select("id, company_id, trigger_type, action_type, active")
+      .select(AUTOMATION_COLUMNS)
       .eq("id", edge.target_automation_id)
       .eq("active", true)
       .maybeSingle();
-    if (target) await executeChain(supabase, target as AutomationRow, ctx, visited);
+    if (!target || visited.has(target.id)) continue;
+
+    // Evaluated per edge, at the moment the chain reaches it, so a branch
+    // sees whatever earlier nodes in this run already wrote. A target that
+    // isn't taken here stays out of `visited` -- another path may still
+    // legitimately reach it.
+    const startedAt = new Date();
+    const notTaken = await evaluateCondition(supabase, edge as EdgeCondition, ctx);
+    if (notTaken) {
+      await recordStep(supabase, run, {
+        automationId: target.id,
+        actionType: target.action_type,
+        context: ctx,
+        outcome: "skipped",
+        detail: notTaken,
+        startedAt,
+        finishedAt: new Date(),
+      });
+      continue;
+    }
+    await executeChain(supabase, target as AutomationRow, ctx, visited, run);
   }
 }
 
+// Heads are the trigger's active nodes that nothing else points at. A node
+// downstream of a branch or a wait still carries a trigger_type (the
+// column is required), but it must only run when the chain reaches it --
+// starting it directly would bypass the condition or the wait in front.
+async function findHeads(supabase: SupabaseClient, companyId: string, triggerType: TriggerType): Promise<AutomationRow[]> {
+  const [{ data: nodes }, { data: companyEdges }] = await Promise.all([
+    supabase
+      .from("automations")
+      .select(AUTOMATION_COLUMNS)
+      .eq("company_id", companyId)
+      .eq("trigger_type", triggerType)
+      .eq("active", true),
+    supabase.from("automation_edges").select("target_automation_id").eq("company_id", companyId),
+  ]);
+
+  const downstream = new Set((companyEdges || []).map((e) => e.target_automation_id));
+  return ((nodes || []) as AutomationRow[]).filter((n) => !downstream.has(n.id));
+}
+
 export async function runTrigger(supabase: SupabaseClient, companyId: string, triggerType: TriggerType, ctx: AutomationTriggerContext): Promise<void> {
-  const { data: heads } = await supabase
-    .from("automations")
-    .select("id, company_id, trigger_type, action_type, active")
-    .eq("company_id", companyId)
-    .eq("trigger_type", triggerType)
-    .eq("active", true);
+  const heads = await findHeads(supabase, companyId, triggerType);
+  if (heads.length === 0) return;
+
+  const run = await startRun(supabase, companyId, triggerType, ctx.clientId, ctx, firingKey(triggerType, ctx));
+  if (!run) return;
 
-  if (!heads || heads.length === 0) return;
+  const visited = new Set<string>();
+  for (const head of heads) {
+    await executeChain(supabase, head, ctx, visited, run);
+  }
+  await finishRun(supabase, run);
+}
 
+// What runTrigger would do for this firing, in the order it would do it,
+// without writing anything. Not keyed: simulating a firing that already
+// happened still shows its path. A describe function that throws comes
+// back as a 'failed' step, and the rest of the walk carries on just as a
+// real firing would.
+export async function simulateTrigger(
+  supabase: SupabaseClient,
+  companyId: string,
+  triggerType: TriggerType,
+  ctx: AutomationTriggerContext
+): Promise<SimulatedStep[]> {
+  const heads = await findHeads(supabase, companyId, triggerType);
+  const run = startSimulation(companyId, triggerType);
   const visited = new Set<string>();
-  for (const head of heads as AutomationRow[]) {
-    await executeChain(supabase, head, ctx, visited);
+  for (const head of heads) {
+    await executeChain(supabase, head, ctx, visited, run);
+  }
+  return run.simulated ?? [];
+}
+
+// Picks a parked chain back up once its wait is over: a fresh
+// automation_runs row (same trigger and context as the firing that parked
+// it), starting from the wait node's outgoing edges. The caller claims the
+// automation_waits row first so two overlapping cron invocations can't both
+// resume it. Once the wait node has nothing left parked, its status pill
+// goes back to 'active'.
+export async function resumeChain(supabase: SupabaseClient, parked: ParkedChain): Promise<void> {
+  const { data: waitNode } = await supabase.from("automations").select(AUTOMATION_COLUMNS).eq("id", parked.automation_id).maybeSingle();
+  if (!waitNode) return;
+
+  const run = await startRun(supabase, parked.company_id, parked.trigger_type, parked.context.clientId, parked.context);
+  const visited = new Set<string>([waitNode.id]);
+  try {
+    await walkEdges(supabase, waitNode as AutomationRow, parked.context, visited, run);
+  } finally {
+    const { count } = await supabase
+      .from("automation_waits")
+      .select("id", { count: "exact", head: true })
+      .eq("automation_id", waitNode.id)
+      .eq("status", "waiting");
+    if (!count) {
+      await supabase.from("automations").update({ status: "active" }).eq("id", waitNode.id).eq("status", "waiting");
+    }
+  }
+  await finishRun(supabase, run);
+}
+
+// Re-runs a node that failed, in a fresh automation_runs row with the
+// original firing's trigger and context; if it succeeds this time, the
+// chain carries on from it as it would have the first time. The caller
+// (the cron) claims the automation_retries row first and decides from the
+// result whether to schedule another attempt -- so a failure here isn't
+// queued again as a new retry. Resolves to the error, or null once the
+// node ran.
+export async function retryFailedStep(supabase: SupabaseClient, retry: QueuedRetry): Promise<string | null> {
+  const { data: node } = await supabase
+    .from("automations")
+    .select(AUTOMATION_COLUMNS)
+    .eq("id", retry.automation_id)
+    .eq("active", true)
+    .maybeSingle();
+  if (!node) return "This step has been turned off or removed";
+
+  const run = await startRun(supabase, retry.company_id, retry.trigger_type, retry.context.clientId, retry.context);
+  const visited = new Set<string>([node.id]);
+  const result = await runNode(supabase, node as AutomationRow, retry.context, run, false);
+  if (result.next === "continue") {
+    await walkEdges(supabase, node as AutomationRow, retry.context, visited, run);
   }
+  await finishRun(supabase, run);
+  return result.next === "failed" ? result.error : null;
 }
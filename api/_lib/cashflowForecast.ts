@@ -0,0 +1,150 @@
+// cashflowForecast.ts
+//
+// A company's expected income for the next 13 weeks (migration 0051),
+// built from what's already owed rather than what was paid last month:
+//   * every unpaid installment with a due date, less anything already
+//     paid against it (the ledger, migration 0049);
+//   * the cycles active retainers haven't issued yet, on the dates
+//     issue_retainer_cycle() will give them (migration 0046);
+//   * each expected date pushed back by how late that client -- or, without
+//     enough history, the company's clients overall -- has paid before.
+//     Anything already past its expected date lands in this week.
+// ReportingPage draws it against the Brand Kit's cashflow bands, and the
+// daily cron's cashflow_forecast nudge warns when a week falls below the
+// company's weekly floor. Same function for both -- the dashboard's own
+// session or the cron's service role -- so they can't disagree.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export const FORECAST_WEEKS = 13;
+
+// A client's own delay is used once they've paid this many installments;
+// fewer than that says more about the one payment than about them.
+const MIN_CLIENT_HISTORY = 2;
+
+const DAY_MS = 86_400_000;
+const OPEN_STATUSES = ["pending", "invoiced", "partially_paid", "overdue", "failed"];
+
+export interface ForecastWeek {
+  // The Sunday the week starts, YYYY-MM-DD.
+  start: string;
+  expected: number;
+  payments: number;
+}
+
+export interface CashflowForecast {
+  weeks: ForecastWeek[];
+  total: number;
+  // The company-wide delay, in days, used for clients without their own
+  // history. Negative when clients tend to pay early.
+  typicalDelayDays: number;
+}
+
+function dayNumber(day: string): number {
+  return Math.floor(Date.parse(`${day.slice(0, 10)}T00:00:00Z`) / DAY_MS);
+}
+
+function dayString(n: number): string {
+  return new Date(n * DAY_MS).toISOString().slice(0, 10);
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+// `anchor` plus `months`, kept on the anchor's day of the month where that
+// month has it and on its last day where it doesn't -- the same dates
+// Postgres's date + interval gives issue_retainer_cycle().
+function addMonths(anchor: string, months: number): string {
+  const [year, month, day] = anchor.slice(0, 10).split("-").map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+export async function buildCashflowForecast(db: SupabaseClient, companyId: string, today: Date = new Date()): Promise<CashflowForecast> {
+  const todayNumber = dayNumber(today.toISOString());
+  const firstWeek = todayNumber - new Date(todayNumber * DAY_MS).getUTCDay();
+  const horizonEnd = firstWeek + FORECAST_WEEKS * 7;
+  const weeks: ForecastWeek[] = Array.from({ length: FORECAST_WEEKS }, (_, i) => ({
+    start: dayString(firstWeek + i * 7),
+    expected: 0,
+    payments: 0,
+  }));
+
+  const { data: clients } = await db.from("clients").select("id").eq("company_id", companyId);
+  const clientIds = (clients ?? []).map((c) => c.id);
+  if (clientIds.length === 0) return { weeks, total: 0, typicalDelayDays: 0 };
+
+  const { data: schedules, error: scheduleError } = await db
+    .from("payment_schedules")
+    .select("id, client_id, total_amount, billing_interval, billing_cycles, billing_anchor_date, status, stripe_subscription_id")
+    .in("client_id", clientIds);
+  if (scheduleError) throw scheduleError;
+  const scheduleById = new Map((schedules ?? []).map((s) => [s.id, s]));
+  if (scheduleById.size === 0) return { weeks, total: 0, typicalDelayDays: 0 };
+
+  const { data: installments, error: installmentError } = await db
+    .from("payment_installments")
+    .select("amount, due_date, status, payment_schedule_id, installment_payments(amount, paid_on)")
+    .in("payment_schedule_id", Array.from(scheduleById.keys()));
+  if (installmentError) throw installmentError;
+
+  // How late each paid installment was settled: its last payment against
+  // its due date.
+  const delaysByClient = new Map<string, number[]>();
+  const allDelays: number[] = [];
+  for (const inst of installments ?? []) {
+    const payments = ((inst as any).installment_payments ?? []) as { amount: number; paid_on: string }[];
+    if (inst.status !== "paid" || !inst.due_date || payments.length === 0) continue;
+    const settled = Math.max(...payments.map((p) => dayNumber(p.paid_on)));
+    const delay = settled - dayNumber(inst.due_date);
+    const clientId = scheduleById.get(inst.payment_schedule_id)!.client_id;
+    delaysByClient.set(clientId, [...(delaysByClient.get(clientId) ?? []), delay]);
+    allDelays.push(delay);
+  }
+  const typicalDelayDays = median(allDelays);
+  const delayFor = (clientId: string) => {
+    const own = delaysByClient.get(clientId) ?? [];
+    return own.length >= MIN_CLIENT_HISTORY ? median(own) : typicalDelayDays;
+  };
+
+  const expect = (day: number, amount: number) => {
+    const week = Math.floor((Math.max(day, firstWeek) - firstWeek) / 7);
+    if (week >= FORECAST_WEEKS || amount <= 0) return;
+    weeks[week].expected += amount;
+    weeks[week].payments += 1;
+  };
+
+  const issuedCycles = new Map<string, number>();
+  for (const inst of installments ?? []) {
+    issuedCycles.set(inst.payment_schedule_id, (issuedCycles.get(inst.payment_schedule_id) ?? 0) + 1);
+    if (!OPEN_STATUSES.includes(inst.status) || !inst.due_date) continue;
+    const payments = ((inst as any).installment_payments ?? []) as { amount: number }[];
+    const owed = Number(inst.amount) - payments.reduce((sum, p) => sum + Number(p.amount), 0);
+    const schedule = scheduleById.get(inst.payment_schedule_id)!;
+    // Stripe collects a retainer on automatic payments on the day.
+    const delay = schedule.stripe_subscription_id ? 0 : delayFor(schedule.client_id);
+    expect(dayNumber(inst.due_date) + delay, owed);
+  }
+
+  for (const schedule of schedules ?? []) {
+    if (!schedule.billing_interval || schedule.status !== "active" || !schedule.billing_anchor_date) continue;
+    const step = schedule.billing_interval === "quarter" ? 3 : 1;
+    const delay = schedule.stripe_subscription_id ? 0 : delayFor(schedule.client_id);
+    for (let cycle = (issuedCycles.get(schedule.id) ?? 0) + 1; ; cycle++) {
+      if (schedule.billing_cycles && cycle > schedule.billing_cycles) break;
+      const due = dayNumber(addMonths(schedule.billing_anchor_date, step * (cycle - 1)));
+      if (due + delay >= horizonEnd) break;
+      expect(due + delay, Number(schedule.total_amount));
+    }
+  }
+
+  for (const week of weeks) week.expected = Math.round(week.expected * 100) / 100;
+  const total = Math.round(weeks.reduce((sum, w) => sum + w.expected, 0) * 100) / 100;
+  return { weeks, total, typicalDelayDays };
+}
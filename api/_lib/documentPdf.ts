@@ -0,0 +1,609 @@
+// documentPdf.ts
+//
+// Renders a proposal, agreement or invoice as a PDF in the company's Brand
+// Kit colors, fonts and logo -- the copy a client keeps of what they
+// accepted, signed or paid, so it has to stand on its own without the
+// portal. Built with pdf-lib, which is plain JS: no headless browser and no
+// rendering service, so it runs the same in a serverless function as
+// anywhere else. Nothing is fetched: the logo is the copy stored with the
+// Brand Kit (migration 0053), and without one the header is the company
+// name alone.
+//
+// Money goes through the same proposalEngine functions as the portal and
+// submit-proposal-selections.ts -- priced from the proposal's latest
+// revision, at the tax rates snapshotted on acceptance -- so a PDF can never
+// disagree with what the client saw.
+//
+// `db` is whichever client the caller authorized with: a team member's own
+// session (RLS decides what it can read), or the service role on behalf of
+// a portal client, in which case `clientId` must be passed and a document
+// belonging to anyone else renders as not found.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { PDFDocument, StandardFonts, PageSizes, rgb, type PDFFont, type PDFPage, type PDFImage, type RGB } from "pdf-lib";
+import {
+  computeDocumentTotals,
+  fillContractMergeFields,
+  getContractSection,
+  getDesignBriefSection,
+  getRecurringBilling,
+  describeRecurringBilling,
+  type RecurringBilling,
+  type ComputedTotals,
+  type TemplateSection,
+  type TaxRate,
+  type Selections,
+} from "./proposalEngine";
+
+export type PdfDocumentKind = "proposal" | "agreement" | "invoice";
+export const PDF_DOCUMENT_KINDS: PdfDocumentKind[] = ["proposal", "agreement", "invoice"];
+
+export interface RenderedPdf {
+  filename: string;
+  bytes: Uint8Array;
+}
+
+// Same fallbacks the portal uses when a company hasn't set brand colors.
+const DEFAULT_PRIMARY = "#123D2C";
+const DEFAULT_ACCENT = "#EA580C";
+const MARGIN = 54;
+
+const INVOICE_STATUS_LABELS: Record<string, string> = {
+  unpaid: "Unpaid",
+  partially_paid: "Partially paid",
+  paid: "Paid",
+  overdue: "Overdue",
+  failed: "Payment failed",
+  refunded: "Refunded",
+  partially_refunded: "Partially refunded",
+  disputed: "Disputed",
+};
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  stripe: "Card or bank (Stripe)",
+  check: "Check",
+  bank_transfer: "Bank transfer",
+  cash: "Cash",
+  other: "Other",
+};
+
+/* ── Loading ─────────────────────────────────────────────────────────── */
+
+interface Party {
+  clientName: string;
+  companyId: string;
+  companyName: string;
+  brand: {
+    color_primary: string | null;
+    color_accent: string | null;
+    font_heading: string | null;
+    font_body: string | null;
+    pdf_logo: string | null;
+  } | null;
+}
+
+interface ProposalData {
+  id: string;
+  status: string;
+  eventDate: string | null;
+  expiresAt: string | null;
+  revisionNumber: number | null;
+  structure: TemplateSection[];
+  authored: Record<string, unknown>;
+  promoCode: string | null;
+  totals: ComputedTotals;
+  recurring: RecurringBilling | null;
+  installments: {
+    sequence_number: number;
+    amount: number;
+    tax_amount: number;
+    due_rule_type: string;
+    due_rule_offset_days: number | null;
+    due_date: string | null;
+    status: string;
+  }[];
+}
+
+async function loadParty(db: SupabaseClient, clientId: string): Promise<Party | null> {
+  const { data: client } = await db.from("clients").select("name, company_id").eq("id", clientId).maybeSingle();
+  if (!client?.company_id) return null;
+  const [{ data: company }, { data: brand }] = await Promise.all([
+    db.from("companies").select("name").eq("id", client.company_id).maybeSingle(),
+    db
+      .from("brand_kits")
+      .select("color_primary, color_accent, font_heading, font_body, pdf_logo")
+      .eq("company_id", client.company_id)
+      .maybeSingle(),
+  ]);
+  return { clientName: client.name, companyId: client.company_id, companyName: company?.name ?? "", brand: brand ?? null };
+}
+
+async function loadProposal(db: SupabaseClient, proposalId: string, companyId: string): Promise<ProposalData | null> {
+  const { data: proposal } = await db
+    .from("proposals")
+    .select("id, status, event_date, expires_at, generated_document_id")
+    .eq("id", proposalId)
+    .maybeSingle();
+  if (!proposal?.generated_document_id) return null;
+
+  const { data: doc } = await db
+    .from("generated_documents")
+    .select("template_id, field_values")
+    .eq("id", proposal.generated_document_id)
+    .maybeSingle();
+  if (!doc) return null;
+
+  const { data: revision } = await db
+    .from("proposal_revisions")
+    .select("revision_number, structure")
+    .eq("proposal_id", proposal.id)
+    .order("revision_number", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  let structure = revision?.structure as TemplateSection[] | undefined;
+  if (!structure) {
+    const { data: template } = await db.from("document_templates").select("structure").eq("id", doc.template_id).maybeSingle();
+    structure = (template?.structure ?? []) as TemplateSection[];
+  }
+
+  const fieldValues = (doc.field_values ?? {}) as {
+    authored?: Record<string, unknown>;
+    selections?: Selections;
+    promo_code?: string | null;
+    unlocked_adjustments?: string[];
+    tax_rates?: TaxRate[];
+  };
+  let taxRates = fieldValues.tax_rates;
+  if (!taxRates) {
+    const { data: rates } = await db
+      .from("company_tax_rates")
+      .select("name, rate")
+      .eq("company_id", companyId)
+      .eq("active", true)
+      .order("created_at", { ascending: true });
+    taxRates = (rates ?? []).map((r) => ({ name: r.name, rate: Number(r.rate) }));
+  }
+
+  const { data: schedule } = await db.from("payment_schedules").select("id").eq("proposal_id", proposal.id).maybeSingle();
+  const { data: installments } = schedule
+    ? await db
+        .from("payment_installments")
+        .select("sequence_number, amount, tax_amount, due_rule_type, due_rule_offset_days, due_date, status")
+        .eq("payment_schedule_id", schedule.id)
+        .order("sequence_number", { ascending: true })
+    : { data: [] };
+
+  return {
+    id: proposal.id,
+    status: proposal.status,
+    eventDate: proposal.event_date,
+    expiresAt: proposal.expires_at,
+    revisionNumber: revision?.revision_number ?? null,
+    structure,
+    authored: fieldValues.authored ?? {},
+    promoCode: (fieldValues.unlocked_adjustments ?? []).length > 0 ? fieldValues.promo_code ?? null : null,
+    totals: computeDocumentTotals(structure, fieldValues.selections ?? {}, {
+      unlockedAdjustments: fieldValues.unlocked_adjustments ?? [],
+      taxRates,
+    }),
+    recurring: getRecurringBilling(structure),
+    installments: (installments ?? []).map((i) => ({ ...i, amount: Number(i.amount), tax_amount: Number(i.tax_amount ?? 0) })),
+  };
+}
+
+// A logo that won't embed (a corrupt upload) is left off rather than
+// failing the whole document.
+async function embedLogo(doc: PDFDocument, dataUrl: string | null | undefined): Promise<PDFImage | null> {
+  if (!dataUrl) return null;
+  try {
+    if (dataUrl.startsWith("data:image/png;")) return await doc.embedPng(dataUrl);
+    if (dataUrl.startsWith("data:image/jpeg;")) return await doc.embedJpg(dataUrl);
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/* ── Layout ──────────────────────────────────────────────────────────── */
+
+interface Theme {
+  primary: RGB;
+  accent: RGB;
+  text: RGB;
+  muted: RGB;
+  heading: PDFFont;
+  body: PDFFont;
+  bodyBold: PDFFont;
+}
+
+function hexColor(hex: string | null | undefined, fallback: string): RGB {
+  const match = /^#?([0-9a-f]{6})$/i.exec((hex ?? "").trim()) ?? /^#?([0-9a-f]{6})$/i.exec(fallback)!;
+  const n = parseInt(match[1], 16);
+  return rgb(((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255);
+}
+
+// Brand Kit fonts are family names (often web fonts), which can't be
+// embedded without the font files -- so each maps to the closest of the
+// PDF standard families.
+function standardFamily(name: string | null | undefined): [StandardFonts, StandardFonts] {
+  const family = (name ?? "").toLowerCase();
+  if (/mono|courier|code/.test(family)) return [StandardFonts.Courier, StandardFonts.CourierBold];
+  if (!/sans/.test(family) && /serif|times|georgia|garamond|playfair|lora|merriweather|baskerville|bodoni|caslon|cormorant|didot/.test(family)) {
+    return [StandardFonts.TimesRoman, StandardFonts.TimesRomanBold];
+  }
+  return [StandardFonts.Helvetica, StandardFonts.HelveticaBold];
+}
+
+// The standard fonts only cover WinAnsi, and pdf-lib throws on anything
+// else, so text is narrowed to what the font can draw first.
+const REPLACEMENTS: Record<string, string> = { "→": "->", "−": "-", "✕": "x", "\t": " " };
+const characterSets = new WeakMap<PDFFont, Set<number>>();
+function drawable(text: string, font: PDFFont): string {
+  let set = characterSets.get(font);
+  if (!set) {
+    set = new Set(font.getCharacterSet());
+    characterSets.set(font, set);
+  }
+  let out = "";
+  for (const char of text) {
+    const replaced = REPLACEMENTS[char] ?? char;
+    for (const c of replaced) out += set.has(c.codePointAt(0)!) ? c : "?";
+  }
+  return out;
+}
+
+function wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/).map((p) => drawable(p, font))) {
+    let line = "";
+    for (const word of paragraph.split(/ +/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (!line || font.widthOfTextAtSize(candidate, size) <= width) {
+        line = candidate;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function createLayout(doc: PDFDocument, theme: Theme) {
+  let page: PDFPage = doc.addPage(PageSizes.Letter);
+  let y = page.getHeight() - MARGIN;
+  const width = page.getWidth() - MARGIN * 2;
+
+  function newPage() {
+    page = doc.addPage(PageSizes.Letter);
+    y = page.getHeight() - MARGIN;
+  }
+
+  function ensure(height: number) {
+    if (y - height < MARGIN + 20) newPage();
+  }
+
+  function space(points: number) {
+    y -= points;
+  }
+
+  function text(value: string, options: { font?: PDFFont; size?: number; color?: RGB; indent?: number } = {}) {
+    const font = options.font ?? theme.body;
+    const size = options.size ?? 10;
+    const indent = options.indent ?? 0;
+    for (const line of wrap(value, font, size, width - indent)) {
+      ensure(size * 1.4);
+      y -= size * 1.4;
+      page.drawText(line, { x: MARGIN + indent, y, size, font, color: options.color ?? theme.text });
+    }
+  }
+
+  // A label on the left and an amount right-aligned on the same line.
+  function row(label: string, amount: string, options: { bold?: boolean; color?: RGB; size?: number; indent?: number } = {}) {
+    const font = options.bold ? theme.bodyBold : theme.body;
+    const size = options.size ?? 10;
+    const indent = options.indent ?? 0;
+    const right = drawable(amount, font);
+    const rightWidth = font.widthOfTextAtSize(right, size);
+    const lines = wrap(label, font, size, width - indent - rightWidth - 16);
+    ensure(size * 1.4 * lines.length);
+    lines.forEach((line, i) => {
+      y -= size * 1.4;
+      page.drawText(line, { x: MARGIN + indent, y, size, font, color: options.color ?? theme.text });
+      if (i === 0) page.drawText(right, { x: MARGIN + width - rightWidth, y, size, font, color: options.color ?? theme.text });
+    });
+  }
+
+  function heading(value: string) {
+    ensure(40);
+    space(14);
+    text(value, { font: theme.heading, size: 13, color: theme.primary });
+    space(2);
+  }
+
+  function rule() {
+    ensure(10);
+    y -= 6;
+    page.drawLine({ start: { x: MARGIN, y }, end: { x: MARGIN + width, y }, thickness: 0.5, color: theme.muted });
+    y -= 4;
+  }
+
+  function header(title: string, companyName: string, logo: PDFImage | null) {
+    page.drawRectangle({ x: 0, y: page.getHeight() - 8, width: page.getWidth(), height: 8, color: theme.primary });
+    const top = page.getHeight() - MARGIN;
+    if (logo) {
+      const scale = Math.min(44 / logo.height, 160 / logo.width, 1);
+      page.drawImage(logo, { x: MARGIN, y: top - logo.height * scale, width: logo.width * scale, height: logo.height * scale });
+    }
+    const name = drawable(companyName, theme.heading);
+    const nameWidth = theme.heading.widthOfTextAtSize(name, 12);
+    page.drawText(name, { x: MARGIN + width - nameWidth, y: top - 12, size: 12, font: theme.heading, color: theme.primary });
+    y = top - 64;
+    text(title, { font: theme.heading, size: 24, color: theme.primary });
+    space(6);
+  }
+
+  // Drawn last, once the page count is known.
+  function footers(companyName: string) {
+    const pages = doc.getPages();
+    pages.forEach((p, i) => {
+      const label = drawable(`${companyName} · Page ${i + 1} of ${pages.length}`, theme.body);
+      const labelWidth = theme.body.widthOfTextAtSize(label, 8);
+      p.drawText(label, { x: (p.getWidth() - labelWidth) / 2, y: MARGIN / 2, size: 8, font: theme.body, color: theme.muted });
+    });
+  }
+
+  return { text, row, heading, rule, space, header, footers };
+}
+
+type Layout = ReturnType<typeof createLayout>;
+
+function money(n: number): string {
+  return `$${n.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+// Date-only columns (event_date, due_date) are calendar days, not instants.
+function formatDay(day: string | null): string {
+  if (!day) return "—";
+  return new Date(`${day.slice(0, 10)}T00:00:00Z`).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric", timeZone: "UTC" });
+}
+
+function formatInstant(at: string | null): string {
+  if (!at) return "—";
+  return `${new Date(at).toLocaleString("en-US", { dateStyle: "long", timeStyle: "short", timeZone: "UTC" })} UTC`;
+}
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "document";
+}
+
+/* ── Sections ────────────────────────────────────────────────────────── */
+
+function drawPricing(layout: Layout, theme: Theme, proposal: ProposalData) {
+  const { totals } = proposal;
+  for (const section of totals.sections) {
+    const items = section.items.filter((i) => i.effective_included && i.effective_quantity > 0);
+    if (items.length === 0) continue;
+    layout.heading(section.tier ? `${section.name} — ${section.tier.name}` : section.name);
+    for (const item of items) {
+      layout.row(item.name, money(item.line_total));
+      const detail = `${item.effective_quantity} × ${money(item.unit_price)}${item.description ? ` · ${item.description}` : ""}`;
+      layout.text(detail, { size: 8, color: theme.muted, indent: 10 });
+    }
+    layout.row("Section total", money(section.subtotal), { bold: true });
+  }
+
+  layout.rule();
+  layout.row("Subtotal", money(totals.subtotal));
+  for (const adjustment of totals.adjustments) {
+    const label = `${adjustment.label || "Discount"}${adjustment.scope_name ? ` (${adjustment.scope_name})` : ""}${
+      adjustment.requires_promo_code && proposal.promoCode ? ` — code ${proposal.promoCode}` : ""
+    }`;
+    layout.row(label, `-${money(adjustment.amount)}`);
+  }
+  for (const tax of totals.taxes) layout.row(`${tax.name} (${tax.rate}%)`, money(tax.amount));
+  const per = proposal.recurring ? ` per ${proposal.recurring.interval === "quarter" ? "quarter" : "month"}` : "";
+  layout.row(`Total${per}`, money(totals.grand_total), { bold: true, size: 12, color: theme.primary });
+}
+
+function drawProposal(layout: Layout, theme: Theme, party: Party, proposal: ProposalData) {
+  layout.text(`Prepared for ${party.clientName}`, { font: theme.bodyBold, size: 11 });
+  layout.text(`Event date: ${formatDay(proposal.eventDate)}`);
+  if (proposal.revisionNumber) layout.text(`Version ${proposal.revisionNumber}`, { color: theme.muted });
+  if (proposal.status === "accepted") layout.text("Accepted", { font: theme.bodyBold, color: theme.accent });
+  else if (proposal.expiresAt) layout.text(`Valid until ${formatInstant(proposal.expiresAt)}`, { color: theme.muted });
+
+  const brief = getDesignBriefSection(proposal.structure);
+  if (brief) {
+    const fields = brief.fields.filter((f) => {
+      const value = proposal.authored[f.key];
+      return f.kind !== "image_list" && value !== undefined && value !== null && value !== "";
+    });
+    if (fields.length > 0) {
+      layout.heading(brief.title);
+      for (const field of fields) {
+        const value = proposal.authored[field.key];
+        layout.text(field.label, { font: theme.bodyBold, size: 9, color: theme.muted });
+        layout.text(Array.isArray(value) ? value.join(", ") : String(value));
+        layout.space(4);
+      }
+    }
+  }
+
+  drawPricing(layout, theme, proposal);
+
+  if (proposal.recurring) {
+    layout.heading("Retainer");
+    layout.text(describeRecurringBilling(proposal.recurring, proposal.totals.grand_total));
+  }
+  if (proposal.installments.length > 0) {
+    layout.heading(proposal.recurring ? "Invoices" : "Payment Schedule");
+    for (const inst of proposal.installments) {
+      const tax = inst.tax_amount > 0 ? ` (incl. ${money(inst.tax_amount)} tax)` : "";
+      const due =
+        !inst.due_date && inst.due_rule_type === "days_after_signing"
+          ? `${inst.due_rule_offset_days ?? 0} days after signing`
+          : formatDay(inst.due_date);
+      layout.row(`${inst.sequence_number}. Due ${due}${tax} — ${inst.status}`, money(inst.amount));
+    }
+  }
+}
+
+/* ── Entry point ─────────────────────────────────────────────────────── */
+
+// Null when the document doesn't exist, `db` can't see it, or it belongs
+// to a client other than `clientId`.
+export async function renderDocumentPdf(
+  db: SupabaseClient,
+  kind: PdfDocumentKind,
+  id: string,
+  clientId?: string
+): Promise<RenderedPdf | null> {
+  const table = kind === "proposal" ? "proposals" : kind === "agreement" ? "agreements" : "invoices";
+  const { data: anchor } = await db.from(table).select("client_id").eq("id", id).maybeSingle();
+  if (!anchor || (clientId !== undefined && anchor.client_id !== clientId)) return null;
+
+  const party = await loadParty(db, anchor.client_id);
+  if (!party) return null;
+
+  const doc = await PDFDocument.create();
+  const [bodyFont, bodyBoldFont] = standardFamily(party.brand?.font_body);
+  const [, headingFont] = standardFamily(party.brand?.font_heading ?? party.brand?.font_body);
+  const theme: Theme = {
+    primary: hexColor(party.brand?.color_primary, DEFAULT_PRIMARY),
+    accent: hexColor(party.brand?.color_accent, DEFAULT_ACCENT),
+    text: rgb(0.15, 0.15, 0.15),
+    muted: rgb(0.45, 0.45, 0.45),
+    heading: await doc.embedFont(headingFont),
+    body: await doc.embedFont(bodyFont),
+    bodyBold: await doc.embedFont(bodyBoldFont),
+  };
+  const logo = await embedLogo(doc, party.brand?.pdf_logo);
+  const layout = createLayout(doc, theme);
+  let title: string;
+
+  if (kind === "proposal") {
+    const proposal = await loadProposal(db, id, party.companyId);
+    if (!proposal) return null;
+    title = "Proposal";
+    layout.header(title, party.companyName, logo);
+    drawProposal(layout, theme, party, proposal);
+  } else if (kind === "agreement") {
+    const { data: agreement } = await db
+      .from("agreements")
+      .select("proposal_id, status, signed_name, signed_at, signed_ip, created_at")
+      .eq("id", id)
+      .maybeSingle();
+    if (!agreement) return null;
+    const proposal = agreement.proposal_id ? await loadProposal(db, agreement.proposal_id, party.companyId) : null;
+    const contract = proposal ? getContractSection(proposal.structure) : undefined;
+
+    title = contract?.title || "Agreement";
+    layout.header(title, party.companyName, logo);
+    layout.text(`Between ${party.companyName} and ${party.clientName}`, { font: theme.bodyBold, size: 11 });
+    if (proposal) layout.text(`Event date: ${formatDay(proposal.eventDate)} · Total ${money(proposal.totals.grand_total)}`);
+    layout.space(8);
+
+    if (contract) {
+      layout.text(
+        fillContractMergeFields(contract.body, {
+          client_full_name: party.clientName,
+          client_name: party.clientName,
+          company_name: party.companyName,
+          event_date: proposal?.eventDate ? formatDay(proposal.eventDate) : null,
+          proposal_total: proposal ? money(proposal.totals.grand_total) : null,
+          signed_name: agreement.signed_name,
+          signed_date: agreement.signed_at ? formatInstant(agreement.signed_at) : null,
+        })
+      );
+    } else {
+      layout.text("This agreement covers the accepted proposal below.", { color: theme.muted });
+    }
+    if (proposal) drawPricing(layout, theme, proposal);
+
+    layout.heading("Signature");
+    if (agreement.status === "signed") {
+      layout.text(`Signed electronically by ${agreement.signed_name ?? "—"}`, { font: theme.bodyBold });
+      layout.text(`On ${formatInstant(agreement.signed_at)}`);
+      if (agreement.signed_ip) layout.text(`From IP address ${agreement.signed_ip}`, { color: theme.muted });
+    } else if (agreement.status === "voided") {
+      layout.text("This agreement was voided and is no longer in effect.", { font: theme.bodyBold, color: theme.accent });
+    } else {
+      layout.text(`Awaiting ${party.clientName}'s signature (sent ${formatInstant(agreement.created_at)}).`, { color: theme.muted });
+    }
+  } else {
+    const { data: invoice } = await db
+      .from("invoices")
+      .select("id, invoice_number, amount, tax_amount, status, created_at")
+      .eq("id", id)
+      .maybeSingle();
+    if (!invoice) return null;
+    const { data: installment } = await db
+      .from("payment_installments")
+      .select("sequence_number, due_date, payment_schedule_id, installment_payments(amount, method, reference, paid_on)")
+      .eq("invoice_id", invoice.id)
+      .order("paid_on", { referencedTable: "installment_payments", ascending: true })
+      .maybeSingle();
+    const { count } = installment
+      ? await db.from("payment_installments").select("id", { count: "exact", head: true }).eq("payment_schedule_id", installment.payment_schedule_id)
+      : { count: null };
+    const { data: contact } = await db.from("clients").select("contact_email, contact_phone").eq("id", anchor.client_id).maybeSingle();
+
+    // Invoices from before migration 0050 that had no company to number
+    // them under keep their short reference.
+    title = invoice.invoice_number ? `Invoice ${invoice.invoice_number}` : "Invoice";
+    layout.header(title, party.companyName, logo);
+    layout.text(`Bill to ${party.clientName}`, { font: theme.bodyBold, size: 11 });
+    const contactLine = [contact?.contact_email, contact?.contact_phone].filter(Boolean).join(" · ");
+    if (contactLine) layout.text(contactLine, { color: theme.muted });
+    layout.text(
+      `${invoice.invoice_number ? `From ${party.companyName}` : `Reference ${invoice.id.slice(0, 8).toUpperCase()}`} · Issued ${formatInstant(invoice.created_at)}`
+    );
+    if (installment?.due_date) layout.text(`Due ${formatDay(installment.due_date)}`);
+    layout.text(INVOICE_STATUS_LABELS[invoice.status] ?? "Unpaid", {
+      font: theme.bodyBold,
+      color: theme.accent,
+    });
+
+    const amount = Number(invoice.amount);
+    const tax = Number(invoice.tax_amount ?? 0);
+    layout.heading("Details");
+    layout.row(
+      installment ? `Payment ${installment.sequence_number}${count ? ` of ${count}` : ""} toward your booking` : "Payment",
+      money(amount - tax)
+    );
+    if (tax > 0) layout.row("Sales tax", money(tax));
+    layout.rule();
+    layout.row("Total", money(amount), { bold: true, size: 12, color: theme.primary });
+
+    // Everything applied from the payments ledger (migration 0049). An
+    // invoice with no installment behind it has no ledger, so its status
+    // is all there is to go on.
+    const payments = ((installment as any)?.installment_payments ?? []) as {
+      amount: number;
+      method: string;
+      reference: string | null;
+      paid_on: string;
+    }[];
+    if (payments.length > 0) {
+      layout.heading("Payments");
+      for (const payment of payments) {
+        const via = PAYMENT_METHOD_LABELS[payment.method] ?? payment.method;
+        layout.row(`${formatDay(payment.paid_on)} · ${via}${payment.reference ? ` (${payment.reference})` : ""}`, `-${money(Number(payment.amount))}`);
+      }
+      layout.rule();
+    }
+    const paid = payments.reduce((sum, p) => sum + Number(p.amount), 0);
+    const balance = invoice.status === "paid" ? 0 : Math.max(0, amount - paid);
+    layout.row("Balance due", money(balance), { bold: true, size: 12, color: theme.primary });
+  }
+
+  layout.footers(party.companyName);
+  doc.setTitle(`${title} — ${party.clientName}`);
+  doc.setAuthor(party.companyName);
+  doc.setCreator(party.companyName);
+
+  // An invoice's file carries its number, for the bookkeeper's folder.
+  return { filename: `${slug(party.clientName)}-${kind === "invoice" ? slug(title) : kind}.pdf`, bytes: await doc.save() };
+}
@@ -0,0 +1,82 @@
+// paymentReminderEmail.ts
+//
+// The email the daily cron sends a client about an upcoming or overdue
+// installment (migration 0048), in the company's Brand Kit colors and logo,
+// with a button into the portal that opens on that installment. Inline
+// styles only -- most mail clients drop <style> blocks.
+
+import { escapeHtml } from "./automationConfig";
+
+export const DEFAULT_REMINDER_DAYS = [-3, 0, 7];
+
+// Same fallback the portal and documentPdf.ts use when a company hasn't
+// set a primary color.
+const DEFAULT_PRIMARY = "#123D2C";
+
+export interface PaymentReminder {
+  companyName: string;
+  brand: { color_primary: string | null; logo_variants: Record<string, string> | null } | null;
+  clientName: string;
+  amount: number;
+  dueDate: string;
+  // Today minus the due date, in days: negative while it's still upcoming.
+  daysFromDue: number;
+  payUrl: string;
+}
+
+function money(n: number): string {
+  return `$${n.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatDay(day: string): string {
+  return new Date(`${day.slice(0, 10)}T00:00:00Z`).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric", timeZone: "UTC" });
+}
+
+// The cadence day to send for now: the latest one that has arrived. Earlier
+// ones the cron never got to (a missed run, or reminders switched on after
+// the fact) are passed over rather than sent in a burst. Null before the
+// first.
+export function dueReminderDay(cadence: number[], daysFromDue: number): number | null {
+  const reached = cadence.filter((day) => day <= daysFromDue);
+  return reached.length > 0 ? Math.max(...reached) : null;
+}
+
+export function renderPaymentReminder(reminder: PaymentReminder): { subject: string; html: string } {
+  const amount = money(reminder.amount);
+  const due = formatDay(reminder.dueDate);
+  const { daysFromDue } = reminder;
+
+  let subject: string;
+  let lead: string;
+  if (daysFromDue < 0) {
+    subject = `Your payment of ${amount} is due ${due}`;
+    lead = `Just a friendly reminder that your payment of ${amount} is due on ${due}.`;
+  } else if (daysFromDue === 0) {
+    subject = `Your payment of ${amount} is due today`;
+    lead = `Your payment of ${amount} is due today.`;
+  } else {
+    const days = daysFromDue === 1 ? "1 day" : `${daysFromDue} days`;
+    subject = `Your payment of ${amount} is overdue`;
+    lead = `Your payment of ${amount} was due on ${due} and is now ${days} overdue.`;
+  }
+
+  const primary = /^#[0-9a-f]{6}$/i.test(reminder.brand?.color_primary ?? "") ? reminder.brand!.color_primary! : DEFAULT_PRIMARY;
+  const logo = reminder.brand?.logo_variants?.primary;
+  const company = escapeHtml(reminder.companyName);
+  const header = logo
+    ? `<img src="${escapeHtml(logo)}" alt="${company}" style="max-height:48px;max-width:200px" />`
+    : `<span style="font-size:20px;font-weight:600;color:${primary}">${company}</span>`;
+
+  const html = `<div style="font-family:Helvetica,Arial,sans-serif;max-width:560px;margin:0 auto;padding:24px;color:#262626">
+  <div style="padding-bottom:16px;border-bottom:2px solid ${primary}">${header}</div>
+  <p style="font-size:15px;line-height:1.5;margin-top:24px">Hi ${escapeHtml(reminder.clientName)},</p>
+  <p style="font-size:15px;line-height:1.5">${escapeHtml(lead)} You can pay securely from your client portal.</p>
+  <p style="margin:28px 0">
+    <a href="${escapeHtml(reminder.payUrl)}" style="background:${primary};color:#ffffff;text-decoration:none;padding:12px 24px;border-radius:999px;font-size:15px;font-weight:600;display:inline-block">Pay ${amount}</a>
+  </p>
+  <p style="font-size:13px;line-height:1.5;color:#737373">Already paid, or have a question about this payment? Get in touch with us and we'll sort it out.</p>
+  <p style="font-size:13px;color:#737373;margin-top:24px">— ${company}</p>
+</div>`;
+
+  return { subject, html };
+}
@@ -15,6 +15,13 @@ export interface LineItem {
   default_quantity: number;
   is_optional: boolean;
   is_included: boolean;
+  // Whether the company's sales tax applies. Items authored before sales
+  // tax existed have no flag and stay untaxed.
+  taxable?: boolean;
+  // How far a client may raise the quantity ("add 4 more centerpieces").
+  // Unset -- or not above default_quantity -- means the default is the
+  // most they can have. See quantityCeiling.
+  max_quantity?: number | null;
 }
 
 export interface LineItemsSection {
@@ -25,6 +32,28 @@ export interface LineItemsSection {
   items: LineItem[];
 }
 
+// Mutually exclusive packages (good / better / best): the client picks
+// exactly one tier, and only that tier's items are priced. Within the
+// chosen tier, items follow the same optional/quantity rules as a
+// line_items section. Item keys share one namespace with every other
+// section's, since selections are keyed by item key.
+export interface PackageTier {
+  key: string;
+  name: string;
+  description: string;
+  items: LineItem[];
+}
+
+export interface PackageTiersSection {
+  type: "package_tiers";
+  key: string;
+  name: string;
+  description: string;
+  tiers: PackageTier[];
+  // The tier chosen until the client picks one; the first tier if unset.
+  default_tier: string | null;
+}
+
 export interface DesignBriefField {
   key: string;
   label: string;
@@ -40,13 +69,25 @@ export interface DesignBriefSection {
 export interface PaymentRuleInstallment {
   label: string;
   percent: number;
-  due_rule_type: "on_signing" | "days_before_event";
+  // days_after_signing counts from the agreement's signed_at, not from
+  // acceptance -- see dueDateAfterSigning().
+  due_rule_type: "on_signing" | "days_after_signing" | "days_before_event";
   due_rule_offset_days: number;
 }
 
+// A retainer: rather than splitting the total into installments, the
+// client pays the whole proposal total every cycle -- for `cycles` cycles,
+// or until the retainer is ended when `cycles` is null.
+export interface RecurringBilling {
+  interval: "month" | "quarter";
+  cycles: number | null;
+}
+
 export interface PaymentRulesSection {
   type: "payment_rules";
   installments: PaymentRuleInstallment[];
+  // Set for a retainer, in which case `installments` doesn't apply.
+  recurring?: RecurringBilling | null;
 }
 
 export interface ContractSection {
@@ -55,19 +96,45 @@ export interface ContractSection {
   body: string;
 }
 
+// A discount the team authored -- a percentage or a fixed dollar amount,
+// off one line_items section (`scope` is that section's key) or off the
+// whole proposal (`scope` null). One that `requires_promo_code` only
+// applies once the client enters a matching code; the codes themselves
+// live in proposal_promo_codes (migration 0042), never in this structure,
+// because the portal can read the template.
+export interface Adjustment {
+  key: string;
+  label: string;
+  kind: "percent" | "fixed";
+  value: number;
+  scope: string | null;
+  requires_promo_code: boolean;
+}
+
+export interface AdjustmentsSection {
+  type: "adjustments";
+  adjustments: Adjustment[];
+}
+
 export type TemplateSection =
   | DesignBriefSection
   | LineItemsSection
   | PaymentRulesSection
-  | ContractSection;
+  | ContractSection
+  | AdjustmentsSection
+  | PackageTiersSection;
 
 // Client-submitted overrides, keyed by line-item key. `included` only ever
 // matters for is_optional items (required items are always included).
-// `quantity` can only ever move the item DOWN from its authored default —
-// never up — so a client can never inflate their own bill.
+// `quantity` can only ever move within the bounds the team authored —
+// down from default_quantity, and up only as far as max_quantity — so a
+// client can never push their own bill past what was offered. A
+// package_tiers section's chosen tier is keyed by the section's key
+// instead, as `{ tier }`.
 export interface SelectionEntry {
   included?: boolean;
   quantity?: number;
+  tier?: string;
 }
 export type Selections = Record<string, SelectionEntry>;
 
@@ -81,15 +148,59 @@ export interface ComputedSection {
   key: string;
   name: string;
   description: string;
+  // Set for a package_tiers section: the tier being priced.
+  tier: { key: string; name: string } | null;
   items: ComputedLineItem[];
   subtotal: number;
 }
 
+// One of the company's sales tax rates (company_tax_rates, migration
+// 0043), as a percentage. Every rate passed in applies to the taxable base.
+export interface TaxRate {
+  name: string;
+  rate: number;
+}
+
+export interface ComputedTax extends TaxRate {
+  amount: number;
+}
+
+export interface ComputedAdjustment extends Adjustment {
+  // The scoped section's name, or null for the whole proposal.
+  scope_name: string | null;
+  // Money off, as a positive number.
+  amount: number;
+}
+
 export interface ComputedTotals {
   sections: ComputedSection[];
+  // Line items before any adjustment.
+  subtotal: number;
+  adjustments: ComputedAdjustment[];
+  discount_total: number;
+  // The taxable lines' share of subtotal - discount_total.
+  taxable_base: number;
+  taxes: ComputedTax[];
+  tax_total: number;
+  // subtotal - discount_total + tax_total: what the client pays.
   grand_total: number;
 }
 
+export interface TotalsOptions {
+  // The promo-code adjustment keys the server has matched for this
+  // document (field_values.unlocked_adjustments); nothing a client sends
+  // can add to it.
+  unlockedAdjustments?: string[];
+  taxRates?: TaxRate[];
+}
+
+// The most of an item a client can ask for: its max_quantity when the team
+// authored one above the default, otherwise the default itself.
+export function quantityCeiling(item: LineItem): number {
+  const max = item.max_quantity;
+  return typeof max === "number" && Number.isFinite(max) && max > item.default_quantity ? Math.floor(max) : item.default_quantity;
+}
+
 // Clamps a raw client selection against the authored bounds for one item.
 // This is the single choke point that guarantees a client can never pay
 // more than what the team authored, and can never turn on a non-optional
@@ -105,7 +216,7 @@ export function clampSelection(
     quantity = item.default_quantity;
   }
   // Never allow a client to request more than what was authored.
-  quantity = Math.min(quantity, item.default_quantity);
+  quantity = Math.min(quantity, quantityCeiling(item));
   // Optional items can be reduced to zero (effectively same as excluding);
   // required items always keep at least 1.
   const floor = item.is_optional ? 0 : 1;
@@ -115,6 +226,29 @@ export function clampSelection(
   return { included, quantity };
 }
 
+// The tier a package_tiers section is priced at: the client's pick when
+// it names a real tier, else the authored default, else the first. Never
+// none while the section has tiers, and never more than one.
+export function clampTierSelection(section: PackageTiersSection, raw: SelectionEntry | undefined): PackageTier | null {
+  return (
+    section.tiers.find((t) => t.key === raw?.tier) ??
+    section.tiers.find((t) => t.key === section.default_tier) ??
+    section.tiers[0] ??
+    null
+  );
+}
+
+// What a tier would cost with the client's current item choices -- for
+// showing every tier's price side by side, not just the chosen one's.
+export function tierSubtotal(tier: PackageTier, selections: Selections): number {
+  return round2(
+    tier.items.reduce((sum, item) => {
+      const { included, quantity } = clampSelection(item, selections[item.key]);
+      return sum + (included ? round2(item.unit_price * quantity) : 0);
+    }, 0)
+  );
+}
+
 export function findSection<T extends TemplateSection["type"]>(
   structure: TemplateSection[],
   type: T
@@ -126,6 +260,22 @@ export function getLineItemSections(structure: TemplateSection[]): LineItemsSect
   return structure.filter((s): s is LineItemsSection => s.type === "line_items");
 }
 
+export function getPackageTierSections(structure: TemplateSection[]): PackageTiersSection[] {
+  return structure.filter((s): s is PackageTiersSection => s.type === "package_tiers");
+}
+
+// Every section that carries prices, in document order -- what
+// computeDocumentTotals walks and what an adjustment can be scoped to.
+export function getPricedSections(structure: TemplateSection[]): (LineItemsSection | PackageTiersSection)[] {
+  return structure.filter((s): s is LineItemsSection | PackageTiersSection => s.type === "line_items" || s.type === "package_tiers");
+}
+
+// Every line item a selection could refer to, across line_items sections
+// and every tier (chosen or not).
+export function getAllLineItems(structure: TemplateSection[]): LineItem[] {
+  return getPricedSections(structure).flatMap((s) => (s.type === "line_items" ? s.items : s.tiers.flatMap((t) => t.items)));
+}
+
 export function getDesignBriefSection(structure: TemplateSection[]): DesignBriefSection | undefined {
   return findSection(structure, "design_brief");
 }
@@ -134,38 +284,220 @@ export function getPaymentRules(structure: TemplateSection[]): PaymentRuleInstal
   return findSection(structure, "payment_rules")?.installments ?? [];
 }
 
+export function getRecurringBilling(structure: TemplateSection[]): RecurringBilling | null {
+  const recurring = findSection(structure, "payment_rules")?.recurring;
+  if (!recurring) return null;
+  const cycles = recurring.cycles != null && recurring.cycles >= 1 ? Math.floor(recurring.cycles) : null;
+  return { interval: recurring.interval === "quarter" ? "quarter" : "month", cycles };
+}
+
+// "$500 per month for 6 months", "$1,200 per quarter until cancelled".
+export function describeRecurringBilling(recurring: RecurringBilling, amount: number): string {
+  const unit = recurring.interval === "quarter" ? "quarter" : "month";
+  const length = recurring.cycles ? `for ${recurring.cycles} ${unit}${recurring.cycles === 1 ? "" : "s"}` : "until cancelled";
+  return `$${amount.toLocaleString()} per ${unit} ${length}`;
+}
+
 export function getContractSection(structure: TemplateSection[]): ContractSection | undefined {
   return findSection(structure, "contract");
 }
 
-// Computes line totals, section subtotals, and the grand total for a
-// template's line items given a set of (already-clamped-on-read) client
-// selections. This is safe to call with an empty/partial `selections` —
-// missing entries just fall back to the item's authored defaults.
+export function getAdjustments(structure: TemplateSection[]): Adjustment[] {
+  return findSection(structure, "adjustments")?.adjustments ?? [];
+}
+
+// Which adjustments apply: every one that doesn't need a code, plus the
+// promo-code ones the server has unlocked for this document.
+function isApplied(adjustment: Adjustment, unlockedAdjustments: string[]): boolean {
+  return !adjustment.requires_promo_code || unlockedAdjustments.includes(adjustment.key);
+}
+
+// The money one adjustment takes off `base`. Authored values are clamped
+// here rather than trusted -- a percentage outside 0-100 or a negative
+// fixed amount can never raise a bill or take it below zero.
+function adjustmentAmount(adjustment: Adjustment, base: number): number {
+  const value = Number.isFinite(adjustment.value) ? adjustment.value : 0;
+  const amount = adjustment.kind === "percent" ? (base * Math.min(Math.max(value, 0), 100)) / 100 : Math.max(value, 0);
+  return round2(Math.min(amount, base));
+}
+
+// Computes line totals, section subtotals, adjustments, tax and the grand
+// total for a template's line items given a set of (already-clamped-on-read)
+// client selections. This is safe to call with an empty/partial
+// `selections` — missing entries just fall back to the item's authored
+// defaults.
+//
+// Section-scoped adjustments come off their section's subtotal first, then
+// whole-proposal ones off what's left. Each is worked out against its
+// scope's base rather than compounded, and a scope's discounts together
+// never exceed that base. Tax is charged on what's left after discounts:
+// a discount reduces the taxable and untaxed lines it covers in proportion.
 export function computeDocumentTotals(
   structure: TemplateSection[],
-  selections: Selections
+  selections: Selections,
+  { unlockedAdjustments = [], taxRates = [] }: TotalsOptions = {}
 ): ComputedTotals {
   const sections: ComputedSection[] = [];
-  let grand_total = 0;
+  let subtotal = 0;
 
-  for (const section of getLineItemSections(structure)) {
+  for (const section of getPricedSections(structure)) {
     const items: ComputedLineItem[] = [];
-    let subtotal = 0;
+    const tier = section.type === "package_tiers" ? clampTierSelection(section, selections[section.key]) : null;
+    const sectionItems = section.type === "line_items" ? section.items : tier?.items ?? [];
 
-    for (const item of section.items) {
+    for (const item of sectionItems) {
       const { included, quantity } = clampSelection(item, selections[item.key]);
       const line_total = included ? round2(item.unit_price * quantity) : 0;
-      subtotal += line_total;
       items.push({ ...item, effective_quantity: quantity, effective_included: included, line_total });
     }
 
-    subtotal = round2(subtotal);
-    sections.push({ key: section.key, name: section.name, description: section.description, items, subtotal });
-    grand_total += subtotal;
+    const sectionSubtotal = round2(items.reduce((sum, item) => sum + item.line_total, 0));
+    sections.push({
+      key: section.key,
+      name: section.name,
+      description: section.description,
+      tier: tier ? { key: tier.key, name: tier.name } : null,
+      items,
+      subtotal: sectionSubtotal,
+    });
+    subtotal += sectionSubtotal;
+  }
+  subtotal = round2(subtotal);
+
+  const applied = getAdjustments(structure).filter((a) => isApplied(a, unlockedAdjustments));
+  const adjustments: ComputedAdjustment[] = [];
+  let discount_total = 0;
+  let taxableAfterSections = 0;
+
+  // Adjustments scoped to a section that no longer exists apply to nothing.
+  for (const section of sections) {
+    let remaining = section.subtotal;
+    for (const adjustment of applied.filter((a) => a.scope === section.key)) {
+      const amount = Math.min(adjustmentAmount(adjustment, section.subtotal), remaining);
+      remaining = round2(remaining - amount);
+      discount_total += amount;
+      adjustments.push({ ...adjustment, scope_name: section.name, amount });
+    }
+    const taxable = section.items.filter((i) => i.taxable).reduce((sum, i) => sum + i.line_total, 0);
+    taxableAfterSections += section.subtotal > 0 ? (taxable * remaining) / section.subtotal : 0;
+  }
+
+  const proposalBase = round2(subtotal - discount_total);
+  let remaining = proposalBase;
+  for (const adjustment of applied.filter((a) => !a.scope)) {
+    const amount = Math.min(adjustmentAmount(adjustment, proposalBase), remaining);
+    remaining = round2(remaining - amount);
+    discount_total += amount;
+    adjustments.push({ ...adjustment, scope_name: null, amount });
   }
 
-  return { sections, grand_total: round2(grand_total) };
+  discount_total = round2(discount_total);
+  const net = round2(subtotal - discount_total);
+  const taxable_base = proposalBase > 0 ? round2((taxableAfterSections * net) / proposalBase) : 0;
+  const taxes = taxRates.map((t) => ({
+    name: t.name,
+    rate: t.rate,
+    amount: round2((taxable_base * Math.min(Math.max(Number.isFinite(t.rate) ? t.rate : 0, 0), 100)) / 100),
+  }));
+  const tax_total = round2(taxes.reduce((sum, t) => sum + t.amount, 0));
+
+  return {
+    sections,
+    subtotal,
+    adjustments,
+    discount_total,
+    taxable_base,
+    taxes,
+    tax_total,
+    grand_total: round2(net + tax_total),
+  };
+}
+
+// One line item that differs between two revisions of a proposal
+// (proposal_revisions, migration 0044). Items are matched by key, like
+// selections are, so a renamed item is still the same item.
+export interface RevisionItemChange {
+  key: string;
+  name: string;
+  // Its section's name, plus the tier's for an item in a package_tiers
+  // section -- from the later revision, or the earlier one if removed.
+  location: string;
+  change: "added" | "removed" | "changed";
+  before: LineItem | null;
+  after: LineItem | null;
+}
+
+function itemsByKey(structure: TemplateSection[]): Map<string, { item: LineItem; location: string }> {
+  const located = new Map<string, { item: LineItem; location: string }>();
+  for (const section of getPricedSections(structure)) {
+    if (section.type === "line_items") {
+      for (const item of section.items) located.set(item.key, { item, location: section.name });
+    } else {
+      for (const tier of section.tiers) {
+        for (const item of tier.items) located.set(item.key, { item, location: `${section.name} — ${tier.name}` });
+      }
+    }
+  }
+  return located;
+}
+
+// The items added, removed or re-priced between two revisions, in the
+// later revision's order with removals last. Only what changes what the
+// client could pay counts: price, quantity bounds, and whether it's
+// optional.
+export function diffRevisionItems(before: TemplateSection[], after: TemplateSection[]): RevisionItemChange[] {
+  const beforeItems = itemsByKey(before);
+  const afterItems = itemsByKey(after);
+  const changes: RevisionItemChange[] = [];
+
+  for (const [key, { item, location }] of afterItems) {
+    const previous = beforeItems.get(key)?.item;
+    if (!previous) {
+      changes.push({ key, name: item.name, location, change: "added", before: null, after: item });
+    } else if (
+      previous.unit_price !== item.unit_price ||
+      previous.default_quantity !== item.default_quantity ||
+      quantityCeiling(previous) !== quantityCeiling(item) ||
+      previous.is_optional !== item.is_optional
+    ) {
+      changes.push({ key, name: item.name, location, change: "changed", before: previous, after: item });
+    }
+  }
+  for (const [key, { item, location }] of beforeItems) {
+    if (!afterItems.has(key)) {
+      changes.push({ key, name: item.name, location, change: "removed", before: item, after: null });
+    }
+  }
+  return changes;
+}
+
+// A one-line, client-readable summary of a RevisionItemChange.
+export function describeItemChange(change: RevisionItemChange): string {
+  const money = (n: number) => `$${n.toLocaleString()}`;
+  if (change.change === "added") {
+    const item = change.after!;
+    return `Added ${item.name} — ${money(item.unit_price)}${item.default_quantity > 1 ? ` × ${item.default_quantity}` : ""}${item.is_optional ? " (optional)" : ""}`;
+  }
+  if (change.change === "removed") return `Removed ${change.before!.name}`;
+
+  const before = change.before!;
+  const after = change.after!;
+  const parts: string[] = [];
+  if (before.unit_price !== after.unit_price) parts.push(`${money(before.unit_price)} → ${money(after.unit_price)} each`);
+  if (before.default_quantity !== after.default_quantity) parts.push(`quantity ${before.default_quantity} → ${after.default_quantity}`);
+  if (quantityCeiling(before) !== quantityCeiling(after)) parts.push(`up to ${quantityCeiling(after)} available`);
+  if (before.is_optional !== after.is_optional) parts.push(after.is_optional ? "now optional" : "now included");
+  return `${after.name}: ${parts.join(", ")}`;
+}
+
+// Promo codes are compared case-insensitively, so they're stored and
+// matched in this one normalized form (proposal_promo_codes' check
+// constraint enforces the same shape). Null for anything that can't be a
+// code.
+export function normalizePromoCode(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const code = raw.trim().toUpperCase();
+  return /^[A-Z0-9_-]{3,40}$/.test(code) ? code : null;
 }
 
 // Validates a raw (untrusted) selections payload against a template's
@@ -181,10 +513,9 @@ export function validateSelections(
   }
   const raw = (rawSelections ?? {}) as Record<string, unknown>;
 
-  const validKeys = new Set<string>();
-  for (const section of getLineItemSections(structure)) {
-    for (const item of section.items) validKeys.add(item.key);
-  }
+  const items = getAllLineItems(structure);
+  const tierSections = getPackageTierSections(structure);
+  const validKeys = new Set<string>([...items.map((i) => i.key), ...tierSections.map((s) => s.key)]);
 
   for (const key of Object.keys(raw)) {
     if (!validKeys.has(key)) {
@@ -197,46 +528,86 @@ export function validateSelections(
   }
 
   const clamped: Selections = {};
-  for (const section of getLineItemSections(structure)) {
-    for (const item of section.items) {
-      const rawEntry = raw[item.key] as SelectionEntry | undefined;
-      if (rawEntry === undefined) continue;
-      const { included, quantity } = clampSelection(item, rawEntry);
-      clamped[item.key] = { included, quantity };
+  for (const item of items) {
+    const rawEntry = raw[item.key] as SelectionEntry | undefined;
+    if (rawEntry === undefined || rawEntry === null) continue;
+    const { included, quantity } = clampSelection(item, rawEntry);
+    clamped[item.key] = { included, quantity };
+  }
+  // A tier pick must name one of the section's tiers -- it's the client's
+  // one real choice here, so an unknown one is an error rather than being
+  // quietly swapped for the default.
+  for (const section of tierSections) {
+    const rawEntry = raw[section.key] as SelectionEntry | undefined;
+    if (rawEntry === undefined || rawEntry === null) continue;
+    if (!section.tiers.some((t) => t.key === rawEntry.tier)) {
+      return { ok: false, error: `Unknown package in selections for ${section.key}` };
     }
+    clamped[section.key] = { tier: rawEntry.tier };
   }
 
   return { ok: true, selections: clamped };
 }
 
+// The part of `selections` that still means something against
+// `structure`: entries for items it no longer has, and tier picks naming a
+// tier it no longer has, are dropped -- so a client's choices carry over
+// to a new revision and still pass validateSelections.
+export function pruneSelections(structure: TemplateSection[], selections: Selections): Selections {
+  const itemKeys = new Set(getAllLineItems(structure).map((i) => i.key));
+  const tierSections = new Map(getPackageTierSections(structure).map((s) => [s.key, s]));
+  const pruned: Selections = {};
+  for (const [key, entry] of Object.entries(selections)) {
+    const section = tierSections.get(key);
+    if (itemKeys.has(key) || (section && section.tiers.some((t) => t.key === entry?.tier))) pruned[key] = entry;
+  }
+  return pruned;
+}
+
 export interface BuiltInstallment {
   sequence_number: number;
+  // Tax-inclusive; tax_amount is the part of it that's tax.
   amount: number;
+  tax_amount: number;
   due_rule_type: PaymentRuleInstallment["due_rule_type"];
   due_rule_offset_days: number;
-  due_date: string; // YYYY-MM-DD
+  // YYYY-MM-DD. Null for days_after_signing: the agreement isn't signed
+  // yet when a proposal is accepted.
+  due_date: string | null;
+}
+
+// Splits `total` by the rules' percentages, with the last share absorbing
+// the rounding remainder so the shares always sum EXACTLY to `total`.
+function splitByPercent(rules: PaymentRuleInstallment[], total: number): number[] {
+  const shares = rules.map((rule) => round2((total * rule.percent) / 100));
+  const remainder = round2(total - shares.reduce((a, b) => a + b, 0));
+  shares[shares.length - 1] = round2(shares[shares.length - 1] + remainder);
+  return shares;
 }
 
 // Turns a template's payment_rules + a grand total + an event date into
 // concrete dated installments. The last installment absorbs any rounding
 // remainder so the installments always sum EXACTLY to grand_total (never
-// leaves a client owing an extra $0.01 nobody can explain).
+// leaves a client owing an extra $0.01 nobody can explain). The grand
+// total's tax is split the same way, so each installment carries its
+// proportional share -- and the shares sum exactly to taxTotal too.
 export function buildInstallments(
   rules: PaymentRuleInstallment[],
   grandTotal: number,
   eventDateISO: string | null,
-  signingDateISO: string
+  signingDateISO: string,
+  taxTotal = 0
 ): BuiltInstallment[] {
   if (rules.length === 0) return [];
 
-  const amounts = rules.map((rule) => round2((grandTotal * rule.percent) / 100));
-  const sumSoFar = amounts.reduce((a, b) => a + b, 0);
-  const remainder = round2(grandTotal - sumSoFar);
-  amounts[amounts.length - 1] = round2(amounts[amounts.length - 1] + remainder);
+  const amounts = splitByPercent(rules, grandTotal);
+  const taxes = splitByPercent(rules, taxTotal);
 
   return rules.map((rule, idx) => {
-    let due_date = signingDateISO;
-    if (rule.due_rule_type === "days_before_event" && eventDateISO) {
+    let due_date: string | null = signingDateISO;
+    if (rule.due_rule_type === "days_after_signing") {
+      due_date = null;
+    } else if (rule.due_rule_type === "days_before_event" && eventDateISO) {
       const d = new Date(`${eventDateISO}T00:00:00Z`);
       d.setUTCDate(d.getUTCDate() - (rule.due_rule_offset_days ?? 0));
       due_date = d.toISOString().slice(0, 10);
@@ -244,6 +615,7 @@ export function buildInstallments(
     return {
       sequence_number: idx + 1,
       amount: amounts[idx],
+      tax_amount: Math.min(Math.max(taxes[idx], 0), Math.max(amounts[idx], 0)),
       due_rule_type: rule.due_rule_type,
       due_rule_offset_days: rule.due_rule_offset_days ?? 0,
       due_date,
@@ -251,6 +623,15 @@ export function buildInstallments(
   });
 }
 
+// A days_after_signing installment's due date: `offsetDays` after the
+// (UTC) day the agreement was signed. api/respond.ts fills it in when the
+// signature lands.
+export function dueDateAfterSigning(signedAtISO: string, offsetDays: number): string {
+  const d = new Date(`${signedAtISO.slice(0, 10)}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + offsetDays);
+  return d.toISOString().slice(0, 10);
+}
+
 function round2(n: number): number {
   return Math.round((n + Number.EPSILON) * 100) / 100;
 }
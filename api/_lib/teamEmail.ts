@@ -0,0 +1,36 @@
+// teamEmail.ts
+//
+// Emails everyone on a company's team. profiles has no email column -- a
+// team member's address lives on their auth user -- so this needs the
+// service-role client (getAdminClient), and is server-only. For the
+// in-app equivalent, see automationHandlers/notifyTeam.ts.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getResendClient, getFromAddress } from "./resend";
+
+export async function fetchTeamEmails(admin: SupabaseClient, companyId: string): Promise<string[]> {
+  const { data: members } = await admin.from("company_members").select("profile_id").eq("company_id", companyId);
+  const emails: string[] = [];
+  for (const member of members ?? []) {
+    const { data } = await admin.auth.admin.getUserById(member.profile_id);
+    if (data?.user?.email) emails.push(data.user.email);
+  }
+  return emails;
+}
+
+// Resolves false when there was no one to send to or sending isn't set up;
+// callers treat the email as best-effort.
+export async function emailTeam(admin: SupabaseClient, companyId: string, subject: string, html: string): Promise<boolean> {
+  const to = await fetchTeamEmails(admin, companyId);
+  if (to.length === 0) return false;
+
+  let resend;
+  try {
+    resend = getResendClient();
+  } catch {
+    console.error("Email sending is not configured yet -- skipping team email:", subject);
+    return false;
+  }
+  await resend.emails.send({ from: getFromAddress(), to, subject, html });
+  return true;
+}
@@ -4,11 +4,107 @@
 // Elements) for a single payment_installment. Never trusts a client-sent
 // amount -- the charge amount always comes from the installment row itself,
 // resolved server-side after verifying the installment belongs to the
-// calling client.
+// calling client. An installment's sales tax (migration 0043) goes to
+// Stripe as its own line, so the receipt shows it separately.
+//
+// With `schedule_id` instead, it starts a Checkout session in subscription
+// mode for a retainer (migration 0046): the client's card is then charged
+// every cycle, and stripe-webhook.ts records each renewal against the
+// retainer's cycles.
 import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type { SupabaseClient } from "@supabase/supabase-js";
 import Stripe from "stripe";
 import { getRequestClientUser, getAdminClient, UnauthorizedError } from "./_lib/supabaseServer";
 
+// Same cents arithmetic as a one-off payment below, as recurring prices.
+// If every cycle issued so far is paid, the subscription's first charge
+// waits for the next cycle's date (no proration); otherwise Stripe charges
+// straight away, and the webhook puts that towards the oldest unpaid cycle.
+async function startRetainerSubscription(
+  admin: SupabaseClient,
+  stripe: Stripe,
+  siteUrl: string,
+  clientId: string,
+  scheduleId: string,
+  res: VercelResponse
+) {
+  const { data: schedule } = await admin
+    .from("payment_schedules")
+    .select("id, client_id, total_amount, tax_amount, billing_interval, next_billing_date, status, stripe_subscription_id")
+    .eq("id", scheduleId)
+    .maybeSingle();
+
+  if (!schedule || !schedule.billing_interval) {
+    res.status(404).json({ error: "Retainer not found" });
+    return;
+  }
+  if (schedule.client_id !== clientId) {
+    res.status(403).json({ error: "You don't have access to this retainer" });
+    return;
+  }
+  if (schedule.stripe_subscription_id) {
+    res.status(409).json({ error: "Automatic payments are already set up for this retainer" });
+    return;
+  }
+  if (schedule.status !== "active" || !schedule.next_billing_date) {
+    res.status(409).json({ error: "This retainer has no payments left to automate" });
+    return;
+  }
+
+  const { count: unpaid } = await admin
+    .from("payment_installments")
+    .select("id", { count: "exact", head: true })
+    .eq("payment_schedule_id", schedule.id)
+    .in("status", ["pending", "invoiced", "overdue", "failed"]);
+
+  const recurring = { interval: "month" as const, interval_count: schedule.billing_interval === "quarter" ? 3 : 1 };
+  const totalCents = Math.round(Number(schedule.total_amount) * 100);
+  const taxCents = Math.min(Math.round(Number(schedule.tax_amount ?? 0) * 100), totalCents);
+  const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = [
+    {
+      price_data: {
+        currency: "usd",
+        product_data: { name: schedule.billing_interval === "quarter" ? "Quarterly retainer" : "Monthly retainer" },
+        unit_amount: totalCents - taxCents,
+        recurring,
+      },
+      quantity: 1,
+    },
+  ];
+  if (taxCents > 0) {
+    lineItems.push({
+      price_data: { currency: "usd", product_data: { name: "Sales tax" }, unit_amount: taxCents, recurring },
+      quantity: 1,
+    });
+  }
+
+  const subscriptionData: Stripe.Checkout.SessionCreateParams.SubscriptionData = {
+    metadata: { payment_schedule_id: schedule.id },
+  };
+  const nextCycleAt = Math.floor(new Date(`${schedule.next_billing_date}T12:00:00Z`).getTime() / 1000);
+  if (!unpaid && nextCycleAt > Date.now() / 1000) {
+    subscriptionData.billing_cycle_anchor = nextCycleAt;
+    subscriptionData.proration_behavior = "none";
+  }
+
+  const session = await stripe.checkout.sessions.create({
+    mode: "subscription",
+    line_items: lineItems,
+    subscription_data: subscriptionData,
+    success_url: `${siteUrl}/portal?payment=success`,
+    cancel_url: `${siteUrl}/portal?payment=cancelled`,
+    client_reference_id: clientId,
+    metadata: { payment_schedule_id: schedule.id },
+  });
+
+  if (!session.url) {
+    res.status(500).json({ error: "Failed to set up automatic payments — please try again" });
+    return;
+  }
+
+  res.status(200).json({ url: session.url });
+}
+
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== "POST") {
     res.status(405).json({ error: "Method not allowed" });
@@ -28,9 +124,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return;
   }
 
-  const { installment_id } = (req.body || {}) as { installment_id?: string };
-  if (!installment_id || typeof installment_id !== "string") {
-    res.status(400).json({ error: "installment_id is required" });
+  const { installment_id, schedule_id } = (req.body || {}) as { installment_id?: string; schedule_id?: string };
+  if (typeof schedule_id !== "string" && (!installment_id || typeof installment_id !== "string")) {
+    res.status(400).json({ error: "installment_id or schedule_id is required" });
     return;
   }
 
@@ -43,10 +139,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   const admin = getAdminClient();
+  const stripe = new Stripe(stripeSecretKey);
+
+  if (typeof schedule_id === "string") {
+    await startRetainerSubscription(admin, stripe, siteUrl, clientId, schedule_id, res);
+    return;
+  }
 
   const { data: installment, error: installmentError } = await admin
     .from("payment_installments")
-    .select("id, amount, sequence_number, status, invoice_id, payment_schedule_id, payment_schedules(client_id)")
+    .select("id, amount, tax_amount, sequence_number, status, invoice_id, payment_schedule_id, payment_schedules(client_id)")
     .eq("id", installment_id)
     .maybeSingle();
 
@@ -65,12 +167,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     res.status(409).json({ error: "This payment has already been made" });
     return;
   }
+  // Refunded or disputed money is settled between us and the client, not by
+  // paying again.
+  if (["refunded", "partially_refunded", "disputed"].includes(installment.status)) {
+    res.status(409).json({ error: "This payment can't be paid online. Please get in touch with us." });
+    return;
+  }
 
   let invoiceId = installment.invoice_id as string | null;
   if (!invoiceId) {
     const { data: invoice, error: invoiceError } = await admin
       .from("invoices")
-      .insert({ client_id: clientId, amount: installment.amount, status: "unpaid" })
+      .insert({ client_id: clientId, amount: installment.amount, tax_amount: installment.tax_amount ?? 0, status: "unpaid" })
       .select("id")
       .single();
 
@@ -87,20 +195,50 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       .eq("id", installment.id);
   }
 
-  const stripe = new Stripe(stripeSecretKey);
+  // On the line item too, so the client's Stripe receipt matches the
+  // invoice in their portal (migration 0050).
+  const { data: numbered } = await admin.from("invoices").select("invoice_number").eq("id", invoiceId).maybeSingle();
+  const itemName = numbered?.invoice_number
+    ? `Invoice ${numbered.invoice_number} — Payment ${installment.sequence_number}`
+    : `Payment ${installment.sequence_number}`;
+
+  // What's left after any payments a founder recorded by hand (migration
+  // 0049), in cents.
+  const { data: payments } = await admin.from("installment_payments").select("amount").eq("installment_id", installment.id);
+  const amountCents = Math.round(Number(installment.amount) * 100);
+  const paidCents = (payments ?? []).reduce((sum, p) => sum + Math.round(Number(p.amount) * 100), 0);
+  const totalCents = amountCents - paidCents;
+  if (totalCents <= 0) {
+    res.status(409).json({ error: "This payment has already been made" });
+    return;
+  }
 
-  const session = await stripe.checkout.sessions.create({
-    mode: "payment",
-    line_items: [
-      {
-        price_data: {
-          currency: "usd",
-          product_data: { name: `Payment ${installment.sequence_number}` },
-          unit_amount: Math.round(installment.amount * 100),
+  // Worked out in cents from the tax-inclusive amount, so the two lines
+  // always add up to exactly what's owed. A balance carries its share of
+  // the tax.
+  const taxCents = Math.min(Math.round((Number(installment.tax_amount ?? 0) * 100 * totalCents) / amountCents), totalCents);
+  const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = [
+    {
+      price_data: {
+        currency: "usd",
+        product_data: {
+          name: paidCents > 0 ? `${itemName} (remaining balance)` : itemName,
         },
-        quantity: 1,
+        unit_amount: totalCents - taxCents,
       },
-    ],
+      quantity: 1,
+    },
+  ];
+  if (taxCents > 0) {
+    lineItems.push({
+      price_data: { currency: "usd", product_data: { name: "Sales tax" }, unit_amount: taxCents },
+      quantity: 1,
+    });
+  }
+
+  const session = await stripe.checkout.sessions.create({
+    mode: "payment",
+    line_items: lineItems,
     success_url: `${siteUrl}/portal?payment=success`,
     cancel_url: `${siteUrl}/portal?payment=cancelled`,
     client_reference_id: clientId,
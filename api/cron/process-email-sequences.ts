@@ -1,16 +1,26 @@
 // process-email-sequences.ts
 //
-// Daily Vercel cron job (see vercel.json). Two jobs share this one
-// scheduled function -- email sequence processing and Safety Net nudge
-// generation -- rather than each getting its own serverless function,
-// since Vercel Hobby caps a deployment at 12 and this project is already
-// at that limit (see roadmap.md's Phase 12 hotfix note). Protected by
-// CRON_SECRET -- Vercel automatically sends `Authorization: Bearer
-// $CRON_SECRET` on scheduled invocations when that env var is set.
+// Daily Vercel cron job (see vercel.json). Eight jobs share this one
+// scheduled function -- email sequence processing, marking overdue
+// installments, Safety Net nudge generation, resuming parked automation
+// chains, retrying failed automation steps, expiring overdue proposals,
+// issuing retainer invoices, and sending payment reminders -- rather than
+// each getting its own serverless function, since Vercel Hobby caps a
+// deployment at 12 and this project is already at that limit (see
+// roadmap.md's Phase 12 hotfix note). Protected by CRON_SECRET -- Vercel
+// automatically sends `Authorization: Bearer $CRON_SECRET` on scheduled
+// invocations when that env var is set.
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import type { SupabaseClient } from "@supabase/supabase-js";
 import { getAdminClient } from "../_lib/supabaseServer";
 import { getResendClient, getFromAddress } from "../_lib/resend";
+import { resumeChain, retryFailedStep, type ParkedChain, type QueuedRetry } from "../_lib/automationRuntime";
+import { nextRetryAt, RETRY_DELAYS_DAYS } from "../_lib/automationRetries";
+import { notifyTeam } from "../_lib/automationHandlers/notifyTeam";
+import { emailTeam } from "../_lib/teamEmail";
+import { escapeHtml } from "../_lib/automationConfig";
+import { DEFAULT_REMINDER_DAYS, dueReminderDay, renderPaymentReminder } from "../_lib/paymentReminderEmail";
+import { buildCashflowForecast } from "../_lib/cashflowForecast";
 
 // Mirrors NEXT_STAGE/STAGE_LABELS in src/DashboardApp.tsx -- duplicated
 // here (2 lines) rather than importing that file, since it pulls in the
@@ -178,6 +188,52 @@ async function generateSafetyNetNudges(admin: SupabaseClient): Promise<number> {
       }
     }
 
+    // Overdue payment (migration 0048): installments markOverdueInstallments
+    // has moved past their due date. The client is already being reminded
+    // by email; this is the founder's cue to follow up personally.
+    if (!activeTypes.has("overdue_payment")) {
+      const { data: overdueInstallments } = await admin
+        .from("payment_installments")
+        .select("id, payment_schedules!inner(clients!inner(company_id))")
+        .eq("status", "overdue")
+        .eq("payment_schedules.clients.company_id", company.id);
+
+      if (overdueInstallments && overdueInstallments.length > 0) {
+        const plural = overdueInstallments.length === 1 ? "payment is" : "payments are";
+        await admin.from("safety_net_nudges").insert({
+          company_id: company.id,
+          type: "overdue_payment",
+          message: `${overdueInstallments.length} client ${plural} past due — reminders have gone out, and here's an option to check in personally.`,
+        });
+        created++;
+      }
+    }
+
+    // Cash-flow forecast (migration 0051): the first of the next 13 weeks
+    // projected to bring in less than the company's weekly floor. Looks
+    // ahead where cash_buffer looks back; no floor set, no nudge.
+    if (!activeTypes.has("cashflow_forecast")) {
+      const { data: brand } = await admin.from("brand_kits").select("cashflow_weekly_floor").eq("company_id", company.id).maybeSingle();
+      const floor = Number(brand?.cashflow_weekly_floor ?? 0);
+      if (floor > 0) {
+        try {
+          const forecast = await buildCashflowForecast(admin, company.id);
+          const short = forecast.weeks.find((week) => week.expected < floor);
+          if (short) {
+            const weekOf = new Date(`${short.start}T00:00:00Z`).toLocaleDateString("en-US", { month: "long", day: "numeric", timeZone: "UTC" });
+            await admin.from("safety_net_nudges").insert({
+              company_id: company.id,
+              type: "cashflow_forecast",
+              message: `The week of ${weekOf} is looking like $${short.expected.toLocaleString()} in, under your $${floor.toLocaleString()} floor — here's an option to look at the forecast while there's time to plan.`,
+            });
+            created++;
+          }
+        } catch (forecastError) {
+          console.error(`Failed building the cash-flow forecast for company ${company.id}:`, forecastError);
+        }
+      }
+    }
+
     // Stage progress (Stage System Buildout): an available, not-yet-started
     // system at the company's current stage -- orientation language only,
     // per the Dashboard Guardrail, same as the two nudge types above.
@@ -212,6 +268,337 @@ async function generateSafetyNetNudges(admin: SupabaseClient): Promise<number> {
   return created;
 }
 
+// Automation Web waits (migration 0035): resumes every parked chain whose
+// run_at has passed. A wait node that's been paused holds its queue -- its
+// rows stay 'waiting' and resume on the first run after it's turned back
+// on, same as pausing anything else stops it running. Each row is claimed
+// (waiting -> resumed) before its chain runs, so an overlapping invocation
+// can't resume it twice; a chain that throws is logged as failed in
+// automation_runs and doesn't stop the rest of the queue.
+async function resumeWaitingChains(admin: SupabaseClient): Promise<number> {
+  const { data: due, error: dueError } = await admin
+    .from("automation_waits")
+    .select("id, company_id, automation_id, trigger_type, context, automations(active)")
+    .eq("status", "waiting")
+    .lte("run_at", new Date().toISOString())
+    .order("run_at", { ascending: true });
+
+  if (dueError) {
+    console.error("Error loading due automation waits:", dueError);
+    return 0;
+  }
+  if (!due || due.length === 0) return 0;
+
+  let resumed = 0;
+  for (const wait of due) {
+    if (!(wait as any).automations?.active) continue;
+
+    const { data: claimed } = await admin
+      .from("automation_waits")
+      .update({ status: "resumed", resumed_at: new Date().toISOString() })
+      .eq("id", wait.id)
+      .eq("status", "waiting")
+      .select("id")
+      .maybeSingle();
+    if (!claimed) continue;
+
+    try {
+      await resumeChain(admin, wait as unknown as ParkedChain);
+      resumed++;
+    } catch (chainError) {
+      console.error(`Failed resuming automation chain from wait ${wait.id}:`, chainError);
+    }
+  }
+
+  return resumed;
+}
+
+// Retries automation steps whose handler threw (migration 0039), each once
+// its backoff is up. Claimed pending -> retrying first, same reasoning as
+// resumeWaitingChains. A step whose node is paused keeps its place in the
+// queue. When the last retry fails too, the founders get a message -- a
+// step that's been given up on must not just go quiet.
+async function retryFailedSteps(admin: SupabaseClient): Promise<number> {
+  const { data: due, error: dueError } = await admin
+    .from("automation_retries")
+    .select("id, company_id, automation_id, trigger_type, context, attempts, automations(active, title, action_type)")
+    .eq("status", "pending")
+    .lte("next_attempt_at", new Date().toISOString())
+    .order("next_attempt_at", { ascending: true });
+
+  if (dueError) {
+    console.error("Error loading due automation retries:", dueError);
+    return 0;
+  }
+  if (!due || due.length === 0) return 0;
+
+  let succeeded = 0;
+  for (const retry of due) {
+    const automation = (retry as any).automations;
+    if (!automation?.active) continue;
+
+    const { data: claimed } = await admin
+      .from("automation_retries")
+      .update({ status: "retrying", updated_at: new Date().toISOString() })
+      .eq("id", retry.id)
+      .eq("status", "pending")
+      .select("id")
+      .maybeSingle();
+    if (!claimed) continue;
+
+    let error: string | null;
+    try {
+      error = await retryFailedStep(admin, retry as unknown as QueuedRetry);
+    } catch (retryError) {
+      error = retryError instanceof Error ? retryError.message : String(retryError);
+    }
+
+    const attempts = retry.attempts + 1;
+    const now = new Date().toISOString();
+    if (!error) {
+      await admin.from("automation_retries").update({ status: "succeeded", attempts, updated_at: now }).eq("id", retry.id);
+      succeeded++;
+      continue;
+    }
+
+    const next = nextRetryAt(attempts);
+    if (next) {
+      await admin
+        .from("automation_retries")
+        .update({ status: "pending", attempts, last_error: error, next_attempt_at: next.toISOString(), updated_at: now })
+        .eq("id", retry.id);
+      continue;
+    }
+
+    await admin
+      .from("automation_retries")
+      .update({ status: "gave_up", attempts, last_error: error, updated_at: now })
+      .eq("id", retry.id);
+    const clientName = (retry.context as { clientName?: string } | null)?.clientName;
+    const step = automation.title || automation.action_type;
+    try {
+      await notifyTeam(admin, {
+        companyId: retry.company_id,
+        message: `An automation step ("${step}"${clientName ? ` for ${clientName}` : ""}) failed and was retried ${RETRY_DELAYS_DAYS.length} times without success, so it won't run. Last error: ${error}`,
+      });
+    } catch (notifyError) {
+      console.error(`Failed notifying founders about abandoned retry ${retry.id}:`, notifyError);
+    }
+  }
+
+  return succeeded;
+}
+
+// Proposal expiry (migration 0045): every sent or viewed proposal past its
+// expires_at moves to 'expired', and each company's team gets one email
+// listing theirs. The status flip is conditional on the proposal still
+// being sent/viewed, so one the client accepted moments ago is left alone.
+// The email is best-effort -- the proposal has expired either way.
+async function expireOverdueProposals(admin: SupabaseClient): Promise<number> {
+  const { data: overdue, error: overdueError } = await admin
+    .from("proposals")
+    .select("id, expires_at, clients(name, company_id)")
+    .in("status", ["sent", "viewed"])
+    .lte("expires_at", new Date().toISOString());
+
+  if (overdueError) {
+    console.error("Error loading overdue proposals:", overdueError);
+    return 0;
+  }
+  if (!overdue || overdue.length === 0) return 0;
+
+  const expiredByCompany = new Map<string, string[]>();
+  for (const proposal of overdue) {
+    const { data: expired } = await admin
+      .from("proposals")
+      .update({ status: "expired", updated_at: new Date().toISOString() })
+      .eq("id", proposal.id)
+      .in("status", ["sent", "viewed"])
+      .select("id")
+      .maybeSingle();
+    const client = (proposal as any).clients as { name: string; company_id: string } | null;
+    if (!expired || !client) continue;
+
+    const names = expiredByCompany.get(client.company_id) ?? [];
+    names.push(client.name);
+    expiredByCompany.set(client.company_id, names);
+  }
+
+  let expiredCount = 0;
+  for (const [companyId, clientNames] of expiredByCompany) {
+    expiredCount += clientNames.length;
+    const subject =
+      clientNames.length === 1 ? `${clientNames[0]}'s proposal has expired` : `${clientNames.length} proposals have expired`;
+    const html = `<p>These proposals passed their expiry date without being accepted, so clients can no longer accept them:</p><ul>${clientNames
+      .map((name) => `<li>${escapeHtml(name)}</li>`)
+      .join("")}</ul><p>A founder can extend a proposal's expiry from its page in the dashboard to reopen it.</p>`;
+    try {
+      await emailTeam(admin, companyId, subject, html);
+    } catch (emailError) {
+      console.error(`Failed emailing the team about expired proposals for company ${companyId}:`, emailError);
+    }
+  }
+
+  return expiredCount;
+}
+
+// Retainers (migration 0046): issues the next cycle's invoice for every
+// active retainer whose next_billing_date has arrived. One cycle per
+// retainer per run -- if the cron ever misses days, a retainer owed more
+// than one catches up a cycle a day rather than billing a burst at once.
+async function issueRetainerInvoices(admin: SupabaseClient): Promise<number> {
+  const { data: due, error: dueError } = await admin
+    .from("payment_schedules")
+    .select("id")
+    .not("billing_interval", "is", null)
+    .eq("status", "active")
+    .lte("next_billing_date", new Date().toISOString().slice(0, 10));
+
+  if (dueError) {
+    console.error("Error loading due retainers:", dueError);
+    return 0;
+  }
+
+  let issued = 0;
+  for (const schedule of due ?? []) {
+    const { data: installmentId, error } = await admin.rpc("issue_retainer_cycle", { p_schedule_id: schedule.id });
+    if (error) {
+      console.error(`Failed issuing a retainer cycle for schedule ${schedule.id}:`, error);
+      continue;
+    }
+    if (installmentId) issued++;
+  }
+  return issued;
+}
+
+// Overdue installments (migration 0048): every pending, invoiced or
+// partially paid installment whose due_date has passed moves to
+// 'overdue', and its invoice with it while unpaid or partially paid. A
+// failed installment keeps its status -- it's still reminded about, and
+// its founders already heard it failed.
+async function markOverdueInstallments(admin: SupabaseClient): Promise<number> {
+  const { data: overdue, error: overdueError } = await admin
+    .from("payment_installments")
+    .update({ status: "overdue" })
+    .in("status", ["pending", "invoiced", "partially_paid"])
+    .lt("due_date", new Date().toISOString().slice(0, 10))
+    .select("id, invoice_id");
+
+  if (overdueError) {
+    console.error("Error marking installments overdue:", overdueError);
+    return 0;
+  }
+
+  const invoiceIds = (overdue ?? []).map((inst) => inst.invoice_id).filter((id): id is string => !!id);
+  if (invoiceIds.length > 0) {
+    const { error: invoiceError } = await admin
+      .from("invoices")
+      .update({ status: "overdue" })
+      .in("id", invoiceIds)
+      .in("status", ["unpaid", "partially_paid"]);
+    if (invoiceError) console.error("Error marking invoices overdue:", invoiceError);
+  }
+  return overdue?.length ?? 0;
+}
+
+// Payment reminders (migration 0048): emails a client about each unpaid
+// installment on its company's cadence (brand_kits.payment_reminder_days),
+// with a link into the portal to pay it. Each cadence day is claimed in
+// payment_reminders before sending, so it goes out once however often this
+// runs; a send that fails releases the claim to be retried tomorrow. A
+// retainer on automatic payments is only chased once a cycle is overdue --
+// until then Stripe collects it without the client doing anything.
+async function sendPaymentReminders(admin: SupabaseClient): Promise<number> {
+  const siteUrl = process.env.VITE_SITE_URL;
+  if (!siteUrl) {
+    console.error("Missing VITE_SITE_URL -- skipping payment reminders");
+    return 0;
+  }
+
+  const { data: open, error: openError } = await admin
+    .from("payment_installments")
+    .select(
+      "id, amount, due_date, installment_payments(amount), payment_schedules!inner(stripe_subscription_id, clients!inner(name, contact_email, company_id))"
+    )
+    .in("status", ["pending", "invoiced", "partially_paid", "overdue", "failed"])
+    .not("due_date", "is", null);
+
+  if (openError) {
+    console.error("Error loading unpaid installments:", openError);
+    return 0;
+  }
+  if (!open || open.length === 0) return 0;
+
+  let resend;
+  try {
+    resend = getResendClient();
+  } catch {
+    console.error("Email sending is not configured yet -- skipping payment reminders");
+    return 0;
+  }
+
+  const today = Date.parse(`${new Date().toISOString().slice(0, 10)}T00:00:00Z`);
+  const companies = new Map<string, { name: string; brand: any }>();
+  let sent = 0;
+
+  for (const inst of open) {
+    const schedule = (inst as any).payment_schedules as {
+      stripe_subscription_id: string | null;
+      clients: { name: string; contact_email: string | null; company_id: string };
+    };
+    const client = schedule.clients;
+    if (!client.contact_email) continue;
+
+    const daysFromDue = Math.round((today - Date.parse(`${inst.due_date}T00:00:00Z`)) / 86_400_000);
+    if (schedule.stripe_subscription_id && daysFromDue <= 0) continue;
+
+    let company = companies.get(client.company_id);
+    if (!company) {
+      const [{ data: companyRow }, { data: brand }] = await Promise.all([
+        admin.from("companies").select("name").eq("id", client.company_id).maybeSingle(),
+        admin
+          .from("brand_kits")
+          .select("color_primary, logo_variants, payment_reminder_days")
+          .eq("company_id", client.company_id)
+          .maybeSingle(),
+      ]);
+      company = { name: companyRow?.name ?? "", brand };
+      companies.set(client.company_id, company);
+    }
+
+    const reminderDay = dueReminderDay(company.brand?.payment_reminder_days ?? DEFAULT_REMINDER_DAYS, daysFromDue);
+    if (reminderDay === null) continue;
+
+    const { error: claimError } = await admin
+      .from("payment_reminders")
+      .insert({ installment_id: inst.id, days_from_due: reminderDay });
+    if (claimError) {
+      // 23505: this reminder has already gone out.
+      if (claimError.code !== "23505") console.error(`Error claiming a reminder for installment ${inst.id}:`, claimError);
+      continue;
+    }
+
+    const { subject, html } = renderPaymentReminder({
+      companyName: company.name,
+      brand: company.brand,
+      clientName: client.name,
+      // What's still owed, less anything already paid (migration 0049).
+      amount: Number(inst.amount) - ((inst as any).installment_payments ?? []).reduce((sum: number, p: { amount: number }) => sum + Number(p.amount), 0),
+      dueDate: inst.due_date,
+      daysFromDue,
+      payUrl: `${siteUrl}/portal?pay=${inst.id}`,
+    });
+    try {
+      await resend.emails.send({ from: getFromAddress(), to: client.contact_email, subject, html });
+      sent++;
+    } catch (sendError) {
+      console.error(`Failed sending a payment reminder to ${client.contact_email}:`, sendError);
+      await admin.from("payment_reminders").delete().eq("installment_id", inst.id).eq("days_from_due", reminderDay);
+    }
+  }
+  return sent;
+}
+
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   const cronSecret = process.env.CRON_SECRET;
   if (cronSecret && req.headers.authorization !== `Bearer ${cronSecret}`) {
@@ -221,7 +608,24 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   const admin = getAdminClient();
   const sequencesProcessed = await processEmailSequences(admin);
+  // Before the nudges, so today's newly overdue installments count.
+  const installmentsOverdue = await markOverdueInstallments(admin);
   const nudgesCreated = await generateSafetyNetNudges(admin);
+  const chainsResumed = await resumeWaitingChains(admin);
+  const stepsRetried = await retryFailedSteps(admin);
+  const proposalsExpired = await expireOverdueProposals(admin);
+  const retainerInvoicesIssued = await issueRetainerInvoices(admin);
+  const paymentRemindersSent = await sendPaymentReminders(admin);
 
-  res.status(200).json({ ok: true, sequencesProcessed, nudgesCreated });
+  res.status(200).json({
+    ok: true,
+    sequencesProcessed,
+    installmentsOverdue,
+    nudgesCreated,
+    chainsResumed,
+    stepsRetried,
+    proposalsExpired,
+    retainerInvoicesIssued,
+    paymentRemindersSent,
+  });
 }
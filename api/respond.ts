@@ -8,11 +8,42 @@
 // boundary). Same trust-boundary shape as this file's siblings -- the
 // client's browser has no direct write policy on either `agreements` or
 // `deliverables`, only this endpoint can write to them.
+//
+// Also serves `type: 'document_pdf'`: the client downloading a proposal,
+// agreement or invoice of their own as a PDF (see _lib/documentPdf.ts).
+// And, as the one GET here, an invoice's share link -- /invoices/<token>,
+// rewritten to ?invoice=<token> by vercel.json -- which needs no login:
+// the token is the key (migration 0050), so a client can forward it.
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { getRequestClientUser, getAdminClient, UnauthorizedError } from "./_lib/supabaseServer";
 import { runTrigger } from "./_lib/automationRuntime";
+import { dueDateAfterSigning } from "./_lib/proposalEngine";
+import { renderDocumentPdf, PDF_DOCUMENT_KINDS, type PdfDocumentKind } from "./_lib/documentPdf";
+
+async function serveSharedInvoice(token: string, res: VercelResponse) {
+  const admin = getAdminClient();
+  const { data: invoice } = await admin.from("invoices").select("id").eq("share_token", token).maybeSingle();
+  const pdf = invoice ? await renderDocumentPdf(admin, "invoice", invoice.id) : null;
+  if (!pdf) {
+    res.status(404).json({ error: "Invoice not found" });
+    return;
+  }
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", `inline; filename="${pdf.filename}"`);
+  res.status(200).send(Buffer.from(pdf.bytes));
+}
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method === "GET" && typeof req.query.invoice === "string" && req.query.invoice) {
+    try {
+      await serveSharedInvoice(req.query.invoice, res);
+    } catch (err) {
+      console.error("Shared invoice rendering failed:", err);
+      res.status(500).json({ error: "Couldn't generate this invoice" });
+    }
+    return;
+  }
+
   if (req.method !== "POST") {
     res.status(405).json({ error: "Method not allowed" });
     return;
@@ -32,12 +63,14 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   const body = (req.body || {}) as {
-    type?: "agreement" | "deliverable";
+    type?: "agreement" | "deliverable" | "document_pdf";
     agreement_id?: string;
     signed_name?: string;
     deliverable_id?: string;
     action?: "approve" | "request_changes";
     revision_note?: string;
+    kind?: string;
+    id?: string;
   };
 
   const admin = getAdminClient();
@@ -56,7 +89,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     const { data: agreement, error: agreementError } = await admin
       .from("agreements")
-      .select("id, client_id, status")
+      .select("id, client_id, status, proposal_id, clients(name, company_id)")
       .eq("id", agreement_id)
       .maybeSingle();
 
@@ -80,9 +113,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const forwardedFor = req.headers["x-forwarded-for"];
     const ip = Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor?.split(",")[0]?.trim() || req.socket?.remoteAddress || null;
 
+    const signedAt = new Date().toISOString();
     const { error: updateError } = await admin
       .from("agreements")
-      .update({ status: "signed", signed_at: new Date().toISOString(), signed_name: trimmedName, signed_ip: ip })
+      .update({ status: "signed", signed_at: signedAt, signed_name: trimmedName, signed_ip: ip })
       .eq("id", agreement_id);
 
     if (updateError) {
@@ -91,6 +125,55 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return;
     }
 
+    // The proposal's days_after_signing installments were left undated at
+    // acceptance; this signature is what they count from. A re-signed
+    // agreement (after a void) re-dates any still open -- never one that's
+    // paid, refunded or disputed.
+    if (agreement.proposal_id) {
+      try {
+        const { data: schedule } = await admin
+          .from("payment_schedules")
+          .select("id")
+          .eq("proposal_id", agreement.proposal_id)
+          .maybeSingle();
+        const { data: undated } = schedule
+          ? await admin
+              .from("payment_installments")
+              .select("id, due_rule_offset_days")
+              .eq("payment_schedule_id", schedule.id)
+              .eq("due_rule_type", "days_after_signing")
+              .in("status", ["pending", "invoiced", "partially_paid", "overdue", "failed"])
+          : { data: [] };
+        for (const inst of undated ?? []) {
+          const { error: dateError } = await admin
+            .from("payment_installments")
+            .update({ due_date: dueDateAfterSigning(signedAt, inst.due_rule_offset_days ?? 0) })
+            .eq("id", inst.id);
+          if (dateError) console.error("Error dating installment from signature:", dateError);
+        }
+      } catch (scheduleError) {
+        console.error("Dating installments from the signature failed:", scheduleError);
+      }
+    }
+
+    // Automation: agreement signed, through the Automation Web runtime.
+    // Best-effort: the signature has already been recorded.
+    try {
+      const client = (agreement as any).clients;
+      if (client?.company_id) {
+        await runTrigger(admin, client.company_id, "agreement_signed", {
+          companyId: client.company_id,
+          clientId,
+          clientName: client.name,
+          proposalId: agreement.proposal_id ?? undefined,
+          agreementId: agreement.id,
+          message: `${client.name} signed their agreement`,
+        });
+      }
+    } catch (automationError) {
+      console.error("Agreement-signed automation failed (non-fatal):", automationError);
+    }
+
     res.status(200).json({ ok: true });
     return;
   }
@@ -159,6 +242,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         if (companyId) {
           await runTrigger(admin, companyId, "deliverable_approved", {
             companyId,
+            clientId: ownerClientId,
+            projectId: deliverable.project_id,
+            deliverableId: deliverable.id,
             message: `${clientName} approved "${deliverable.title}"`,
           });
         }
@@ -171,5 +257,30 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return;
   }
 
-  res.status(400).json({ error: "type must be agreement or deliverable" });
+  if (body.type === "document_pdf") {
+    const { kind, id } = body;
+    if (!PDF_DOCUMENT_KINDS.includes(kind as PdfDocumentKind) || !id || typeof id !== "string") {
+      res.status(400).json({ error: "kind (proposal, agreement or invoice) and id are required" });
+      return;
+    }
+
+    try {
+      // The service role reads past RLS, so renderDocumentPdf checks the
+      // document belongs to this client.
+      const pdf = await renderDocumentPdf(admin, kind as PdfDocumentKind, id, clientId);
+      if (!pdf) {
+        res.status(404).json({ error: "Document not found" });
+        return;
+      }
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${pdf.filename}"`);
+      res.status(200).send(Buffer.from(pdf.bytes));
+    } catch (err) {
+      console.error("PDF rendering failed:", err);
+      res.status(500).json({ error: "Couldn't generate this PDF" });
+    }
+    return;
+  }
+
+  res.status(400).json({ error: "type must be agreement, deliverable or document_pdf" });
 }
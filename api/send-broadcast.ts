@@ -4,9 +4,218 @@
 // active clients / leads) immediately via Resend. One email per recipient
 // (not a single multi-recipient send), so recipients never see each other's
 // addresses.
+//
+// Also hosts the Automation Web's "Simulate" (`type: 'simulate_automation'`
+// in the body) -- a second team-only POST folded in here rather than a new
+// file, since api/*.ts is pinned at Vercel Hobby's 12-function cap (see
+// roadmap.md's hotfix note). A body without `type` is a broadcast, exactly
+// as before.
+//
+// Likewise `type: 'document_pdf'`: a team member downloading a proposal,
+// agreement or invoice as a PDF (see _lib/documentPdf.ts); and
+// `type: 'end_retainer'`: a founder ending a retainer (migration 0046),
+// which has to cancel its Stripe subscription server-side; and
+// `type: 'accounting_export'`: ReportingPage's export of a company's
+// invoices and payments for its bookkeeper (see _lib/accountingExport.ts).
 import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import Stripe from "stripe";
 import { getRequestUser, UnauthorizedError } from "./_lib/supabaseServer";
 import { getResendClient, getFromAddress } from "./_lib/resend";
+import { simulateTrigger, type TriggerType } from "./_lib/automationRuntime";
+import { renderDocumentPdf, PDF_DOCUMENT_KINDS, type PdfDocumentKind } from "./_lib/documentPdf";
+import { buildAccountingExport, ACCOUNTING_EXPORT_FORMATS, type AccountingExportFormat } from "./_lib/accountingExport";
+
+// Walks the company's web for `trigger_type` as if it fired for the sample
+// client, through simulateTrigger -- nothing is written. Runs under the
+// caller's own session, so it only reads what their RLS already shows
+// them. The firing's context is built from the client's most recent
+// proposal/project/invoice/agreement, the same ids a real firing for that
+// client would carry.
+async function simulateAutomation(supabase: SupabaseClient, body: Record<string, unknown>, res: VercelResponse) {
+  const { company_id, trigger_type, client_id } = body as { company_id?: string; trigger_type?: string; client_id?: string };
+  if (!company_id || !trigger_type || !client_id) {
+    res.status(400).json({ error: "company_id, trigger_type and client_id are required" });
+    return;
+  }
+
+  const { data: client } = await supabase
+    .from("clients")
+    .select("id, name")
+    .eq("id", client_id)
+    .eq("company_id", company_id)
+    .maybeSingle();
+  if (!client) {
+    res.status(404).json({ error: "Client not found" });
+    return;
+  }
+
+  const latest = (table: string) =>
+    supabase.from(table).select("id").eq("client_id", client.id).order("created_at", { ascending: false }).limit(1).maybeSingle();
+  const [{ data: proposal }, { data: project }, { data: invoice }, { data: agreement }] = await Promise.all([
+    latest("proposals"),
+    latest("projects"),
+    latest("invoices"),
+    latest("agreements"),
+  ]);
+
+  try {
+    const steps = await simulateTrigger(supabase, company_id, trigger_type as TriggerType, {
+      companyId: company_id,
+      clientId: client.id,
+      clientName: client.name,
+      proposalId: proposal?.id,
+      projectId: project?.id,
+      invoiceId: invoice?.id,
+      agreementId: agreement?.id,
+      message: `${client.name} — simulated`,
+    });
+    res.status(200).json({ steps });
+  } catch (err) {
+    console.error("Automation simulation failed:", err);
+    res.status(500).json({ error: "Couldn't simulate this trigger" });
+  }
+}
+
+// Rendered under the caller's own session, so RLS limits it to documents
+// of their own company's clients.
+async function documentPdf(supabase: SupabaseClient, body: Record<string, unknown>, res: VercelResponse) {
+  const { kind, id } = body as { kind?: string; id?: string };
+  if (!PDF_DOCUMENT_KINDS.includes(kind as PdfDocumentKind) || !id || typeof id !== "string") {
+    res.status(400).json({ error: "kind (proposal, agreement or invoice) and id are required" });
+    return;
+  }
+
+  try {
+    const pdf = await renderDocumentPdf(supabase, kind as PdfDocumentKind, id);
+    if (!pdf) {
+      res.status(404).json({ error: "Document not found" });
+      return;
+    }
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${pdf.filename}"`);
+    res.status(200).send(Buffer.from(pdf.bytes));
+  } catch (err) {
+    console.error("PDF rendering failed:", err);
+    res.status(500).json({ error: "Couldn't generate this PDF" });
+  }
+}
+
+// Founder-only, like the other ways of walking away from a booking. The
+// retainer is marked ended before its Stripe subscription is cancelled, so
+// the webhook's customer.subscription.deleted finds it already ended
+// (and doesn't email the team about a cancellation they made); if Stripe
+// refuses, the retainer goes back to active.
+async function endRetainer(supabase: SupabaseClient, user: User, body: Record<string, unknown>, res: VercelResponse) {
+  const { schedule_id } = body as { schedule_id?: string };
+  if (!schedule_id || typeof schedule_id !== "string") {
+    res.status(400).json({ error: "schedule_id is required" });
+    return;
+  }
+
+  const { data: schedule } = await supabase
+    .from("payment_schedules")
+    .select("id, status, billing_interval, next_billing_date, stripe_subscription_id, clients(company_id)")
+    .eq("id", schedule_id)
+    .maybeSingle();
+  const companyId = (schedule as any)?.clients?.company_id as string | undefined;
+  if (!schedule || !schedule.billing_interval || !companyId) {
+    res.status(404).json({ error: "Retainer not found" });
+    return;
+  }
+
+  const { data: membership } = await supabase
+    .from("company_members")
+    .select("role")
+    .eq("company_id", companyId)
+    .eq("profile_id", user.id)
+    .maybeSingle();
+  if (membership?.role !== "founder") {
+    res.status(403).json({ error: "Only a founder can end a retainer" });
+    return;
+  }
+  if (schedule.status !== "active") {
+    res.status(409).json({ error: "This retainer has already ended" });
+    return;
+  }
+
+  const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+  if (schedule.stripe_subscription_id && !stripeSecretKey) {
+    res.status(500).json({ error: "Online payments are not configured yet" });
+    return;
+  }
+
+  const { error } = await supabase
+    .from("payment_schedules")
+    .update({ status: "cancelled", ended_at: new Date().toISOString(), next_billing_date: null })
+    .eq("id", schedule.id);
+  if (error) {
+    console.error("Error ending retainer:", error);
+    res.status(500).json({ error: "Couldn't end this retainer" });
+    return;
+  }
+
+  if (schedule.stripe_subscription_id && stripeSecretKey) {
+    try {
+      await new Stripe(stripeSecretKey).subscriptions.cancel(schedule.stripe_subscription_id);
+    } catch (err) {
+      console.error("Failed cancelling retainer subscription:", err);
+      await supabase
+        .from("payment_schedules")
+        .update({ status: "active", ended_at: null, next_billing_date: schedule.next_billing_date })
+        .eq("id", schedule.id);
+      res.status(502).json({ error: "Couldn't cancel the client's automatic payments in Stripe — please try again" });
+      return;
+    }
+  }
+
+  res.status(200).json({ ok: true });
+}
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Any member of the company can export its books, not only founders --
+// the bookkeeper may well be on the team. Membership is checked with
+// is_company_member, and the export itself reads under the caller's
+// session, so nothing outside their company can end up in the file.
+async function accountingExport(supabase: SupabaseClient, body: Record<string, unknown>, res: VercelResponse) {
+  const { company_id, from, to, format } = body as { company_id?: string; from?: string; to?: string; format?: string };
+  if (!company_id || !from || !to || !DAY_PATTERN.test(from) || !DAY_PATTERN.test(to)) {
+    res.status(400).json({ error: "company_id, from and to (YYYY-MM-DD) are required" });
+    return;
+  }
+  if (from > to) {
+    res.status(400).json({ error: "The start date has to be on or before the end date" });
+    return;
+  }
+  if (!ACCOUNTING_EXPORT_FORMATS.includes(format as AccountingExportFormat)) {
+    res.status(400).json({ error: "format must be csv or iif" });
+    return;
+  }
+
+  const { data: isMember } = await supabase.rpc("is_company_member", { check_company_id: company_id });
+  const { data: company } = isMember ? await supabase.from("companies").select("name").eq("id", company_id).maybeSingle() : { data: null };
+  if (!company) {
+    res.status(403).json({ error: "You don't have access to this company's books" });
+    return;
+  }
+
+  try {
+    const file = await buildAccountingExport(supabase, {
+      companyId: company_id,
+      companyName: company.name,
+      from,
+      to,
+      format: format as AccountingExportFormat,
+    });
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+    res.status(200).send(file.body);
+  } catch (err) {
+    console.error("Accounting export failed:", err);
+    res.status(500).json({ error: "Couldn't build this export" });
+  }
+}
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== "POST") {
@@ -15,8 +224,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   let supabase;
+  let user;
+  let isTeamMember = false;
   try {
-    ({ supabase } = await getRequestUser(req.headers.authorization));
+    ({ supabase, user, isTeamMember } = await getRequestUser(req.headers.authorization));
   } catch (err) {
     if (err instanceof UnauthorizedError) {
       res.status(401).json({ error: "Unauthorized" });
@@ -27,6 +238,38 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return;
   }
 
+  if (req.body?.type === "simulate_automation") {
+    if (!isTeamMember) {
+      res.status(403).json({ error: "Only team members can simulate automations" });
+      return;
+    }
+    await simulateAutomation(supabase, req.body, res);
+    return;
+  }
+
+  if (req.body?.type === "document_pdf") {
+    if (!isTeamMember) {
+      res.status(403).json({ error: "Only team members can download documents here" });
+      return;
+    }
+    await documentPdf(supabase, req.body, res);
+    return;
+  }
+
+  if (req.body?.type === "accounting_export") {
+    if (!isTeamMember) {
+      res.status(403).json({ error: "Only team members can export accounting data" });
+      return;
+    }
+    await accountingExport(supabase, req.body, res);
+    return;
+  }
+
+  if (req.body?.type === "end_retainer") {
+    await endRetainer(supabase, user, req.body, res);
+    return;
+  }
+
   const { broadcast_id } = (req.body || {}) as { broadcast_id?: string };
   if (!broadcast_id || typeof broadcast_id !== "string") {
     res.status(400).json({ error: "broadcast_id is required" });
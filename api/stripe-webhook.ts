@@ -1,12 +1,26 @@
 // stripe-webhook.ts
 //
-// Receives Stripe's checkout.session.completed event and marks the matching
-// invoice + payment_installment paid. This is the only path that ever flips
-// an installment to "paid" -- never trust a client-side "payment succeeded"
-// callback, only a signature-verified webhook from Stripe itself.
+// Receives Stripe's checkout events and marks the matching invoice +
+// payment_installment paid. This is the only path that ever flips an
+// installment to "paid" -- never trust a client-side "payment succeeded"
+// callback, only a signature-verified webhook from Stripe itself. It also
+// follows a payment after that (migration 0047): bank payments clearing or
+// failing, refunds and disputes each move the invoice
+// and installment on, and message the company's founders. Every event is
+// processed once, however often Stripe delivers it.
+//
+// Retainer subscriptions (migration 0046) come through here too: the
+// completed subscription checkout links the subscription to its retainer,
+// each paid subscription invoice (invoice.paid) pays the retainer's oldest
+// unpaid cycle, and customer.subscription.deleted ends the retainer.
 import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type { SupabaseClient } from "@supabase/supabase-js";
 import Stripe from "stripe";
 import { getAdminClient } from "./_lib/supabaseServer";
+import { runTrigger } from "./_lib/automationRuntime";
+import { emailTeam } from "./_lib/teamEmail";
+import { escapeHtml } from "./_lib/automationConfig";
+import { notifyTeam } from "./_lib/automationHandlers/notifyTeam";
 
 export const config = {
   api: { bodyParser: false },
@@ -21,6 +35,394 @@ function readRawBody(req: VercelRequest): Promise<Buffer> {
   });
 }
 
+// Automation: invoice paid, through the Automation Web runtime -- which
+// node(s) run is data, not this call site. Best-effort: the payment is
+// already recorded, and a non-2xx here would only make Stripe retry a
+// webhook that already did its real job.
+async function runInvoicePaidAutomation(admin: SupabaseClient, invoiceId: string, installmentId: string) {
+  try {
+    const { data: invoice } = await admin
+      .from("invoices")
+      .select("amount, client_id, project_id, clients(name, company_id)")
+      .eq("id", invoiceId)
+      .maybeSingle();
+    const { data: installment } = await admin
+      .from("payment_installments")
+      .select("payment_schedules(proposal_id)")
+      .eq("id", installmentId)
+      .maybeSingle();
+    const client = (invoice as any)?.clients;
+    if (invoice && client?.company_id) {
+      await runTrigger(admin, client.company_id, "invoice_paid", {
+        companyId: client.company_id,
+        clientId: invoice.client_id,
+        clientName: client.name,
+        projectId: invoice.project_id ?? undefined,
+        proposalId: (installment as any)?.payment_schedules?.proposal_id ?? undefined,
+        invoiceId,
+        message: `${client.name} paid an invoice ($${Number(invoice.amount).toLocaleString()})`,
+      });
+    }
+  } catch (automationError) {
+    console.error("Invoice-paid automation failed (non-fatal):", automationError);
+  }
+}
+
+// Stripe fields that hold either an id or, when expanded, the object.
+function idOf(value: string | { id: string } | null | undefined): string | null {
+  return typeof value === "string" ? value : value?.id ?? null;
+}
+
+// Moves an invoice and its installment to a new state. `onlyFrom` limits
+// which current states the move applies to, so a late event can't
+// overwrite a newer outcome (a failed bank payment must not un-pay an
+// invoice the client paid through a second checkout). Resolves to the invoice
+// when it moved, for messaging the founders.
+async function setPaymentState(
+  admin: SupabaseClient,
+  invoiceId: string,
+  status: "paid" | "failed" | "refunded" | "partially_refunded" | "disputed",
+  options: { onlyFrom?: string[]; fields?: Record<string, unknown> } = {}
+) {
+  let update = admin
+    .from("invoices")
+    .update({ status, ...options.fields, updated_at: new Date().toISOString() })
+    .eq("id", invoiceId);
+  if (options.onlyFrom) update = update.in("status", options.onlyFrom);
+  const { data: invoice, error } = await update.select("id, amount, clients(name, company_id)").maybeSingle();
+  if (error) throw error;
+  if (!invoice) return null;
+
+  const { error: installmentError } = await admin.from("payment_installments").update({ status }).eq("invoice_id", invoiceId);
+  if (installmentError) throw installmentError;
+  return invoice as unknown as { id: string; amount: number; clients: { name: string; company_id: string } | null };
+}
+
+// Every payment Stripe takes goes in the ledger too (migration 0049), so
+// an installment's balance is right whichever way it was paid. Money
+// Stripe took is recorded even past the installment's amount -- a
+// checkout opened before a founder recorded a payment by hand still
+// charges the balance it was opened with -- and resolves to the excess in
+// cents, for the founders to refund. A payment intent already in the
+// ledger isn't recorded twice.
+async function recordLedgerPayment(
+  admin: SupabaseClient,
+  installmentId: string,
+  amountCents: number,
+  paymentIntentId: string | null
+): Promise<number> {
+  const { data: installment } = await admin
+    .from("payment_installments")
+    .select("amount, payment_schedules(client_id), installment_payments(amount, reference)")
+    .eq("id", installmentId)
+    .maybeSingle();
+  const clientId = (installment as any)?.payment_schedules?.client_id;
+  if (!clientId || amountCents <= 0) return 0;
+  const payments = ((installment as any).installment_payments ?? []) as { amount: number; reference: string | null }[];
+  if (paymentIntentId && payments.some((p) => p.reference === paymentIntentId)) return 0;
+  const balanceCents = Math.round(Number(installment!.amount) * 100) - payments.reduce((sum, p) => sum + Math.round(Number(p.amount) * 100), 0);
+  const { error } = await admin.from("installment_payments").insert({
+    installment_id: installmentId,
+    client_id: clientId,
+    amount: amountCents / 100,
+    method: "stripe",
+    reference: paymentIntentId,
+    paid_on: new Date().toISOString().slice(0, 10),
+  });
+  if (error) throw error;
+  return Math.max(0, amountCents - Math.max(0, balanceCents));
+}
+
+async function flagOverpayment(admin: SupabaseClient, invoiceId: string, overpaidCents: number) {
+  if (overpaidCents <= 0) return;
+  const { data: invoice } = await admin.from("invoices").select("id, amount, clients(name, company_id)").eq("id", invoiceId).maybeSingle();
+  await notifyFoundersOf(
+    admin,
+    invoice as unknown as Awaited<ReturnType<typeof setPaymentState>>,
+    (name) =>
+      `${name} paid $${(overpaidCents / 100).toLocaleString()} more than they owed through Stripe, after part of it was recorded by hand — refund the difference in Stripe`
+  );
+}
+
+async function notifyFoundersOf(
+  admin: SupabaseClient,
+  invoice: Awaited<ReturnType<typeof setPaymentState>>,
+  message: (clientName: string) => string
+) {
+  if (!invoice?.clients?.company_id) return;
+  try {
+    await notifyTeam(admin, { companyId: invoice.clients.company_id, message: message(invoice.clients.name) });
+  } catch (notifyError) {
+    console.error("Failed messaging founders about a payment:", notifyError);
+  }
+}
+
+async function findRetainer(admin: SupabaseClient, subscriptionId: string, scheduleId: string | undefined) {
+  const { data } = await admin
+    .from("payment_schedules")
+    .select("id, billing_cycles, status, stripe_subscription_id")
+    .eq(scheduleId ? "id" : "stripe_subscription_id", scheduleId ?? subscriptionId)
+    .maybeSingle();
+  return data;
+}
+
+// A subscription renewal pays the retainer's oldest unpaid cycle, issuing
+// the cycle first if Stripe got there before the cron did. Stripe retries
+// webhooks, so a Stripe invoice already recorded is skipped. Once the last
+// of a fixed number of cycles is paid, the subscription is set to end
+// rather than charge again.
+async function recordRetainerRenewal(admin: SupabaseClient, stripe: Stripe, stripeInvoice: Stripe.Invoice) {
+  const details = stripeInvoice.parent?.subscription_details;
+  const subscriptionId = typeof details?.subscription === "string" ? details.subscription : details?.subscription?.id;
+  if (!subscriptionId || stripeInvoice.amount_paid <= 0) return;
+
+  const { data: recorded } = await admin.from("invoices").select("id").eq("stripe_invoice_id", stripeInvoice.id).maybeSingle();
+  if (recorded) return;
+
+  const schedule = await findRetainer(admin, subscriptionId, details?.metadata?.payment_schedule_id);
+  if (!schedule) {
+    console.error("invoice.paid for a subscription with no matching retainer", subscriptionId, stripeInvoice.id);
+    return;
+  }
+
+  let { data: installment } = await admin
+    .from("payment_installments")
+    .select("id, sequence_number, invoice_id")
+    .eq("payment_schedule_id", schedule.id)
+    .in("status", ["pending", "invoiced", "overdue", "failed"])
+    .order("sequence_number", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+  if (!installment) {
+    const { data: issuedId } = await admin.rpc("issue_retainer_cycle", { p_schedule_id: schedule.id });
+    if (issuedId) {
+      ({ data: installment } = await admin
+        .from("payment_installments")
+        .select("id, sequence_number, invoice_id")
+        .eq("id", issuedId)
+        .maybeSingle());
+    }
+  }
+  if (!installment?.invoice_id) {
+    // Nothing left to bill -- the retainer ended or ran its course -- so
+    // stop the subscription; this charge needs refunding by hand.
+    console.error("Retainer renewal with no cycle to pay; cancelling subscription", subscriptionId, stripeInvoice.id);
+    await stripe.subscriptions.cancel(subscriptionId);
+    return;
+  }
+
+  // Recorded so a refund or dispute of this charge finds the invoice.
+  const { data: payments } = await stripe.invoicePayments.list({ invoice: stripeInvoice.id, limit: 1 });
+  const paymentIntentId = idOf(payments[0]?.payment.payment_intent);
+  await setPaymentState(admin, installment.invoice_id, "paid", {
+    fields: { stripe_invoice_id: stripeInvoice.id, stripe_payment_intent_id: paymentIntentId },
+  });
+  await recordLedgerPayment(admin, installment.id, stripeInvoice.amount_paid, paymentIntentId);
+  if (!schedule.stripe_subscription_id) {
+    await admin.from("payment_schedules").update({ stripe_subscription_id: subscriptionId }).eq("id", schedule.id);
+  }
+
+  if (schedule.billing_cycles && installment.sequence_number >= schedule.billing_cycles) {
+    await stripe.subscriptions.update(subscriptionId, { cancel_at_period_end: true });
+  }
+
+  await runInvoicePaidAutomation(admin, installment.invoice_id, installment.id);
+}
+
+// The client cancelled in Stripe, or Stripe gave up collecting: the
+// retainer ends, and the team hears about it. A retainer that already ran
+// its course (the usual reason its subscription ends) is left as it is.
+async function endRetainerForSubscription(admin: SupabaseClient, subscription: Stripe.Subscription) {
+  const { data: ended } = await admin
+    .from("payment_schedules")
+    .update({ status: "cancelled", ended_at: new Date().toISOString(), next_billing_date: null })
+    .eq("stripe_subscription_id", subscription.id)
+    .eq("status", "active")
+    .select("id, clients(name, company_id)")
+    .maybeSingle();
+  const client = (ended as any)?.clients as { name: string; company_id: string } | undefined;
+  if (!ended || !client) return;
+
+  try {
+    await emailTeam(
+      admin,
+      client.company_id,
+      `${client.name}'s retainer was cancelled`,
+      `<p>${escapeHtml(client.name)}'s automatic retainer payments were cancelled in Stripe, so their retainer has ended and no more invoices will be issued for it.</p>`
+    );
+  } catch (emailError) {
+    console.error("Failed emailing the team about a cancelled retainer:", emailError);
+  }
+}
+
+async function linkRetainerSubscription(admin: SupabaseClient, session: Stripe.Checkout.Session) {
+  const scheduleId = session.metadata?.payment_schedule_id;
+  const subscriptionId = idOf(session.subscription);
+  if (!scheduleId || !subscriptionId) {
+    console.error("Subscription checkout.session.completed missing payment_schedule_id metadata", session.id);
+    return;
+  }
+  await admin
+    .from("payment_schedules")
+    .update({ stripe_subscription_id: subscriptionId })
+    .eq("id", scheduleId)
+    .is("stripe_subscription_id", null);
+}
+
+// A card payment is paid when its checkout completes. A bank payment's
+// checkout completes with payment_status 'unpaid' while the transfer
+// clears: the payment intent is recorded then (so a later failure,
+// refund or dispute can find the invoice), and it's marked paid on
+// async_payment_succeeded.
+async function recordCheckoutPayment(admin: SupabaseClient, session: Stripe.Checkout.Session) {
+  const installmentId = session.metadata?.installment_id;
+  const invoiceId = session.metadata?.invoice_id;
+  if (!installmentId || !invoiceId) {
+    console.error("Checkout session missing installment_id/invoice_id metadata", session.id);
+    return;
+  }
+  const paymentIntentId = idOf(session.payment_intent);
+
+  if (session.payment_status === "unpaid") {
+    await admin.from("invoices").update({ stripe_payment_intent_id: paymentIntentId }).eq("id", invoiceId);
+    return;
+  }
+
+  // Checkout charges the installment's balance, so this settles it even
+  // when a founder had recorded part of it by hand. If they recorded the
+  // rest while the checkout was open, the invoice is already paid: the
+  // charge still goes in the ledger, and the founders hear it was too much.
+  const paid = await setPaymentState(admin, invoiceId, "paid", {
+    onlyFrom: ["unpaid", "partially_paid", "overdue", "failed"],
+    fields: { stripe_payment_intent_id: paymentIntentId },
+  });
+  if (!paid) {
+    const { data: invoice } = await admin.from("invoices").select("status, stripe_payment_intent_id").eq("id", invoiceId).maybeSingle();
+    if (invoice?.status !== "paid") return;
+    if (!invoice.stripe_payment_intent_id) {
+      // So the refund of the excess finds this invoice.
+      await admin.from("invoices").update({ stripe_payment_intent_id: paymentIntentId }).eq("id", invoiceId);
+    }
+    await flagOverpayment(admin, invoiceId, await recordLedgerPayment(admin, installmentId, session.amount_total ?? 0, paymentIntentId));
+    return;
+  }
+  await flagOverpayment(admin, invoiceId, await recordLedgerPayment(admin, installmentId, session.amount_total ?? 0, paymentIntentId));
+  await runInvoicePaidAutomation(admin, invoiceId, installmentId);
+}
+
+// Only a bank payment that bounced is a failed payment. A checkout the
+// client abandoned (checkout.session.expired) never attempted one, so it's
+// left alone: the installment keeps whatever status it had -- overdue
+// included -- and the founders hear nothing.
+async function failBankPayment(admin: SupabaseClient, session: Stripe.Checkout.Session) {
+  const invoiceId = session.metadata?.invoice_id;
+  if (session.mode !== "payment" || !invoiceId) return;
+  const failed = await setPaymentState(admin, invoiceId, "failed", { onlyFrom: ["unpaid", "partially_paid", "overdue"] });
+  await notifyFoundersOf(
+    admin,
+    failed,
+    (name) => `${name}'s payment of $${Number(failed?.amount).toLocaleString()} didn't go through (bank payment failed) — they can pay again from their portal`
+  );
+}
+
+async function findInvoiceByPaymentIntent(admin: SupabaseClient, paymentIntentId: string | null) {
+  if (!paymentIntentId) return null;
+  const { data } = await admin.from("invoices").select("id").eq("stripe_payment_intent_id", paymentIntentId).maybeSingle();
+  return data;
+}
+
+// Each of the charge's refunds goes in the refunds ledger (migration 0052)
+// on the day Stripe made it; one recorded already is skipped. Refunds
+// carried over from before the ledger have no Stripe id, so they're
+// matched against the charge's oldest refunds instead.
+async function recordLedgerRefunds(admin: SupabaseClient, stripe: Stripe, invoiceId: string, charge: Stripe.Charge) {
+  const { data: invoice } = await admin.from("invoices").select("client_id").eq("id", invoiceId).maybeSingle();
+  if (!invoice) return;
+  const { data: recorded, error: recordedError } = await admin
+    .from("invoice_refunds")
+    .select("amount, stripe_refund_id")
+    .eq("invoice_id", invoiceId);
+  if (recordedError) throw recordedError;
+  const known = new Set((recorded ?? []).map((r) => r.stripe_refund_id).filter(Boolean));
+  let carriedOver = (recorded ?? []).filter((r) => !r.stripe_refund_id).reduce((sum, r) => sum + Math.round(Number(r.amount) * 100), 0);
+
+  const { data: refunds } = await stripe.refunds.list({ charge: charge.id, limit: 100 });
+  const rows = [];
+  for (const refund of [...refunds].sort((a, b) => a.created - b.created)) {
+    if (refund.status === "failed" || refund.status === "canceled") continue;
+    if (carriedOver >= refund.amount) {
+      carriedOver -= refund.amount;
+      continue;
+    }
+    if (known.has(refund.id)) continue;
+    rows.push({
+      invoice_id: invoiceId,
+      client_id: invoice.client_id,
+      amount: refund.amount / 100,
+      stripe_refund_id: refund.id,
+      refunded_on: new Date(refund.created * 1000).toISOString().slice(0, 10),
+    });
+  }
+  if (rows.length === 0) return;
+  const { error } = await admin.from("invoice_refunds").upsert(rows, { onConflict: "stripe_refund_id", ignoreDuplicates: true });
+  if (error) throw error;
+}
+
+async function recordRefund(admin: SupabaseClient, stripe: Stripe, charge: Stripe.Charge) {
+  const invoice = await findInvoiceByPaymentIntent(admin, idOf(charge.payment_intent));
+  if (!invoice) return;
+  await recordLedgerRefunds(admin, stripe, invoice.id, charge);
+  const full = charge.amount_refunded >= charge.amount;
+  const refunded = await setPaymentState(admin, invoice.id, full ? "refunded" : "partially_refunded", {
+    fields: { amount_refunded: charge.amount_refunded / 100 },
+  });
+  await notifyFoundersOf(
+    admin,
+    refunded,
+    (name) =>
+      `${name}'s payment of $${Number(refunded?.amount).toLocaleString()} was ${full ? "refunded in full" : `partly refunded ($${(charge.amount_refunded / 100).toLocaleString()})`}`
+  );
+}
+
+async function recordDispute(admin: SupabaseClient, dispute: Stripe.Dispute) {
+  const invoice = await findInvoiceByPaymentIntent(admin, idOf(dispute.payment_intent));
+  if (!invoice) return;
+  const disputed = await setPaymentState(admin, invoice.id, "disputed");
+  await notifyFoundersOf(
+    admin,
+    disputed,
+    (name) =>
+      `${name} disputed a payment of $${(dispute.amount / 100).toLocaleString()} (${dispute.reason.replace(/_/g, " ")}) — respond in Stripe before the deadline`
+  );
+}
+
+async function handleEvent(admin: SupabaseClient, stripe: Stripe, event: Stripe.Event) {
+  switch (event.type) {
+    case "checkout.session.completed":
+    case "checkout.session.async_payment_succeeded": {
+      const session = event.data.object;
+      if (session.mode === "subscription") await linkRetainerSubscription(admin, session);
+      else await recordCheckoutPayment(admin, session);
+      return;
+    }
+    case "checkout.session.async_payment_failed":
+      await failBankPayment(admin, event.data.object);
+      return;
+    case "charge.refunded":
+      await recordRefund(admin, stripe, event.data.object);
+      return;
+    case "charge.dispute.created":
+      await recordDispute(admin, event.data.object);
+      return;
+    case "invoice.paid":
+      await recordRetainerRenewal(admin, stripe, event.data.object);
+      return;
+    case "customer.subscription.deleted":
+      await endRetainerForSubscription(admin, event.data.object);
+      return;
+  }
+}
+
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== "POST") {
     res.status(405).json({ error: "Method not allowed" });
@@ -47,19 +449,28 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return;
   }
 
-  if (event.type === "checkout.session.completed") {
-    const session = event.data.object as Stripe.Checkout.Session;
-    const installmentId = session.metadata?.installment_id;
-    const invoiceId = session.metadata?.invoice_id;
-    const paymentIntentId = typeof session.payment_intent === "string" ? session.payment_intent : session.payment_intent?.id;
-
-    if (installmentId && invoiceId) {
-      const admin = getAdminClient();
-      await admin.from("invoices").update({ status: "paid", stripe_payment_intent_id: paymentIntentId ?? null }).eq("id", invoiceId);
-      await admin.from("payment_installments").update({ status: "paid" }).eq("id", installmentId);
-    } else {
-      console.error("checkout.session.completed missing installment_id/invoice_id metadata", session.id);
+  // Claimed before processing, so a redelivery arriving mid-way is turned
+  // away rather than processed twice; released again if processing fails,
+  // so Stripe's retry gets a real second attempt.
+  const admin = getAdminClient();
+  const { error: claimError } = await admin.from("stripe_webhook_events").insert({ id: event.id, type: event.type });
+  if (claimError) {
+    if (claimError.code === "23505") {
+      res.status(200).json({ received: true, duplicate: true });
+      return;
     }
+    console.error("Error recording Stripe webhook event:", claimError);
+    res.status(500).json({ error: "Couldn't record this event" });
+    return;
+  }
+
+  try {
+    await handleEvent(admin, stripe, event);
+  } catch (err) {
+    console.error(`Stripe webhook ${event.type} (${event.id}) failed:`, err);
+    await admin.from("stripe_webhook_events").delete().eq("id", event.id);
+    res.status(500).json({ error: "Webhook processing failed" });
+    return;
   }
 
   res.status(200).json({ received: true });
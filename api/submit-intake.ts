@@ -1,5 +1,6 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { createClient } from "@supabase/supabase-js";
+import { runTrigger } from "./_lib/automationRuntime";
 
 // Public endpoint — no session, no auth header. This is intentional: the
 // intake wizard is meant for anonymous visitors. It's still safe because
@@ -143,5 +144,20 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // submission over the response-log write.
   }
 
+  // Automation: lead created, through the Automation Web runtime. Unlike
+  // submit-lead.ts, intake creates a real `clients` row (stage 'lead'), so
+  // the chain gets a client -- and its recommended track -- to work with.
+  // Best-effort, same as the response-log write above.
+  try {
+    await runTrigger(admin, company.id, "lead_created", {
+      companyId: company.id,
+      clientId: client.id,
+      clientName: client.name,
+      message: `New lead from intake: ${client.name}`,
+    });
+  } catch (automationError) {
+    console.error("Lead-created automation failed (non-fatal):", automationError);
+  }
+
   res.status(200).json({ ok: true });
 }
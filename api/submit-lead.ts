@@ -1,5 +1,6 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { createClient } from "@supabase/supabase-js";
+import { runTrigger } from "./_lib/automationRuntime";
 
 // Public endpoint — no session, no auth header, same pattern as
 // submit-intake.ts. Anonymous visitors on the public marketing site
@@ -39,20 +40,37 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   const admin = createClient(url, serviceRoleKey);
 
-  const { error } = await admin.from("leads").insert({
-    company_id: BACKSTAGE_COMPANY_ID,
-    name: name.trim(),
-    email: email.trim(),
-    message: message?.trim() || null,
-    source: source || "public_site",
-    status: "new",
-  });
+  const { data: lead, error } = await admin
+    .from("leads")
+    .insert({
+      company_id: BACKSTAGE_COMPANY_ID,
+      name: name.trim(),
+      email: email.trim(),
+      message: message?.trim() || null,
+      source: source || "public_site",
+      status: "new",
+    })
+    .select("id")
+    .single();
 
-  if (error) {
+  if (error || !lead) {
     console.error("Error inserting lead:", error);
     res.status(500).json({ error: "Something went wrong submitting your info — please try again." });
     return;
   }
 
+  // Automation: lead created, through the Automation Web runtime. No
+  // clientId -- a `leads` row isn't a client yet. Best-effort: the lead
+  // itself was saved.
+  try {
+    await runTrigger(admin, BACKSTAGE_COMPANY_ID, "lead_created", {
+      companyId: BACKSTAGE_COMPANY_ID,
+      leadId: lead.id,
+      message: `New lead from the website: ${name.trim()}`,
+    });
+  } catch (automationError) {
+    console.error("Lead-created automation failed (non-fatal):", automationError);
+  }
+
   res.status(200).json({ ok: true });
 }
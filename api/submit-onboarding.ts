@@ -7,6 +7,7 @@
 // client's browser never writes to `projects`/`tasks` directly.
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { getRequestClientUser, getAdminClient, UnauthorizedError } from "./_lib/supabaseServer";
+import { runTrigger } from "./_lib/automationRuntime";
 
 interface OnboardingTemplateStructure {
   questions: { key: string; label: string; kind: string }[];
@@ -50,7 +51,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   const { data: project, error: projectError } = await admin
     .from("projects")
-    .select("id, client_id, company_id, name, onboarding_completed_at")
+    .select("id, client_id, company_id, name, onboarding_completed_at, clients(name)")
     .eq("id", project_id)
     .maybeSingle();
 
@@ -112,5 +113,21 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     );
   }
 
+  // Automation: onboarding submitted, through the Automation Web runtime
+  // -- on top of, not instead of, the template's task list above.
+  // Best-effort: the answers are already saved.
+  try {
+    const clientName = (project as any).clients?.name ?? "A client";
+    await runTrigger(admin, project.company_id, "onboarding_submitted", {
+      companyId: project.company_id,
+      clientId,
+      clientName,
+      projectId: project.id,
+      message: `${clientName} submitted onboarding for "${project.name}"`,
+    });
+  } catch (automationError) {
+    console.error("Onboarding-submitted automation failed (non-fatal):", automationError);
+  }
+
   res.status(200).json({ ok: true });
 }
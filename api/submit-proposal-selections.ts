@@ -7,8 +7,13 @@
 // endpoint is the trust boundary:
 //   - verifies the caller's session maps to a real client_users row
 //   - confirms the target document actually belongs to THAT client
-//   - re-validates every submitted selection against the authored template
-//     bounds (never trusts client-sent prices or quantities above default)
+//   - re-validates every submitted selection against the authored bounds
+//     of the proposal's latest revision (never trusts client-sent prices, or
+//     quantities outside the authored default/max_quantity bounds), and
+//     refuses to accept any other revision
+//   - re-matches the promo code against proposal_promo_codes on every
+//     call, so the only discounts that ever apply are ones the team authored
+//   - refuses anything but a decline once the proposal has expired
 //   - never touches field_values.authored, under any action or payload
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { getRequestClientUser, getAdminClient, UnauthorizedError } from "./_lib/supabaseServer";
@@ -16,15 +21,42 @@ import {
   computeDocumentTotals,
   validateSelections,
   getPaymentRules,
+  getRecurringBilling,
+  getAdjustments,
   buildInstallments,
+  normalizePromoCode,
   type TemplateSection,
   type Selections,
+  type TaxRate,
 } from "./_lib/proposalEngine";
 import { runTrigger } from "./_lib/automationRuntime";
 
 interface FieldValues {
   authored: Record<string, unknown>;
   selections: Selections;
+  promo_code?: string | null;
+  unlocked_adjustments?: string[];
+  // The company's rates at the moment of acceptance, so an accepted
+  // proposal's totals don't move if the rates change later.
+  tax_rates?: TaxRate[];
+}
+
+// The promo-code adjustments in this template that `code` unlocks. Empty
+// when the code matches nothing -- or only matches adjustments the team has
+// since removed or stopped gating.
+async function unlockedByCode(
+  admin: ReturnType<typeof getAdminClient>,
+  templateId: string,
+  structure: TemplateSection[],
+  code: string
+): Promise<string[]> {
+  const { data } = await admin
+    .from("proposal_promo_codes")
+    .select("adjustment_key")
+    .eq("template_id", templateId)
+    .eq("code", code);
+  const gated = new Set(getAdjustments(structure).filter((a) => a.requires_promo_code).map((a) => a.key));
+  return (data ?? []).map((row) => row.adjustment_key as string).filter((key) => gated.has(key));
 }
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -47,10 +79,20 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   const body = req.body || {};
-  const { generated_document_id, action, selections: rawSelections } = body as {
+  const {
+    generated_document_id,
+    action,
+    selections: rawSelections,
+    promo_code: rawPromoCode,
+    revision_number: revisionNumber,
+  } = body as {
     generated_document_id?: string;
     action?: "save" | "accept" | "decline";
     selections?: unknown;
+    // Absent keeps whatever code was applied before; "" or null removes it.
+    promo_code?: unknown;
+    // The proposal_revisions number the client was looking at.
+    revision_number?: unknown;
   };
 
   if (!generated_document_id || typeof generated_document_id !== "string") {
@@ -90,7 +132,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   const { data: template, error: templateError } = await admin
     .from("document_templates")
-    .select("structure")
+    .select("structure, company_id")
     .eq("id", doc.template_id)
     .single();
 
@@ -99,9 +141,89 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return;
   }
 
-  const structure = template.structure as TemplateSection[];
+  const { data: proposal, error: proposalError } = await admin
+    .from("proposals")
+    .select("id, event_date, status, expires_at")
+    .eq("generated_document_id", doc.id)
+    .maybeSingle();
+
+  // An expired proposal's prices may no longer stand, so it can't be
+  // accepted -- or adjusted, since that only leads to accepting. The cron
+  // flips the status once a day, so the date itself is checked too.
+  // Declining is still fine.
+  const expired =
+    proposal && (proposal.status === "expired" || (proposal.expires_at !== null && new Date(proposal.expires_at) <= new Date()));
+  if (expired && action !== "decline") {
+    res.status(409).json({ error: "This proposal has expired — contact your florist if you'd still like to go ahead" });
+    return;
+  }
+
+  // A sent proposal is priced from its latest revision (migration 0044),
+  // never the template's live structure -- the team may have changed the
+  // template since. Only a draft, or one accepted before revisions
+  // existed, has none.
+  const { data: latestRevision } = proposal
+    ? await admin
+        .from("proposal_revisions")
+        .select("revision_number, structure")
+        .eq("proposal_id", proposal.id)
+        .order("revision_number", { ascending: false })
+        .limit(1)
+        .maybeSingle()
+    : { data: null };
+
+  // Selections made against an older revision may name items the latest
+  // one dropped, and accepting it would agree to an offer that's been
+  // withdrawn -- so the client is sent back to look at the latest first.
+  // Declining needs no particular version.
+  if (latestRevision && action !== "decline" && revisionNumber !== latestRevision.revision_number) {
+    res.status(409).json({
+      error: `This proposal has been updated to version ${latestRevision.revision_number} — please review the latest version before continuing`,
+      revision_number: latestRevision.revision_number,
+    });
+    return;
+  }
+
+  const structure = (latestRevision?.structure ?? template.structure) as TemplateSection[];
+
+  const { data: rateRows } = await admin
+    .from("company_tax_rates")
+    .select("name, rate")
+    .eq("company_id", template.company_id)
+    .eq("active", true)
+    .order("created_at", { ascending: true });
+  const taxRates: TaxRate[] = (rateRows ?? []).map((r) => ({ name: r.name, rate: Number(r.rate) }));
   const fieldValues = (doc.field_values ?? { authored: {}, selections: {} }) as FieldValues;
 
+  if (action === "decline") {
+    // generated_documents' status enum has no "declined" value (it tracks
+    // draft/sent/viewed/finalized) — "declined" is a property of the
+    // proposal itself, so it lives on the proposals row. We still persist
+    // the client's final selections for the record, but leave the document
+    // unlocked/status untouched in case the team wants to revive it.
+    // Declining needs no particular version, so selections made against an
+    // older one are only kept if they still fit the latest -- a client on a
+    // stale tab can always decline.
+    const declined = validateSelections(structure, rawSelections ?? fieldValues.selections);
+    if (declined.ok === true) {
+      const { error: updateError } = await admin
+        .from("generated_documents")
+        .update({ field_values: { ...fieldValues, selections: declined.selections } })
+        .eq("id", doc.id);
+
+      if (updateError) {
+        console.error("Error declining proposal:", updateError);
+        res.status(500).json({ error: "Failed to decline the proposal" });
+        return;
+      }
+    }
+
+    await admin.from("proposals").update({ status: "declined" }).eq("generated_document_id", doc.id);
+
+    res.status(200).json({ ok: true });
+    return;
+  }
+
   const validation = validateSelections(structure, rawSelections ?? fieldValues.selections);
   if (validation.ok === false) {
     res.status(400).json({ error: validation.error });
@@ -109,11 +231,30 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
   const safeSelections = validation.selections;
 
+  // A newly entered code has to match or the request fails, so the client
+  // knows; a previously applied one is re-checked quietly and simply stops
+  // applying if the team has since changed or removed it.
+  let promoCode: string | null = null;
+  let unlocked: string[] = [];
+  if (rawPromoCode !== undefined && rawPromoCode !== null && rawPromoCode !== "") {
+    promoCode = normalizePromoCode(rawPromoCode);
+    unlocked = promoCode ? await unlockedByCode(admin, doc.template_id, structure, promoCode) : [];
+    if (unlocked.length === 0) {
+      res.status(400).json({ error: "That promo code isn't valid for this proposal" });
+      return;
+    }
+  } else if (rawPromoCode === undefined && fieldValues.promo_code) {
+    unlocked = await unlockedByCode(admin, doc.template_id, structure, fieldValues.promo_code);
+    promoCode = unlocked.length > 0 ? fieldValues.promo_code : null;
+  }
+
   // field_values.authored is never read from the request body — it is
   // carried forward untouched from whatever the team last set it to.
   const nextFieldValues: FieldValues = {
     authored: fieldValues.authored ?? {},
     selections: safeSelections,
+    promo_code: promoCode,
+    unlocked_adjustments: unlocked,
   };
 
   if (action === "save") {
@@ -131,53 +272,27 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return;
     }
 
-    const totals = computeDocumentTotals(structure, safeSelections);
-    res.status(200).json({ ok: true, grand_total: totals.grand_total });
-    return;
-  }
-
-  if (action === "decline") {
-    // generated_documents' status enum has no "declined" value (it tracks
-    // draft/sent/viewed/finalized) — "declined" is a property of the
-    // proposal itself, so it lives on the proposals row. We still persist
-    // the client's final selections for the record, but leave the document
-    // unlocked/status untouched in case the team wants to revive it.
-    const { error: updateError } = await admin
-      .from("generated_documents")
-      .update({ field_values: nextFieldValues })
-      .eq("id", doc.id);
-
-    if (updateError) {
-      console.error("Error declining proposal:", updateError);
-      res.status(500).json({ error: "Failed to decline the proposal" });
-      return;
-    }
-
-    await admin.from("proposals").update({ status: "declined" }).eq("generated_document_id", doc.id);
-
-    res.status(200).json({ ok: true });
+    const totals = computeDocumentTotals(structure, safeSelections, { unlockedAdjustments: unlocked, taxRates });
+    res.status(200).json({ ok: true, grand_total: totals.grand_total, unlocked_adjustments: unlocked });
     return;
   }
 
   // action === "accept" — the only path that creates money-moving records.
-  const { data: proposal, error: proposalError } = await admin
-    .from("proposals")
-    .select("id, event_date")
-    .eq("generated_document_id", doc.id)
-    .maybeSingle();
-
   if (proposalError || !proposal) {
     res.status(500).json({ error: "Could not find the linked proposal record" });
     return;
   }
-  if (!proposal.event_date) {
+  // A retainer bills from the day it's accepted, so it has no use for an
+  // event date.
+  const recurring = getRecurringBilling(structure);
+  if (!recurring && !proposal.event_date) {
     res.status(400).json({ error: "This proposal has no event date set yet — contact your florist before accepting" });
     return;
   }
 
-  const totals = computeDocumentTotals(structure, safeSelections);
+  const totals = computeDocumentTotals(structure, safeSelections, { unlockedAdjustments: unlocked, taxRates });
   const rules = getPaymentRules(structure);
-  if (rules.length === 0) {
+  if (!recurring && rules.length === 0) {
     res.status(500).json({ error: "This proposal template has no payment schedule configured" });
     return;
   }
@@ -187,11 +302,23 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   const today = new Date().toISOString().slice(0, 10);
-  const installments = buildInstallments(rules, totals.grand_total, proposal.event_date, today);
+  const installments = recurring ? [] : buildInstallments(rules, totals.grand_total, proposal.event_date, today, totals.tax_total);
 
+  // For a retainer (migration 0046), the schedule's amounts are per cycle.
   const { data: schedule, error: scheduleError } = await admin
     .from("payment_schedules")
-    .insert({ proposal_id: proposal.id, client_id: clientId, total_amount: totals.grand_total })
+    .insert({
+      proposal_id: proposal.id,
+      client_id: clientId,
+      total_amount: totals.grand_total,
+      tax_amount: totals.tax_total,
+      ...(recurring && {
+        billing_interval: recurring.interval,
+        billing_cycles: recurring.cycles,
+        billing_anchor_date: today,
+        next_billing_date: today,
+      }),
+    })
     .select("id")
     .single();
 
@@ -201,17 +328,21 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return;
   }
 
-  const { error: installmentsError } = await admin.from("payment_installments").insert(
-    installments.map((inst) => ({
-      payment_schedule_id: schedule.id,
-      sequence_number: inst.sequence_number,
-      amount: inst.amount,
-      due_rule_type: inst.due_rule_type,
-      due_rule_offset_days: inst.due_rule_offset_days,
-      due_date: inst.due_date,
-      status: "pending",
-    }))
-  );
+  // The first cycle is due on acceptance; the cron issues the rest.
+  const { error: installmentsError } = recurring
+    ? await admin.rpc("issue_retainer_cycle", { p_schedule_id: schedule.id })
+    : await admin.from("payment_installments").insert(
+        installments.map((inst) => ({
+          payment_schedule_id: schedule.id,
+          sequence_number: inst.sequence_number,
+          amount: inst.amount,
+          tax_amount: inst.tax_amount,
+          due_rule_type: inst.due_rule_type,
+          due_rule_offset_days: inst.due_rule_offset_days,
+          due_date: inst.due_date,
+          status: "pending",
+        }))
+      );
 
   if (installmentsError) {
     console.error("Error creating payment installments:", installmentsError);
@@ -224,7 +355,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   const { error: acceptError } = await admin
     .from("generated_documents")
-    .update({ field_values: nextFieldValues, status: "finalized", edit_locked_at: new Date().toISOString() })
+    .update({ field_values: { ...nextFieldValues, tax_rates: taxRates }, status: "finalized", edit_locked_at: new Date().toISOString() })
     .eq("id", doc.id);
 
   if (acceptError) {
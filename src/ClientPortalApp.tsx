@@ -10,19 +10,35 @@ import {
   fetchProposalsForClient,
   fetchPaymentScheduleForProposal,
   fetchComments,
+  fetchActiveTaxRates,
+  fetchProposalRevisions,
   type ProposalWithDocument,
+  type ProposalRevision,
   type DocumentTemplate,
   type PaymentInstallment,
+  type PaymentSchedule,
   type Deliverable,
   type Comment,
 } from "./useDatabase";
 import {
   computeDocumentTotals,
+  getAdjustments,
   getDesignBriefSection,
-  getLineItemSections,
+  getPricedSections,
+  getAllLineItems,
   clampSelection,
+  clampTierSelection,
+  quantityCeiling,
+  tierSubtotal,
+  diffRevisionItems,
+  describeItemChange,
+  getRecurringBilling,
+  describeRecurringBilling,
   type Selections,
+  type TaxRate,
+  type LineItem,
 } from "../api/_lib/proposalEngine";
+import type { PdfDocumentKind } from "../api/_lib/documentPdf";
 
 const BRAND = {
   forestGreen: "#123D2C",
@@ -31,6 +47,15 @@ const BRAND = {
   sagePill: "#DCEEDA",
 };
 
+// Refunded and disputed installments are settled offline, not re-paid.
+const PAYABLE_INSTALLMENT_STATUSES: PaymentInstallment["status"][] = ["pending", "invoiced", "partially_paid", "overdue", "failed"];
+
+// What's been paid so far, including by check or transfer; Pay Now charges
+// the rest.
+function amountPaid(inst: PaymentInstallment): number {
+  return (inst.installment_payments ?? []).reduce((sum, p) => sum + Number(p.amount), 0);
+}
+
 interface PortalClient {
   id: string;
   name: string;
@@ -44,6 +69,8 @@ interface PortalProject {
   target_delivery_date: string | null;
   company_id: string | null;
   onboarding_completed_at: string | null;
+  // Set by a request_testimonial automation node with its own prompt.
+  testimonial_prompt: string | null;
 }
 
 interface OnboardingQuestion {
@@ -62,8 +89,11 @@ interface PortalTask {
 
 interface PortalInvoice {
   id: string;
+  invoice_number: string | null;
+  // Opens the invoice at /invoices/<share_token>, no login needed.
+  share_token: string;
   amount: number;
-  status: "unpaid" | "paid" | "overdue";
+  status: "unpaid" | "partially_paid" | "paid" | "overdue" | "failed" | "refunded" | "partially_refunded" | "disputed";
   created_at: string;
 }
 
@@ -96,6 +126,7 @@ const PROPOSAL_STATUS_LABELS: Record<string, string> = {
   viewed: "In progress",
   accepted: "Accepted",
   declined: "Declined",
+  expired: "Expired",
 };
 
 const STAGE_LABELS: Record<string, string> = {
@@ -148,7 +179,7 @@ export function ClientPortalApp() {
 
       const { data: projects } = await supabase
         .from("projects")
-        .select("id, name, status, target_delivery_date, company_id, onboarding_completed_at")
+        .select("id, name, status, target_delivery_date, company_id, onboarding_completed_at, testimonial_prompt")
         .eq("client_id", mapping.client_id)
         .order("created_at", { ascending: false });
 
@@ -175,7 +206,7 @@ export function ClientPortalApp() {
 
       const { data: invoiceRows } = await supabase
         .from("invoices")
-        .select("id, amount, status, created_at")
+        .select("id, invoice_number, share_token, amount, status, created_at")
         .eq("client_id", mapping.client_id)
         .order("created_at", { ascending: false });
 
@@ -323,7 +354,12 @@ export function ClientPortalApp() {
         )}
 
         {hasCompletedProject && (
-          <OffboardingCard clientName={client.name} hasTestimonial={hasTestimonial} onTestimonialSubmitted={refetchProposals} />
+          <OffboardingCard
+            clientName={client.name}
+            testimonialPrompt={projects.find((p) => p.status === "completed" && p.testimonial_prompt)?.testimonial_prompt ?? null}
+            hasTestimonial={hasTestimonial}
+            onTestimonialSubmitted={refetchProposals}
+          />
         )}
 
         {(() => {
@@ -372,19 +408,26 @@ export function ClientPortalApp() {
                 >
                   <div>
                     <p className="text-sm font-medium text-neutral-700">${inv.amount.toLocaleString()}</p>
-                    <p className="text-xs text-neutral-400">{new Date(inv.created_at).toLocaleDateString()}</p>
+                    <p className="text-xs text-neutral-400">
+                      {inv.invoice_number ? `${inv.invoice_number} · ` : ""}
+                      {new Date(inv.created_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <InvoiceShareLink token={inv.share_token} />
+                    <PdfDownloadButton kind="invoice" id={inv.id} label="Download" />
+                    <span
+                      className={`text-xs px-2 py-1 rounded-full font-medium capitalize ${
+                        inv.status === "paid"
+                          ? "bg-green-100 text-green-700"
+                          : inv.status === "overdue" || inv.status === "failed"
+                          ? "bg-red-100 text-red-700"
+                          : "bg-neutral-200 text-neutral-600"
+                      }`}
+                    >
+                      {inv.status.replace("_", " ")}
+                    </span>
                   </div>
-                  <span
-                    className={`text-xs px-2 py-1 rounded-full font-medium capitalize ${
-                      inv.status === "paid"
-                        ? "bg-green-100 text-green-700"
-                        : inv.status === "overdue"
-                        ? "bg-red-100 text-red-700"
-                        : "bg-neutral-200 text-neutral-600"
-                    }`}
-                  >
-                    {inv.status}
-                  </span>
                 </div>
               ))}
             </div>
@@ -405,9 +448,19 @@ function ProposalCard({
   const doc = proposal.generated_documents;
   const [template, setTemplate] = useState<DocumentTemplate | null>(null);
   const [selections, setSelections] = useState<Selections>(doc?.field_values.selections || {});
+  // Set only from what the server matched -- see submit-proposal-selections.
+  const [unlocked, setUnlocked] = useState<string[]>(doc?.field_values.unlocked_adjustments || []);
+  const [promoInput, setPromoInput] = useState("");
+  const [taxRates, setTaxRates] = useState<TaxRate[]>(doc?.field_values.tax_rates || []);
+  const [revisions, setRevisions] = useState<ProposalRevision[]>([]);
+  const [showChanges, setShowChanges] = useState(false);
   const [installments, setInstallments] = useState<PaymentInstallment[]>([]);
+  const [schedule, setSchedule] = useState<PaymentSchedule | null>(null);
   const [agreement, setAgreement] = useState<PortalAgreement | null>(null);
+  // An installment id, or "subscription" while starting automatic payments.
   const [payingId, setPayingId] = useState<string | null>(null);
+  // Set when the client followed a payment reminder email's link.
+  const [linkedInstallmentId] = useState(() => new URLSearchParams(window.location.search).get("pay"));
   const [saving, setSaving] = useState<"save" | "accept" | "decline" | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [savedMessage, setSavedMessage] = useState<string | null>(null);
@@ -424,26 +477,44 @@ function ProposalCard({
   useEffect(() => {
     if (!doc) return;
     setSelections(doc.field_values.selections || {});
+    setUnlocked(doc.field_values.unlocked_adjustments || []);
     supabase
       .from("document_templates")
       .select("*")
       .eq("id", doc.template_id)
       .single()
-      .then(({ data }) => setTemplate(data as DocumentTemplate | null));
-  }, [doc?.id, doc?.template_id]);
+      .then(({ data }) => {
+        setTemplate(data as DocumentTemplate | null);
+        // An accepted proposal keeps the rates it was accepted at.
+        if (doc.field_values.tax_rates) setTaxRates(doc.field_values.tax_rates);
+        else if (data) fetchActiveTaxRates(data.company_id).then(setTaxRates);
+      });
+    fetchProposalRevisions(proposal.id).then(setRevisions);
+    // A new revision replaces the selections too (dropping any for items
+    // it no longer has), so they're reloaded along with it.
+  }, [doc?.id, doc?.template_id, proposal.current_revision]);
 
   useEffect(() => {
     if (proposal.status !== "accepted") {
+      setSchedule(null);
       setInstallments([]);
       setAgreement(null);
       return;
     }
     fetchPaymentScheduleForProposal(proposal.id).then((result) => {
+      setSchedule(result?.schedule ?? null);
       setInstallments(result?.installments || []);
     });
     refetchAgreement();
   }, [proposal.id, proposal.status]);
 
+  useEffect(() => {
+    if (!linkedInstallmentId || !installments.some((inst) => inst.id === linkedInstallmentId)) return;
+    document.getElementById(`installment-${linkedInstallmentId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [installments, linkedInstallmentId]);
+
+  // Either pays one installment, or (for a retainer) starts a Stripe
+  // subscription that pays every cycle from here on.
   async function handlePayNow(installmentId: string) {
     setPayingId(installmentId);
     setError(null);
@@ -462,7 +533,9 @@ function ProposalCard({
           "Content-Type": "application/json",
           Authorization: `Bearer ${session.access_token}`,
         },
-        body: JSON.stringify({ installment_id: installmentId }),
+        body: JSON.stringify(
+          installmentId === "subscription" && schedule ? { schedule_id: schedule.id } : { installment_id: installmentId }
+        ),
       });
       const data = await res.json().catch(() => ({}));
       if (!res.ok || !data.url) {
@@ -477,6 +550,10 @@ function ProposalCard({
     }
   }
 
+  // A retainer on a Stripe subscription: its invoices are charged
+  // automatically, so there's nothing to pay by hand.
+  const autoPay = !!schedule?.stripe_subscription_id && schedule.status !== "cancelled";
+
   if (!doc || !template) {
     return (
       <div className="rounded-3xl bg-white border border-neutral-200/70 shadow-sm p-6 text-neutral-400 text-sm">
@@ -485,23 +562,95 @@ function ProposalCard({
     );
   }
 
-  const locked = proposal.status === "accepted" || proposal.status === "declined";
-  const designBrief = getDesignBriefSection(template.structure);
+  // The daily cron marks a proposal expired; until it runs, the date says so.
+  const expired =
+    proposal.status === "expired" || (["sent", "viewed"].includes(proposal.status) && !!proposal.expires_at && new Date(proposal.expires_at) <= new Date());
+  const locked = proposal.status === "accepted" || proposal.status === "declined" || expired;
+  // A sent proposal is priced from its latest revision -- the template may
+  // have moved on since (see api/submit-proposal-selections.ts).
+  const latest = revisions.length > 0 ? revisions[revisions.length - 1] : null;
+  const structure = latest?.structure ?? template.structure;
+  const designBrief = getDesignBriefSection(structure);
   const authored = (doc.field_values.authored || {}) as Record<string, unknown>;
-  const totals = computeDocumentTotals(template.structure, selections);
+  const totals = computeDocumentTotals(structure, selections, { unlockedAdjustments: unlocked, taxRates });
+  const recurring = getRecurringBilling(structure);
+  const hasPromoAdjustments = getAdjustments(structure).some((a) => a.requires_promo_code);
+  const appliedCode = unlocked.length > 0 ? doc.field_values.promo_code : null;
+  // Measured at the starting choices on both sides, so the client's own
+  // selections don't show up as a change.
+  const changesSinceFirst = latest && revisions.length > 1 ? diffRevisionItems(revisions[0].structure, latest.structure) : [];
+  const firstTotal = latest && revisions.length > 1 ? computeDocumentTotals(revisions[0].structure, {}, { taxRates }).grand_total : 0;
+  const latestTotal = latest && revisions.length > 1 ? computeDocumentTotals(latest.structure, {}, { taxRates }).grand_total : 0;
 
   function updateSelection(itemKey: string, raw: { included?: boolean; quantity?: number }) {
-    const section = getLineItemSections(template!.structure).find((s) =>
-      s.items.some((i) => i.key === itemKey)
-    );
-    const item = section?.items.find((i) => i.key === itemKey);
+    const item = getAllLineItems(structure).find((i) => i.key === itemKey);
     if (!item) return;
     const merged = { ...selections[itemKey], ...raw };
     const { included, quantity } = clampSelection(item, merged);
     setSelections((prev) => ({ ...prev, [itemKey]: { included, quantity } }));
   }
 
-  async function handleAction(action: "save" | "accept" | "decline") {
+  function selectTier(sectionKey: string, tierKey: string) {
+    setSelections((prev) => ({ ...prev, [sectionKey]: { tier: tierKey } }));
+  }
+
+  function renderItem(item: LineItem) {
+    const { included, quantity } = clampSelection(item, selections[item.key]);
+    const lineTotal = included ? item.unit_price * quantity : 0;
+    const ceiling = quantityCeiling(item);
+    // A required item's quantity is only offered when the team left room
+    // to go up (max_quantity); an optional one's whenever it's above one.
+    const adjustable = included && !locked && (item.is_optional ? ceiling > 1 : ceiling > item.default_quantity);
+    return (
+      <div
+        key={item.key}
+        className="flex items-start justify-between gap-4 rounded-2xl border border-neutral-200/70 p-3 bg-neutral-50"
+      >
+        <div className="flex items-start gap-3 flex-1">
+          {item.is_optional && !locked && (
+            <input
+              type="checkbox"
+              checked={included}
+              onChange={(e) => updateSelection(item.key, { included: e.target.checked })}
+              className="mt-1"
+            />
+          )}
+          <div>
+            <p className="text-sm font-medium text-neutral-700">{item.name}</p>
+            {item.description && (
+              <p className="text-xs text-neutral-400">{item.description}</p>
+            )}
+            {adjustable && (
+              <div className="flex items-center gap-2 mt-2">
+                <label className="text-xs text-neutral-400">Qty</label>
+                <input
+                  type="number"
+                  min={item.is_optional ? 0 : 1}
+                  max={ceiling}
+                  value={quantity}
+                  onChange={(e) =>
+                    updateSelection(item.key, { quantity: Number(e.target.value) })
+                  }
+                  className="w-16 rounded-lg border px-2 py-1 text-xs"
+                />
+                <span className="text-xs text-neutral-400">of {ceiling} max</span>
+              </div>
+            )}
+            {(locked || (!item.is_optional && !adjustable)) && (
+              <p className="text-xs text-neutral-400 mt-1">Qty: {quantity}</p>
+            )}
+          </div>
+        </div>
+        <p className="text-sm font-medium text-neutral-700 whitespace-nowrap">
+          ${lineTotal.toLocaleString()}
+        </p>
+      </div>
+    );
+  }
+
+  // `promoCode` is only sent when applying ("SPRING10") or removing ("") a
+  // code; left out, the server keeps whichever one was already applied.
+  async function handleAction(action: "save" | "accept" | "decline", promoCode?: string) {
     setSaving(action);
     setError(null);
     setSavedMessage(null);
@@ -520,14 +669,28 @@ function ProposalCard({
           "Content-Type": "application/json",
           Authorization: `Bearer ${session.access_token}`,
         },
-        body: JSON.stringify({ generated_document_id: doc.id, action, selections }),
+        body: JSON.stringify({
+          generated_document_id: doc.id,
+          action,
+          selections,
+          promo_code: promoCode,
+          revision_number: latest?.revision_number,
+        }),
       });
       const data = await res.json().catch(() => ({}));
       if (!res.ok) {
         setError(data.error || "Something went wrong — please try again.");
+        // A newer version was published while this one was open -- load it.
+        if (res.status === 409 && data.revision_number) onUpdated();
         return;
       }
-      if (action === "save") setSavedMessage("Your changes have been saved.");
+      if (Array.isArray(data.unlocked_adjustments)) setUnlocked(data.unlocked_adjustments);
+      if (promoCode) {
+        setPromoInput("");
+        setSavedMessage("Promo code applied.");
+      } else if (action === "save") {
+        setSavedMessage(promoCode === "" ? "Promo code removed." : "Your changes have been saved.");
+      }
       onUpdated();
     } catch {
       setError("Something went wrong — please try again.");
@@ -540,14 +703,52 @@ function ProposalCard({
     <div className="rounded-3xl bg-white border border-neutral-200/70 shadow-sm p-6 space-y-6">
       <div className="flex items-center justify-between">
         <h2 className="text-lg font-semibold">Your Floral Proposal</h2>
-        <span
-          className="text-xs px-3 py-1 rounded-full font-medium text-white"
-          style={{ backgroundColor: BRAND.ember }}
-        >
-          {PROPOSAL_STATUS_LABELS[proposal.status] || proposal.status}
-        </span>
+        <div className="flex items-center gap-3">
+          <PdfDownloadButton kind="proposal" id={proposal.id} label="Download PDF" />
+          <span
+            className="text-xs px-3 py-1 rounded-full font-medium text-white"
+            style={{ backgroundColor: BRAND.ember }}
+          >
+            {PROPOSAL_STATUS_LABELS[proposal.status] || proposal.status}
+          </span>
+        </div>
       </div>
 
+      {latest && revisions.length > 1 && (
+        <div className="rounded-2xl border border-neutral-200/70 p-3 bg-neutral-50">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm text-neutral-700">
+              Updated to version {latest.revision_number} on {new Date(latest.created_at).toLocaleDateString()}
+            </p>
+            <button
+              onClick={() => setShowChanges((v) => !v)}
+              className="text-xs font-medium hover:underline"
+              style={{ color: BRAND.forestGreen }}
+            >
+              {showChanges ? "Hide changes" : "What changed since v1"}
+            </button>
+          </div>
+          {showChanges && (
+            <div className="mt-2 space-y-1">
+              {changesSinceFirst.length === 0 && (
+                <p className="text-xs text-neutral-400">No items or prices have changed — only the details around them.</p>
+              )}
+              <ul className="text-xs text-neutral-600 list-disc pl-4 space-y-0.5">
+                {changesSinceFirst.map((c) => (
+                  <li key={c.key}>{describeItemChange(c)}</li>
+                ))}
+              </ul>
+              {firstTotal !== latestTotal && (
+                <p className="text-xs text-neutral-600">
+                  Starting total: ${firstTotal.toLocaleString()} → ${latestTotal.toLocaleString()} (
+                  {latestTotal > firstTotal ? "+" : "−"}${(Math.round(Math.abs(latestTotal - firstTotal) * 100) / 100).toLocaleString()})
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {designBrief && (
         <div className="space-y-3 border-b pb-6">
           <p className="text-sm font-semibold text-neutral-700">{designBrief.title}</p>
@@ -568,69 +769,113 @@ function ProposalCard({
       )}
 
       <div className="space-y-5">
-        {getLineItemSections(template.structure).map((section) => (
-          <div key={section.key}>
-            <p className="text-sm font-semibold text-neutral-700 mb-1">{section.name}</p>
-            {section.description && (
-              <p className="text-xs text-neutral-400 mb-2">{section.description}</p>
-            )}
-            <div className="space-y-2">
-              {section.items.map((item) => {
-                const { included, quantity } = clampSelection(item, selections[item.key]);
-                const lineTotal = included ? item.unit_price * quantity : 0;
-                return (
-                  <div
-                    key={item.key}
-                    className="flex items-start justify-between gap-4 rounded-2xl border border-neutral-200/70 p-3 bg-neutral-50"
-                  >
-                    <div className="flex items-start gap-3 flex-1">
-                      {item.is_optional && !locked && (
-                        <input
-                          type="checkbox"
-                          checked={included}
-                          onChange={(e) => updateSelection(item.key, { included: e.target.checked })}
-                          className="mt-1"
-                        />
-                      )}
-                      <div>
-                        <p className="text-sm font-medium text-neutral-700">{item.name}</p>
-                        {item.description && (
-                          <p className="text-xs text-neutral-400">{item.description}</p>
-                        )}
-                        {item.is_optional && included && !locked && item.default_quantity > 1 && (
-                          <div className="flex items-center gap-2 mt-2">
-                            <label className="text-xs text-neutral-400">Qty</label>
-                            <input
-                              type="number"
-                              min={0}
-                              max={item.default_quantity}
-                              value={quantity}
-                              onChange={(e) =>
-                                updateSelection(item.key, { quantity: Number(e.target.value) })
-                              }
-                              className="w-16 rounded-lg border px-2 py-1 text-xs"
-                            />
-                            <span className="text-xs text-neutral-400">of {item.default_quantity} max</span>
-                          </div>
-                        )}
-                        {(!item.is_optional || locked) && (
-                          <p className="text-xs text-neutral-400 mt-1">Qty: {quantity}</p>
-                        )}
-                      </div>
-                    </div>
-                    <p className="text-sm font-medium text-neutral-700 whitespace-nowrap">
-                      ${lineTotal.toLocaleString()}
-                    </p>
-                  </div>
-                );
-              })}
+        {getPricedSections(structure).map((section) => {
+          const tier = section.type === "package_tiers" ? clampTierSelection(section, selections[section.key]) : null;
+          return (
+            <div key={section.key}>
+              <p className="text-sm font-semibold text-neutral-700 mb-1">{section.name}</p>
+              {section.description && (
+                <p className="text-xs text-neutral-400 mb-2">{section.description}</p>
+              )}
+              {section.type === "package_tiers" && (
+                <div className="grid gap-2 sm:grid-cols-3 mb-3">
+                  {section.tiers.map((t) => {
+                    const chosen = t.key === tier?.key;
+                    const price = tierSubtotal(t, selections);
+                    return (
+                      <button
+                        key={t.key}
+                        onClick={() => selectTier(section.key, t.key)}
+                        disabled={locked}
+                        className={`text-left rounded-2xl border p-3 transition-colors ${
+                          chosen ? "bg-white" : "bg-neutral-50 hover:bg-white"
+                        } ${locked && !chosen ? "opacity-50" : ""}`}
+                        style={chosen ? { borderColor: BRAND.forestGreen, borderWidth: 2 } : undefined}
+                      >
+                        <p className="text-sm font-semibold text-neutral-700">{t.name}</p>
+                        {t.description && <p className="text-xs text-neutral-400 mt-0.5">{t.description}</p>}
+                        <p className="text-sm font-medium mt-2" style={{ color: BRAND.forestGreen }}>
+                          ${price.toLocaleString()}
+                        </p>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+              <div className="space-y-2">
+                {(section.type === "line_items" ? section.items : tier?.items ?? []).map(renderItem)}
+              </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
 
+      {(totals.adjustments.length > 0 || totals.tax_total > 0) && (
+        <div className="border-t pt-4 space-y-1">
+          <div className="flex items-center justify-between text-sm text-neutral-500">
+            <span>Subtotal</span>
+            <span>${totals.subtotal.toLocaleString()}</span>
+          </div>
+          {totals.adjustments.map((adj) => (
+            <div key={adj.key} className="flex items-center justify-between text-sm text-neutral-500">
+              <span>
+                {adj.label || "Discount"}
+                {adj.kind === "percent" ? ` — ${adj.value}% off` : ""}
+                {adj.scope_name ? ` ${adj.kind === "percent" ? "" : "— "}${adj.scope_name}` : ""}
+              </span>
+              <span>−${adj.amount.toLocaleString()}</span>
+            </div>
+          ))}
+          {totals.taxes.map((tax) => (
+            <div key={tax.name} className="flex items-center justify-between text-sm text-neutral-500">
+              <span>
+                {tax.name} ({tax.rate}%)
+              </span>
+              <span>${tax.amount.toLocaleString()}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {hasPromoAdjustments && !locked && (
+        <div className="flex flex-wrap items-center gap-2">
+          {appliedCode ? (
+            <>
+              <span className="text-sm text-neutral-600">
+                Promo code <span className="font-medium">{appliedCode}</span> applied
+              </span>
+              <button
+                onClick={() => handleAction("save", "")}
+                disabled={saving !== null}
+                className="text-xs font-medium text-neutral-400 hover:underline disabled:opacity-50"
+              >
+                Remove
+              </button>
+            </>
+          ) : (
+            <>
+              <input
+                value={promoInput}
+                onChange={(e) => setPromoInput(e.target.value)}
+                placeholder="Promo code"
+                className="w-40 rounded-full border px-3 py-1.5 text-sm uppercase"
+              />
+              <button
+                onClick={() => handleAction("save", promoInput)}
+                disabled={saving !== null || !promoInput.trim()}
+                className="rounded-full border px-3 py-1.5 text-sm font-medium hover:bg-neutral-50 disabled:opacity-50 transition-colors"
+              >
+                Apply
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
       <div className="flex items-center justify-between border-t pt-4">
-        <span className="text-sm font-medium text-neutral-700">Estimated Total</span>
+        <span className="text-sm font-medium text-neutral-700">
+          Estimated Total{recurring ? ` per ${recurring.interval === "quarter" ? "quarter" : "month"}` : ""}
+        </span>
         <span className="text-2xl font-semibold" style={{ color: BRAND.forestGreen }}>
           ${totals.grand_total.toLocaleString()}
         </span>
@@ -651,26 +896,68 @@ function ProposalCard({
 
           {installments.length > 0 && (
             <div>
-              <p className="text-sm font-semibold text-neutral-700 mb-2">Payment Schedule</p>
+              <p className="text-sm font-semibold text-neutral-700 mb-2">{schedule?.billing_interval ? "Your Retainer" : "Payment Schedule"}</p>
+              {schedule?.billing_interval && (
+                <div className="rounded-2xl border border-neutral-200/70 p-3 bg-neutral-50 mb-2 space-y-1">
+                  <p className="text-sm text-neutral-700">
+                    {describeRecurringBilling({ interval: schedule.billing_interval, cycles: schedule.billing_cycles }, schedule.total_amount)}
+                  </p>
+                  {schedule.status === "cancelled" ? (
+                    <p className="text-xs text-neutral-500">This retainer has ended.</p>
+                  ) : autoPay ? (
+                    <p className="text-xs text-neutral-500">Automatic payments are on — each invoice is charged to your card.</p>
+                  ) : (
+                    schedule.status === "active" && (
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="text-xs text-neutral-500">
+                          {schedule.next_billing_date
+                            ? `Next invoice ${new Date(schedule.next_billing_date + "T00:00:00").toLocaleDateString()}.`
+                            : ""}{" "}
+                          Pay each invoice below, or have them charged automatically.
+                        </p>
+                        <button
+                          onClick={() => handlePayNow("subscription")}
+                          disabled={payingId !== null}
+                          className="rounded-full px-3 py-1.5 text-xs font-medium text-white hover:opacity-90 disabled:opacity-50 transition-opacity whitespace-nowrap"
+                          style={{ backgroundColor: BRAND.forestGreen }}
+                        >
+                          {payingId === "subscription" ? "Redirecting…" : "Set Up Automatic Payments"}
+                        </button>
+                      </div>
+                    )
+                  )}
+                </div>
+              )}
               <div className="space-y-2">
                 {installments.map((inst) => (
                   <div
                     key={inst.id}
+                    id={`installment-${inst.id}`}
                     className="flex items-center justify-between rounded-2xl border border-neutral-200/70 p-3 bg-neutral-50"
+                    style={inst.id === linkedInstallmentId ? { boxShadow: `0 0 0 2px ${BRAND.ember}` } : undefined}
                   >
                     <p className="text-sm text-neutral-700">
                       ${inst.amount.toLocaleString()}{" "}
                       <span className="text-xs text-neutral-400">
-                        due {inst.due_date ? new Date(inst.due_date + "T00:00:00").toLocaleDateString() : "—"}
+                        {inst.tax_amount > 0 ? `incl. $${inst.tax_amount.toLocaleString()} tax · ` : ""}
+                        due{" "}
+                        {inst.due_date
+                          ? new Date(inst.due_date + "T00:00:00").toLocaleDateString()
+                          : inst.due_rule_type === "days_after_signing"
+                          ? `${inst.due_rule_offset_days ?? 0} days after you sign your agreement`
+                          : "—"}
+                        {amountPaid(inst) > 0 && amountPaid(inst) < inst.amount
+                          ? ` · $${amountPaid(inst).toLocaleString()} paid, $${(inst.amount - amountPaid(inst)).toLocaleString()} left`
+                          : ""}
                       </span>
                     </p>
                     <div className="flex items-center gap-2">
                       <span className="text-xs px-2 py-1 rounded-full bg-neutral-200 text-neutral-600 capitalize">
-                        {inst.status}
+                        {inst.status.replace("_", " ")}
                       </span>
                       {inst.status === "paid" ? (
                         <span className="text-xs text-green-700 font-medium">Paid</span>
-                      ) : (
+                      ) : autoPay || !PAYABLE_INSTALLMENT_STATUSES.includes(inst.status) ? null : (
                         <button
                           onClick={() => handlePayNow(inst.id)}
                           disabled={payingId !== null}
@@ -689,6 +976,16 @@ function ProposalCard({
         </div>
       )}
 
+      {expired && proposal.expires_at && (
+        <p className="text-sm text-neutral-500 border-t pt-4">
+          This proposal expired on {new Date(proposal.expires_at).toLocaleDateString()}. Get in touch if you'd still like to go
+          ahead — we can reopen it for you.
+        </p>
+      )}
+      {!locked && proposal.expires_at && (
+        <p className="text-sm text-neutral-500">This offer is open until {new Date(proposal.expires_at).toLocaleDateString()}.</p>
+      )}
+
       {error && <p className="text-sm text-red-600">{error}</p>}
       {savedMessage && <p className="text-sm text-green-600">{savedMessage}</p>}
 
@@ -1064,6 +1361,91 @@ function OnboardingForm({ project, onSubmitted }: { project: PortalProject; onSu
   );
 }
 
+// Fetches the PDF through respond.ts (which only renders this client's own
+// documents) and hands it to the browser as a download.
+function PdfDownloadButton({ kind, id, label }: { kind: PdfDocumentKind; id: string; label: string }) {
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleDownload() {
+    setDownloading(true);
+    setError(null);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      setError("Your session expired — please refresh the page.");
+      setDownloading(false);
+      return;
+    }
+    try {
+      const res = await fetch("/api/respond", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ type: "document_pdf", kind, id }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setError(data.error || "Couldn't download — please try again.");
+        return;
+      }
+      const filename = /filename="([^"]+)"/.exec(res.headers.get("Content-Disposition") || "")?.[1] || `${kind}.pdf`;
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      setError("Couldn't download — please try again.");
+    } finally {
+      setDownloading(false);
+    }
+  }
+
+  return (
+    <span className="inline-flex items-center gap-2">
+      <button
+        onClick={handleDownload}
+        disabled={downloading}
+        className="text-xs font-medium hover:underline disabled:opacity-50"
+        style={{ color: BRAND.forestGreen }}
+      >
+        {downloading ? "Preparing…" : label}
+      </button>
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </span>
+  );
+}
+
+// The invoice's own link -- stable, and it opens without logging in, so
+// it's the one to hand to a bookkeeper.
+function InvoiceShareLink({ token }: { token: string }) {
+  const [copied, setCopied] = useState(false);
+  const url = `${window.location.origin}/invoices/${token}`;
+
+  function handleCopy() {
+    navigator.clipboard.writeText(url).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    });
+  }
+
+  return (
+    <span className="inline-flex items-center gap-3">
+      <a href={url} target="_blank" rel="noreferrer" className="text-xs font-medium hover:underline" style={{ color: BRAND.forestGreen }}>
+        View
+      </a>
+      <button onClick={handleCopy} className="text-xs font-medium hover:underline" style={{ color: BRAND.forestGreen }}>
+        {copied ? "Copied!" : "Copy Link"}
+      </button>
+    </span>
+  );
+}
+
 function AgreementCard({ agreement, onSigned }: { agreement: PortalAgreement; onSigned: () => void }) {
   const [name, setName] = useState("");
   const [signing, setSigning] = useState(false);
@@ -1078,6 +1460,9 @@ function AgreementCard({ agreement, onSigned }: { agreement: PortalAgreement; on
         <p className="text-xs text-neutral-400 mt-0.5">
           {agreement.signed_at ? new Date(agreement.signed_at).toLocaleString() : ""}
         </p>
+        <div className="mt-1">
+          <PdfDownloadButton kind="agreement" id={agreement.id} label="Download signed copy" />
+        </div>
       </div>
     );
   }
@@ -1150,10 +1535,12 @@ function AgreementCard({ agreement, onSigned }: { agreement: PortalAgreement; on
 
 function OffboardingCard({
   clientName,
+  testimonialPrompt,
   hasTestimonial,
   onTestimonialSubmitted,
 }: {
   clientName: string;
+  testimonialPrompt: string | null;
   hasTestimonial: boolean;
   onTestimonialSubmitted: () => void;
 }) {
@@ -1236,6 +1623,9 @@ function OffboardingCard({
 
       <div className="border-t pt-4">
         <p className="text-sm font-semibold text-neutral-700 mb-2">Leave a testimonial</p>
+        {testimonialPrompt && !hasTestimonial && !testimonialSent && (
+          <p className="text-sm text-neutral-600 mb-2 whitespace-pre-line">{testimonialPrompt}</p>
+        )}
         {hasTestimonial || testimonialSent ? (
           <p className="text-sm text-neutral-600">Thank you for sharing your experience!</p>
         ) : (
@@ -5,6 +5,7 @@ import React, { useState, useEffect, useCallback } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { supabase } from "./supabase";
 import { runTrigger } from "../api/_lib/automationRuntime";
+import { buildCashflowForecast, type CashflowForecast } from "../api/_lib/cashflowForecast";
 import {
   useTasks,
   useProfile,
@@ -33,15 +34,29 @@ import {
   updateProject,
   type Project,
   useBrandKit,
+  fetchBrandKit,
   saveBrandKit,
   fetchDocumentTemplates,
   createTemplate,
   updateTemplate,
+  fetchPromoCodes,
+  savePromoCodes,
+  fetchTaxRates,
+  fetchActiveTaxRates,
+  createTaxRate,
+  updateTaxRate,
+  deleteTaxRate,
+  type CompanyTaxRate,
   deleteTemplate,
   createProposal,
   markProposalSent,
+  extendProposalExpiry,
+  fetchProposalRevisions,
+  publishProposalRevision,
+  type ProposalRevision,
   useProposals,
   fetchPaymentScheduleForProposal,
+  recordInstallmentPayment,
   fetchDeliverablesForProject,
   createDeliverable,
   markDeliverableDelivered,
@@ -88,8 +103,11 @@ import {
   type SafetyNetNudge,
   type DocumentTemplate,
   type PaymentInstallment,
+  type InstallmentPayment,
+  type PaymentSchedule,
   type ProposalWithDocument,
   type Company,
+  type BrandKit,
   type Deliverable,
   type Comment,
   type Lead,
@@ -99,16 +117,29 @@ import { AutomationWebPage } from "./features/automation-web/AutomationWebPage";
 import {
   computeDocumentTotals,
   getDesignBriefSection,
-  getLineItemSections,
+  getPricedSections,
+  diffRevisionItems,
+  describeItemChange,
+  pruneSelections,
+  getRecurringBilling,
+  describeRecurringBilling,
+  type RecurringBilling,
   type TemplateSection,
   type DesignBriefSection,
   type LineItemsSection,
+  type PackageTiersSection,
+  type PackageTier,
   type PaymentRulesSection,
   type ContractSection,
   type LineItem,
   type DesignBriefField,
   type PaymentRuleInstallment,
+  type AdjustmentsSection,
+  type Adjustment,
+  type TaxRate,
+  normalizePromoCode,
 } from "../api/_lib/proposalEngine";
+import type { PdfDocumentKind } from "../api/_lib/documentPdf";
 import { AssistantChat } from "./AssistantChat";
 
 /* ──────────────────────────────────────────────────────────────────
@@ -1421,6 +1452,8 @@ function ProjectModal({
         if (project.company_id) {
           await runTrigger(supabase, project.company_id, "project_completed", {
             companyId: project.company_id,
+            clientId: project.client_id,
+            projectId: project.id,
             message: `"${project.name}" was marked completed`,
           });
         }
@@ -1733,8 +1766,353 @@ const PROPOSAL_STATUS_LABELS: Record<string, string> = {
   viewed: "Viewed by client",
   accepted: "Accepted",
   declined: "Declined",
+  expired: "Expired",
 };
 
+// A proposal expires at the end of the day picked, in the founder's time.
+function endOfDayISO(date: string): string {
+  return new Date(`${date}T23:59:59`).toISOString();
+}
+
+// The versions a sent proposal has been through (migration 0044). While
+// the client can still act on it, a founder can publish the next one: the
+// template's structure as it stands now, with the design brief edited for
+// that version. The preview is measured against the version the client
+// has in front of them; the portal shows them the same against v1.
+function ProposalRevisionsPanel({
+  proposal,
+  template,
+  revisions,
+  taxRates,
+  role,
+  onPublished,
+}: {
+  proposal: ProposalWithDocument;
+  template: DocumentTemplate;
+  revisions: ProposalRevision[];
+  taxRates: TaxRate[];
+  role: Role;
+  onPublished: () => void;
+}) {
+  const [revising, setRevising] = useState(false);
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const [publishing, setPublishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const latest = revisions[revisions.length - 1];
+  const canRevise = isFounder(role) && ["sent", "viewed", "declined", "expired"].includes(proposal.status);
+  const designBrief = getDesignBriefSection(template.structure);
+  const textFields = designBrief?.fields.filter((f) => f.kind !== "image_list") ?? [];
+
+  function startRevising() {
+    setEdits(
+      Object.fromEntries(textFields.map((f) => [f.key, typeof latest.authored[f.key] === "string" ? (latest.authored[f.key] as string) : ""]))
+    );
+    setError(null);
+    setRevising(true);
+  }
+
+  async function handlePublish() {
+    setPublishing(true);
+    setError(null);
+    const result = await publishProposalRevision({
+      proposalId: proposal.id,
+      structure: template.structure,
+      authored: { ...latest.authored, ...edits },
+      selections: pruneSelections(template.structure, proposal.generated_documents?.field_values.selections || {}),
+      totals: computeDocumentTotals(template.structure, {}, { taxRates }),
+    });
+    setPublishing(false);
+    if (result.ok === false) {
+      setError(result.error || "Couldn't publish this version — please try again.");
+      return;
+    }
+    setRevising(false);
+    onPublished();
+  }
+
+  const changes = revising ? diffRevisionItems(latest.structure, template.structure) : [];
+  const totalBefore = revising ? computeDocumentTotals(latest.structure, {}, { taxRates }).grand_total : 0;
+  const totalAfter = revising ? computeDocumentTotals(template.structure, {}, { taxRates }).grand_total : 0;
+
+  return (
+    <div className="border-t pt-4">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-neutral-700">Versions</label>
+        {canRevise && !revising && (
+          <button onClick={startRevising} className="text-xs font-medium text-teal-700 hover:underline">
+            Publish a new version…
+          </button>
+        )}
+      </div>
+      <div className="space-y-1 mt-2">
+        {[...revisions].reverse().map((r) => (
+          <div key={r.id} className="flex justify-between text-sm text-neutral-600">
+            <span>
+              v{r.revision_number} · {new Date(r.created_at).toLocaleDateString()}
+              {r.revision_number === latest.revision_number ? " · with the client" : ""}
+            </span>
+            {r.totals && <span>${r.totals.grand_total.toLocaleString()}</span>}
+          </div>
+        ))}
+      </div>
+
+      {revising && (
+        <div className="rounded-2xl border border-neutral-200/70 p-3 bg-neutral-50 mt-3 space-y-3">
+          <p className="text-xs text-neutral-500">
+            v{latest.revision_number + 1} takes the "{template.name}" template as it is now. The client will see what changed, and
+            can only accept this version once it's published.
+          </p>
+          {changes.length > 0 ? (
+            <ul className="text-xs text-neutral-600 list-disc pl-4 space-y-0.5">
+              {changes.map((c) => (
+                <li key={c.key}>{describeItemChange(c)}</li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-neutral-400">No line items or prices differ from v{latest.revision_number}.</p>
+          )}
+          {totalBefore !== totalAfter && (
+            <p className="text-xs text-neutral-600">
+              Total at the starting choices: ${totalBefore.toLocaleString()} → ${totalAfter.toLocaleString()}
+            </p>
+          )}
+          {textFields.map((field) => (
+            <div key={field.key}>
+              <label className="text-xs font-medium text-neutral-500">{field.label}</label>
+              {field.kind === "textarea" ? (
+                <textarea
+                  value={edits[field.key] || ""}
+                  onChange={(e) => setEdits((a) => ({ ...a, [field.key]: e.target.value }))}
+                  rows={3}
+                  className="w-full mt-1 rounded-2xl border px-3 py-2 text-sm focus:ring-2 focus:ring-teal-200 outline-none"
+                />
+              ) : (
+                <input
+                  value={edits[field.key] || ""}
+                  onChange={(e) => setEdits((a) => ({ ...a, [field.key]: e.target.value }))}
+                  className="w-full mt-1 rounded-2xl border px-3 py-2 text-sm focus:ring-2 focus:ring-teal-200 outline-none"
+                />
+              )}
+            </div>
+          ))}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-3">
+            <button
+              onClick={() => setRevising(false)}
+              className="flex-1 rounded-full border px-4 py-2 text-sm font-medium hover:bg-white transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handlePublish}
+              disabled={publishing}
+              className="flex-1 rounded-full bg-teal-600 px-4 py-2 text-sm font-medium text-white hover:bg-teal-700 disabled:opacity-50"
+            >
+              {publishing ? "Publishing…" : `Publish v${latest.revision_number + 1}`}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Downloads a document rendered by /api/send-broadcast's `document_pdf`
+// (see api/_lib/documentPdf.ts) -- the same PDF the client gets from the
+// portal.
+function PdfDownloadButton({ kind, id, label }: { kind: PdfDocumentKind; id: string; label: string }) {
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleDownload() {
+    setDownloading(true);
+    setError(null);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      setError("Your session expired — please refresh the page.");
+      setDownloading(false);
+      return;
+    }
+    try {
+      const res = await fetch("/api/send-broadcast", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${session.access_token}` },
+        body: JSON.stringify({ type: "document_pdf", kind, id }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setError(data.error || "Something went wrong generating this PDF.");
+        return;
+      }
+      const filename = /filename="([^"]+)"/.exec(res.headers.get("Content-Disposition") || "")?.[1] || `${kind}.pdf`;
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      setError("Something went wrong generating this PDF.");
+    } finally {
+      setDownloading(false);
+    }
+  }
+
+  return (
+    <span className="inline-flex items-center gap-2">
+      <button
+        onClick={handleDownload}
+        disabled={downloading}
+        className="text-xs font-medium text-teal-700 hover:underline disabled:opacity-50"
+      >
+        {downloading ? "Preparing…" : label}
+      </button>
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </span>
+  );
+}
+
+// A days_after_signing installment has no date until the agreement is
+// signed (see api/respond.ts).
+function installmentDueLabel(inst: PaymentInstallment): string {
+  if (inst.due_date) return new Date(inst.due_date + "T00:00:00").toLocaleDateString();
+  if (inst.due_rule_type === "days_after_signing") return `${inst.due_rule_offset_days ?? 0} days after the agreement is signed`;
+  return "—";
+}
+
+const PAYMENT_METHOD_LABELS: Record<InstallmentPayment["method"], string> = {
+  stripe: "Stripe",
+  check: "Check",
+  bank_transfer: "Bank transfer",
+  cash: "Cash",
+  other: "Other",
+};
+
+// Installments a founder can still record money against -- the same ones
+// the portal offers Pay Now for.
+const RECORDABLE_STATUSES: PaymentInstallment["status"][] = ["pending", "invoiced", "partially_paid", "overdue", "failed"];
+
+function amountPaid(inst: PaymentInstallment): number {
+  return (inst.installment_payments ?? []).reduce((sum, p) => sum + Number(p.amount), 0);
+}
+
+function RecordPaymentForm({
+  installment,
+  onRecorded,
+  onCancel,
+}: {
+  installment: PaymentInstallment;
+  onRecorded: (status: "paid" | "partially_paid") => void;
+  onCancel: () => void;
+}) {
+  const balance = Math.round((installment.amount - amountPaid(installment)) * 100) / 100;
+  const [amount, setAmount] = useState(String(balance));
+  const [method, setMethod] = useState<Exclude<InstallmentPayment["method"], "stripe">>("check");
+  const [reference, setReference] = useState("");
+  const [paidOn, setPaidOn] = useState(new Date().toLocaleDateString("en-CA"));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit() {
+    const value = Math.round(parseFloat(amount) * 100) / 100;
+    if (!(value > 0) || value > balance) {
+      setError(`Enter an amount up to the $${balance.toLocaleString()} still owed.`);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    const result = await recordInstallmentPayment({ installmentId: installment.id, amount: value, method, reference, paidOn });
+    setSaving(false);
+    if (result.ok === false) {
+      setError(result.error || "Couldn't record this payment — please try again.");
+      return;
+    }
+    onRecorded(result.status ?? "partially_paid");
+  }
+
+  return (
+    <div className="rounded-2xl border bg-white p-3 mt-2 space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-xs text-neutral-600">Amount</label>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className="w-full mt-1 rounded-2xl border px-3 py-2 text-sm focus:ring-2 focus:ring-teal-200 outline-none"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-neutral-600">Method</label>
+          <select
+            value={method}
+            onChange={(e) => setMethod(e.target.value as typeof method)}
+            className="w-full mt-1 rounded-2xl border px-3 py-2 text-sm focus:ring-2 focus:ring-teal-200 outline-none"
+          >
+            <option value="check">Check</option>
+            <option value="bank_transfer">Bank transfer</option>
+            <option value="cash">Cash</option>
+            <option value="other">Other</option>
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-neutral-600">Reference</label>
+          <input
+            value={reference}
+            onChange={(e) => setReference(e.target.value)}
+            placeholder="e.g. check #1042"
+            className="w-full mt-1 rounded-2xl border px-3 py-2 text-sm focus:ring-2 focus:ring-teal-200 outline-none"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-neutral-600">Paid on</label>
+          <input
+            type="date"
+            value={paidOn}
+            onChange={(e) => setPaidOn(e.target.value)}
+            className="w-full mt-1 rounded-2xl border px-3 py-2 text-sm focus:ring-2 focus:ring-teal-200 outline-none"
+          />
+        </div>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          onClick={handleSubmit}
+          disabled={saving || !paidOn}
+          className="rounded-full bg-teal-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-teal-700 disabled:opacity-50 transition-colors"
+        >
+          {saving ? "Recording…" : "Record Payment"}
+        </button>
+        <button onClick={onCancel} className="rounded-full border px-3 py-1.5 text-xs font-medium hover:bg-neutral-50 transition-colors">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function RetainerSummary({ schedule }: { schedule: PaymentSchedule }) {
+  const billing: RecurringBilling = { interval: schedule.billing_interval ?? "month", cycles: schedule.billing_cycles };
+  return (
+    <div className="text-sm text-neutral-600 mt-1 space-y-0.5">
+      <p>{describeRecurringBilling(billing, schedule.total_amount)}</p>
+      <p className="text-xs text-neutral-400">
+        {schedule.status === "cancelled"
+          ? `Ended ${schedule.ended_at ? new Date(schedule.ended_at).toLocaleDateString() : ""}`
+          : schedule.status === "completed"
+          ? "All cycles issued"
+          : `Next invoice ${schedule.next_billing_date ? new Date(schedule.next_billing_date + "T00:00:00").toLocaleDateString() : "—"}`}
+        {schedule.stripe_subscription_id && schedule.status !== "cancelled" ? " · Automatic payments on" : ""}
+      </p>
+    </div>
+  );
+}
+
 function ProposalDetailModal({
   proposal,
   isOpen,
@@ -1750,21 +2128,45 @@ function ProposalDetailModal({
 }) {
   const [template, setTemplate] = useState<DocumentTemplate | null>(null);
   const [installments, setInstallments] = useState<PaymentInstallment[]>([]);
+  const [schedule, setSchedule] = useState<PaymentSchedule | null>(null);
   const [agreement, setAgreement] = useState<{ id: string; status: string; signed_name: string | null; signed_at: string | null } | null>(null);
   const [marking, setMarking] = useState(false);
+  const [endingRetainer, setEndingRetainer] = useState(false);
+  const [retainerError, setRetainerError] = useState<string | null>(null);
+  const [recordingFor, setRecordingFor] = useState<string | null>(null);
   const [voiding, setVoiding] = useState(false);
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [revisions, setRevisions] = useState<ProposalRevision[]>([]);
+  const [sendError, setSendError] = useState<string | null>(null);
+  const [expiresOn, setExpiresOn] = useState("");
+  const [extendOn, setExtendOn] = useState("");
+  const [extending, setExtending] = useState(false);
+  const [expiryError, setExpiryError] = useState<string | null>(null);
 
   useEffect(() => {
     if (!isOpen || !proposal?.generated_documents) return;
+    setSendError(null);
+    setExpiresOn("");
+    setExtendOn("");
+    setExpiryError(null);
+    setRetainerError(null);
+    setRecordingFor(null);
+    fetchProposalRevisions(proposal.id).then(setRevisions);
+    const snapshotRates = proposal.generated_documents.field_values.tax_rates;
     supabase
       .from("document_templates")
       .select("*")
       .eq("id", proposal.generated_documents.template_id)
       .single()
-      .then(({ data }) => setTemplate(data));
+      .then(({ data }) => {
+        setTemplate(data);
+        if (snapshotRates) setTaxRates(snapshotRates);
+        else if (data) fetchActiveTaxRates(data.company_id).then(setTaxRates);
+      });
 
     if (proposal.status === "accepted") {
       fetchPaymentScheduleForProposal(proposal.id).then((result) => {
+        setSchedule(result?.schedule ?? null);
         setInstallments(result?.installments || []);
       });
       supabase
@@ -1774,6 +2176,7 @@ function ProposalDetailModal({
         .maybeSingle()
         .then(({ data }) => setAgreement(data));
     } else {
+      setSchedule(null);
       setInstallments([]);
       setAgreement(null);
     }
@@ -1781,18 +2184,126 @@ function ProposalDetailModal({
 
   if (!proposal) return null;
 
-  const totals = template
-    ? computeDocumentTotals(template.structure, proposal.generated_documents?.field_values.selections || {})
+  // Once sent, a proposal is priced from its latest revision, not the
+  // template -- same as api/submit-proposal-selections.ts.
+  const structure = revisions.length > 0 ? revisions[revisions.length - 1].structure : template?.structure;
+  const recurring = structure ? getRecurringBilling(structure) : null;
+  const totals = structure
+    ? computeDocumentTotals(structure, proposal.generated_documents?.field_values.selections || {}, {
+        unlockedAdjustments: proposal.generated_documents?.field_values.unlocked_adjustments || [],
+        taxRates,
+      })
     : null;
 
   async function handleMarkSent() {
-    if (!proposal?.generated_documents) return;
+    if (!proposal?.generated_documents || !template) return;
     setMarking(true);
-    await markProposalSent(proposal.generated_documents.id, proposal.id);
+    setSendError(null);
+    // What's sent is v1; later template edits only reach the client as a
+    // new version.
+    if (revisions.length === 0) {
+      const fieldValues = proposal.generated_documents.field_values;
+      const published = await publishProposalRevision({
+        proposalId: proposal.id,
+        structure: template.structure,
+        authored: fieldValues.authored || {},
+        selections: pruneSelections(template.structure, fieldValues.selections || {}),
+        totals: computeDocumentTotals(template.structure, {}, { taxRates }),
+      });
+      if (published.ok === false) {
+        setSendError(published.error || "Couldn't send this proposal — please try again.");
+        setMarking(false);
+        return;
+      }
+    }
+    await markProposalSent(proposal.generated_documents.id, proposal.id, expiresOn ? endOfDayISO(expiresOn) : null);
     setMarking(false);
     onUpdated();
   }
 
+  async function handleExtend() {
+    if (!proposal || !extendOn) return;
+    const expiresAt = endOfDayISO(extendOn);
+    if (new Date(expiresAt) <= new Date()) {
+      setExpiryError("Pick a date in the future.");
+      return;
+    }
+    setExtending(true);
+    setExpiryError(null);
+    const result = await extendProposalExpiry(proposal, expiresAt);
+    setExtending(false);
+    if (result.ok === false) {
+      setExpiryError(result.error || "Couldn't change the expiry — please try again.");
+      return;
+    }
+    setExtendOn("");
+    onUpdated();
+  }
+
+  // Settling an installment by hand is a paid invoice like any other, so it
+  // runs the invoice_paid automations the Stripe webhook would have --
+  // whenever record_installment_payment() says it's 'paid', looked up from
+  // the installment itself rather than what this modal has loaded.
+  // Best-effort -- the payment is recorded either way.
+  async function handlePaymentRecorded(installmentId: string, status: "paid" | "partially_paid") {
+    if (!proposal) return;
+    setRecordingFor(null);
+    const result = await fetchPaymentScheduleForProposal(proposal.id);
+    setSchedule(result?.schedule ?? null);
+    setInstallments(result?.installments || []);
+    if (status !== "paid") return;
+    try {
+      const [{ data: settled }, { data: client }] = await Promise.all([
+        supabase.from("payment_installments").select("amount, invoice_id").eq("id", installmentId).maybeSingle(),
+        supabase.from("clients").select("name, company_id").eq("id", proposal.client_id).maybeSingle(),
+      ]);
+      if (!settled?.invoice_id || !client?.company_id) return;
+      await runTrigger(supabase, client.company_id, "invoice_paid", {
+        companyId: client.company_id,
+        clientId: proposal.client_id,
+        clientName: client.name,
+        proposalId: proposal.id,
+        invoiceId: settled.invoice_id,
+        message: `${client.name} paid an invoice ($${Number(settled.amount).toLocaleString()})`,
+      });
+    } catch (automationError) {
+      console.error("Invoice-paid automation failed (non-fatal):", automationError);
+    }
+  }
+
+  // Through /api/send-broadcast, which also cancels the client's Stripe
+  // subscription if they set one up.
+  async function handleEndRetainer() {
+    if (!schedule || !window.confirm("End this retainer? No more invoices will be issued, and any automatic payments stop.")) return;
+    setEndingRetainer(true);
+    setRetainerError(null);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      setRetainerError("Your session expired — please refresh the page.");
+      setEndingRetainer(false);
+      return;
+    }
+    try {
+      const res = await fetch("/api/send-broadcast", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${session.access_token}` },
+        body: JSON.stringify({ type: "end_retainer", schedule_id: schedule.id }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setRetainerError(data.error || "Couldn't end this retainer.");
+        return;
+      }
+      setSchedule({ ...schedule, status: "cancelled", ended_at: new Date().toISOString(), next_billing_date: null });
+    } catch {
+      setRetainerError("Couldn't end this retainer.");
+    } finally {
+      setEndingRetainer(false);
+    }
+  }
+
   async function handleVoidAgreement() {
     if (!agreement) return;
     setVoiding(true);
@@ -1805,19 +2316,64 @@ function ProposalDetailModal({
     <Modal isOpen={isOpen} onClose={onClose} title="Proposal" size="medium">
       <div className="space-y-4">
         <div className="flex items-center justify-between">
-          <span className="text-xs px-3 py-1 rounded-full font-medium bg-neutral-100 text-neutral-700">
-            {PROPOSAL_STATUS_LABELS[proposal.status] || proposal.status}
-          </span>
+          <div className="flex items-center gap-3">
+            <span className="text-xs px-3 py-1 rounded-full font-medium bg-neutral-100 text-neutral-700">
+              {PROPOSAL_STATUS_LABELS[proposal.status] || proposal.status}
+            </span>
+            <PdfDownloadButton kind="proposal" id={proposal.id} label="Download PDF" />
+          </div>
           {proposal.status === "draft" && isFounder(role) && (
             <button
               onClick={handleMarkSent}
-              disabled={marking}
+              disabled={marking || !template}
               className="rounded-full bg-teal-600 text-white px-4 py-2 text-sm font-medium hover:bg-teal-700 disabled:opacity-50"
             >
               {marking ? "Sending…" : "Mark as Sent"}
             </button>
           )}
         </div>
+        {proposal.status === "draft" && isFounder(role) && (
+          <div>
+            <label className="text-sm font-medium text-neutral-700">Offer Expires (optional)</label>
+            <input
+              type="date"
+              value={expiresOn}
+              onChange={(e) => setExpiresOn(e.target.value)}
+              className="w-full mt-1 rounded-2xl border px-3 py-2 text-sm focus:ring-2 focus:ring-teal-200 outline-none"
+            />
+            <p className="text-xs text-neutral-400 mt-1">
+              After this day the client can no longer accept it, and the team gets an email. Leave blank for no expiry.
+            </p>
+          </div>
+        )}
+        {sendError && <p className="text-sm text-red-600">{sendError}</p>}
+
+        {proposal.status !== "draft" && (proposal.expires_at || (isFounder(role) && ["sent", "viewed"].includes(proposal.status))) && (
+          <div>
+            <label className="text-sm font-medium text-neutral-700">{proposal.status === "expired" ? "Expired" : "Expires"}</label>
+            <p className="text-sm text-neutral-600 mt-1">
+              {proposal.expires_at ? new Date(proposal.expires_at).toLocaleDateString() : "Never"}
+            </p>
+            {isFounder(role) && ["sent", "viewed", "expired"].includes(proposal.status) && (
+              <div className="flex gap-2 mt-2">
+                <input
+                  type="date"
+                  value={extendOn}
+                  onChange={(e) => setExtendOn(e.target.value)}
+                  className="flex-1 rounded-2xl border px-3 py-2 text-sm focus:ring-2 focus:ring-teal-200 outline-none"
+                />
+                <button
+                  onClick={handleExtend}
+                  disabled={!extendOn || extending}
+                  className="rounded-full border px-4 py-2 text-sm font-medium hover:bg-neutral-50 disabled:opacity-50"
+                >
+                  {extending ? "Saving…" : proposal.status === "expired" ? "Extend & Reopen" : proposal.expires_at ? "Extend" : "Set Expiry"}
+                </button>
+              </div>
+            )}
+            {expiryError && <p className="text-sm text-red-600 mt-1">{expiryError}</p>}
+          </div>
+        )}
 
         <div>
           <label className="text-sm font-medium text-neutral-700">Event Date</label>
@@ -1828,19 +2384,57 @@ function ProposalDetailModal({
 
         {totals && (
           <div className="border-t pt-4">
-            <label className="text-sm font-medium text-neutral-700">Current Total (at authored defaults)</label>
+            <label className="text-sm font-medium text-neutral-700">
+              Current Total (at authored defaults)
+              {recurring ? ` — per ${recurring.interval === "quarter" ? "quarter" : "month"}` : ""}
+            </label>
             <p className="text-2xl font-semibold text-teal-700 mt-1">${totals.grand_total.toLocaleString()}</p>
             <div className="space-y-1 mt-3">
               {totals.sections.map((s) => (
                 <div key={s.key} className="flex justify-between text-sm text-neutral-600">
-                  <span>{s.name}</span>
+                  <span>
+                    {s.name}
+                    {s.tier ? ` — ${s.tier.name}` : ""}
+                  </span>
                   <span>${s.subtotal.toLocaleString()}</span>
                 </div>
               ))}
+              {totals.adjustments.map((a) => (
+                <div key={a.key} className="flex justify-between text-sm text-neutral-500">
+                  <span>
+                    {a.label || "Discount"}
+                    {a.scope_name ? ` (${a.scope_name})` : ""}
+                    {a.requires_promo_code ? ` — code ${proposal.generated_documents?.field_values.promo_code ?? ""}` : ""}
+                  </span>
+                  <span>−${a.amount.toLocaleString()}</span>
+                </div>
+              ))}
+              {totals.taxes.map((t) => (
+                <div key={t.name} className="flex justify-between text-sm text-neutral-500">
+                  <span>
+                    {t.name} ({t.rate}%)
+                  </span>
+                  <span>${t.amount.toLocaleString()}</span>
+                </div>
+              ))}
             </div>
           </div>
         )}
 
+        {template && revisions.length > 0 && (
+          <ProposalRevisionsPanel
+            proposal={proposal}
+            template={template}
+            revisions={revisions}
+            taxRates={taxRates}
+            role={role}
+            onPublished={() => {
+              fetchProposalRevisions(proposal.id).then(setRevisions);
+              onUpdated();
+            }}
+          />
+        )}
+
         {proposal.status === "accepted" && (
           <div className="border-t pt-4">
             <label className="text-sm font-medium text-neutral-700">Agreement</label>
@@ -1862,37 +2456,100 @@ function ProposalDetailModal({
                 </p>
               )}
             </div>
-            {isFounder(role) && agreement && agreement.status !== "voided" && (
-              <button
-                onClick={handleVoidAgreement}
-                disabled={voiding}
-                className="mt-2 text-xs font-medium text-red-600 hover:underline disabled:opacity-50"
-              >
-                {voiding ? "Voiding…" : "Void Agreement"}
-              </button>
-            )}
+            <div className="flex items-center gap-4 mt-2">
+              {agreement && <PdfDownloadButton kind="agreement" id={agreement.id} label="Download PDF" />}
+              {isFounder(role) && agreement && agreement.status !== "voided" && (
+                <button
+                  onClick={handleVoidAgreement}
+                  disabled={voiding}
+                  className="text-xs font-medium text-red-600 hover:underline disabled:opacity-50"
+                >
+                  {voiding ? "Voiding…" : "Void Agreement"}
+                </button>
+              )}
+            </div>
           </div>
         )}
 
         {proposal.status === "accepted" && installments.length > 0 && (
           <div className="border-t pt-4">
-            <label className="text-sm font-medium text-neutral-700">Payment Schedule</label>
+            <label className="text-sm font-medium text-neutral-700">{schedule?.billing_interval ? "Retainer" : "Payment Schedule"}</label>
+            {schedule?.billing_interval && <RetainerSummary schedule={schedule} />}
+            {schedule?.billing_interval && schedule.status === "active" && isFounder(role) && (
+              <button
+                onClick={handleEndRetainer}
+                disabled={endingRetainer}
+                className="mt-1 text-xs font-medium text-red-600 hover:underline disabled:opacity-50"
+              >
+                {endingRetainer ? "Ending…" : "End Retainer"}
+              </button>
+            )}
+            {retainerError && <p className="text-sm text-red-600 mt-1">{retainerError}</p>}
             <div className="space-y-2 mt-2">
-              {installments.map((inst) => (
-                <div key={inst.id} className="flex items-center justify-between rounded-2xl border p-3 bg-neutral-50">
-                  <div>
-                    <p className="text-sm font-medium">${inst.amount.toLocaleString()}</p>
-                    <p className="text-xs text-neutral-400">
-                      Due {inst.due_date ? new Date(inst.due_date + "T00:00:00").toLocaleDateString() : "—"}
-                    </p>
+              {installments.map((inst) => {
+                const paid = amountPaid(inst);
+                return (
+                  <div key={inst.id} className="rounded-2xl border p-3 bg-neutral-50">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm font-medium">${inst.amount.toLocaleString()}</p>
+                        <p className="text-xs text-neutral-400">
+                          {inst.tax_amount > 0 ? `Incl. $${inst.tax_amount.toLocaleString()} tax · ` : ""}Due {installmentDueLabel(inst)}
+                        </p>
+                        {paid > 0 && paid < inst.amount && (
+                          <p className="text-xs text-neutral-500">
+                            ${paid.toLocaleString()} paid · ${(inst.amount - paid).toLocaleString()} left
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-3">
+                        {isFounder(role) && RECORDABLE_STATUSES.includes(inst.status) && recordingFor !== inst.id && (
+                          <button onClick={() => setRecordingFor(inst.id)} className="text-xs font-medium text-teal-700 hover:underline">
+                            Record Payment
+                          </button>
+                        )}
+                        {inst.invoices?.invoice_number && (
+                          <a
+                            href={`/invoices/${inst.invoices.share_token}`}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="text-xs text-neutral-500 hover:underline"
+                          >
+                            {inst.invoices.invoice_number}
+                          </a>
+                        )}
+                        {inst.invoice_id && <PdfDownloadButton kind="invoice" id={inst.invoice_id} label="Invoice PDF" />}
+                        <span className="text-xs px-2 py-1 rounded-full bg-neutral-200 text-neutral-600 capitalize">
+                          {inst.status.replace("_", " ")}
+                        </span>
+                      </div>
+                    </div>
+                    {(inst.installment_payments ?? []).length > 0 && (
+                      <ul className="mt-2 space-y-0.5">
+                        {inst.installment_payments!.map((p) => (
+                          <li key={p.id} className="text-xs text-neutral-500">
+                            {new Date(p.paid_on + "T00:00:00").toLocaleDateString()} · {PAYMENT_METHOD_LABELS[p.method]}
+                            {p.reference ? ` (${p.reference})` : ""} · ${Number(p.amount).toLocaleString()}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {recordingFor === inst.id && (
+                      <RecordPaymentForm
+                        installment={inst}
+                        onRecorded={(status) => handlePaymentRecorded(inst.id, status)}
+                        onCancel={() => setRecordingFor(null)}
+                      />
+                    )}
                   </div>
-                  <span className="text-xs px-2 py-1 rounded-full bg-neutral-200 text-neutral-600 capitalize">
-                    {inst.status}
-                  </span>
-                </div>
-              ))}
+                );
+              })}
             </div>
-            <p className="text-xs text-neutral-400 mt-2">Clients pay each installment directly from their portal via Stripe.</p>
+            <p className="text-xs text-neutral-400 mt-2">
+              {schedule?.billing_interval
+                ? "Each cycle's invoice is issued on its due date. Clients pay from their portal, or set up automatic payments via Stripe."
+                : "Clients pay each installment directly from their portal via Stripe."}
+            </p>
           </div>
         )}
       </div>
@@ -2244,6 +2901,28 @@ function ProductModal({
   );
 }
 
+// Matches the column default in migration 0048.
+const DEFAULT_REMINDER_DAYS = [-3, 0, 7];
+// The Brand Kit's cashflow bands -- edited in BrandKitEditModal, and what
+// CashflowForecastCard splits the forecast by.
+const CASHFLOW_BAND_FIELDS: { key: string; label: string }[] = [
+  { key: "profit", label: "Profit" },
+  { key: "expenses", label: "Expenses" },
+  { key: "labor", label: "Labor" },
+  { key: "taxes", label: "Taxes" },
+  { key: "charity", label: "Charity" },
+];
+// Under migration 0053's limit on brand_kits.pdf_logo once base64-encoded.
+const PDF_LOGO_MAX_BYTES = 500 * 1024;
+
+// "7, 14" -> [7, 14]; anything that isn't a whole number of days is dropped.
+function parseDayList(text: string): number[] {
+  return text
+    .split(",")
+    .map((part) => Number(part.trim()))
+    .filter((n) => Number.isInteger(n) && n > 0);
+}
+
 /* ──────────────────────────────────────────────────────────────────
    Company Modal
    ────────────────────────────────────────────────────────────────── */
@@ -2260,6 +2939,8 @@ function BrandKitEditModal({
 }) {
   const { brandKit, loading, refetch } = useBrandKit(companyId);
   const [logoVariants, setLogoVariants] = useState<Record<string, string>>({});
+  const [pdfLogo, setPdfLogo] = useState<string | null>(null);
+  const [pdfLogoError, setPdfLogoError] = useState<string | null>(null);
   const [colorPrimary, setColorPrimary] = useState("#0F766E");
   const [colorSecondary, setColorSecondary] = useState("#0F766E");
   const [colorAccent, setColorAccent] = useState("#0F766E");
@@ -2269,12 +2950,19 @@ function BrandKitEditModal({
   const [toneNotes, setToneNotes] = useState("");
   const [policyDefaults, setPolicyDefaults] = useState<Record<string, string>>({});
   const [cashflowBands, setCashflowBands] = useState<Record<string, string>>({});
+  const [weeklyFloor, setWeeklyFloor] = useState("");
+  const [remindBefore, setRemindBefore] = useState("");
+  const [remindOnDue, setRemindOnDue] = useState(true);
+  const [remindAfter, setRemindAfter] = useState("");
+  const [invoicePrefix, setInvoicePrefix] = useState("INV-");
   const [saving, setSaving] = useState(false);
   const [shareSlug, setShareSlug] = useState<string | null>(null);
 
   useEffect(() => {
     if (!isOpen) return;
     setLogoVariants(brandKit?.logo_variants || {});
+    setPdfLogo(brandKit?.pdf_logo ?? null);
+    setPdfLogoError(null);
     setColorPrimary(brandKit?.color_primary || "#0F766E");
     setColorSecondary(brandKit?.color_secondary || "#0F766E");
     setColorAccent(brandKit?.color_accent || "#0F766E");
@@ -2288,6 +2976,12 @@ function BrandKitEditModal({
         Object.entries(brandKit?.cashflow_bands || {}).map(([k, v]) => [k, String(v)])
       )
     );
+    setWeeklyFloor(brandKit?.cashflow_weekly_floor != null ? String(brandKit.cashflow_weekly_floor) : "");
+    const reminderDays = brandKit?.payment_reminder_days ?? DEFAULT_REMINDER_DAYS;
+    setRemindBefore(reminderDays.filter((d) => d < 0).map((d) => -d).sort((a, b) => b - a).join(", "));
+    setRemindOnDue(reminderDays.includes(0));
+    setRemindAfter(reminderDays.filter((d) => d > 0).sort((a, b) => a - b).join(", "));
+    setInvoicePrefix(brandKit?.invoice_prefix ?? "INV-");
     setShareSlug(brandKit?.share_slug || null);
   }, [isOpen, brandKit]);
 
@@ -2297,6 +2991,7 @@ function BrandKitEditModal({
     setSaving(true);
     const saved = await saveBrandKit(companyId!, {
       logo_variants: logoVariants,
+      pdf_logo: pdfLogo,
       color_primary: colorPrimary,
       color_secondary: colorSecondary,
       color_accent: colorAccent,
@@ -2308,6 +3003,11 @@ function BrandKitEditModal({
       cashflow_bands: Object.fromEntries(
         Object.entries(cashflowBands).map(([k, v]) => [k, parseFloat(v) || 0])
       ),
+      cashflow_weekly_floor: parseFloat(weeklyFloor) > 0 ? parseFloat(weeklyFloor) : null,
+      payment_reminder_days: Array.from(
+        new Set([...parseDayList(remindBefore).map((d) => -d), ...(remindOnDue ? [0] : []), ...parseDayList(remindAfter)])
+      ).sort((a, b) => a - b),
+      invoice_prefix: invoicePrefix.trim(),
     });
     setSaving(false);
     if (saved) {
@@ -2316,6 +3016,23 @@ function BrandKitEditModal({
     }
   }
 
+  // Kept with the Brand Kit as a data URL, so PDFs never fetch it.
+  function handlePdfLogoFile(file: File | undefined) {
+    if (!file) return;
+    if (file.type !== "image/png" && file.type !== "image/jpeg") {
+      setPdfLogoError("Upload a PNG or JPEG.");
+      return;
+    }
+    if (file.size > PDF_LOGO_MAX_BYTES) {
+      setPdfLogoError("That image is too large — keep it under 500 KB.");
+      return;
+    }
+    setPdfLogoError(null);
+    const reader = new FileReader();
+    reader.onload = () => setPdfLogo(typeof reader.result === "string" ? reader.result : null);
+    reader.readAsDataURL(file);
+  }
+
   const logoFields: { key: string; label: string }[] = [
     { key: "primary", label: "Primary Logo URL" },
     { key: "mark_only", label: "Mark-Only Logo URL" },
@@ -2328,13 +3045,6 @@ function BrandKitEditModal({
     { key: "communication_hours", label: "Communication Hours", placeholder: "e.g. Mon–Fri, 9am–5pm" },
     { key: "revision_limits", label: "Revision Limits", placeholder: "e.g. 2 rounds included" },
   ];
-  const cashflowFields: { key: string; label: string }[] = [
-    { key: "profit", label: "Profit %" },
-    { key: "expenses", label: "Expenses %" },
-    { key: "labor", label: "Labor %" },
-    { key: "taxes", label: "Taxes %" },
-    { key: "charity", label: "Charity %" },
-  ];
 
   return (
     <Modal isOpen={isOpen} onClose={onClose} title={`${companyName} Brand Kit`} size="large">
@@ -2363,6 +3073,30 @@ function BrandKitEditModal({
                 </div>
               ))}
             </div>
+            <div className="mt-3">
+              <label className="text-xs text-neutral-600">PDF Logo</label>
+              <p className="text-xs text-neutral-500">
+                Printed on proposal, agreement and invoice PDFs. PNG or JPEG, under 500 KB — without one, PDFs show the company name.
+              </p>
+              <div className="flex items-center gap-3 mt-1">
+                {pdfLogo && <img src={pdfLogo} alt="PDF logo" className="h-10 max-w-[160px] object-contain rounded border bg-white" />}
+                <input
+                  type="file"
+                  accept="image/png,image/jpeg"
+                  onChange={(e) => {
+                    handlePdfLogoFile(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                  className="text-sm"
+                />
+                {pdfLogo && (
+                  <button onClick={() => setPdfLogo(null)} className="text-xs text-neutral-500 hover:text-red-600">
+                    Remove
+                  </button>
+                )}
+              </div>
+              {pdfLogoError && <p className="text-sm text-red-600 mt-1">{pdfLogoError}</p>}
+            </div>
           </div>
 
           <div>
@@ -2453,12 +3187,59 @@ function BrandKitEditModal({
             </div>
           </div>
 
+          <div>
+            <label className="text-sm font-semibold text-neutral-700 block mb-1">Invoice Numbers</label>
+            <p className="text-xs text-neutral-400 mb-2">
+              Invoices are numbered in order, starting with this prefix — e.g. {invoicePrefix.trim()}0001. Changing it only
+              affects invoices issued from now on.
+            </p>
+            <input
+              value={invoicePrefix}
+              onChange={(e) => setInvoicePrefix(e.target.value)}
+              maxLength={12}
+              className="w-40 rounded-2xl border px-3 py-2 text-sm focus:ring-2 focus:ring-teal-200 outline-none"
+              placeholder="INV-"
+            />
+          </div>
+
+          <div>
+            <label className="text-sm font-semibold text-neutral-700 block mb-1">Payment Reminders</label>
+            <p className="text-xs text-neutral-400 mb-2">
+              Clients are emailed a reminder, in your brand, with a link to pay from their portal. Leave everything empty to
+              turn reminders off.
+            </p>
+            <div className="grid grid-cols-3 gap-3 items-end">
+              <div>
+                <label className="text-xs text-neutral-600">Days before due</label>
+                <input
+                  value={remindBefore}
+                  onChange={(e) => setRemindBefore(e.target.value)}
+                  className="w-full mt-1 rounded-2xl border px-3 py-2 text-sm focus:ring-2 focus:ring-teal-200 outline-none"
+                  placeholder="e.g. 3"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-neutral-700 pb-2">
+                <input type="checkbox" checked={remindOnDue} onChange={(e) => setRemindOnDue(e.target.checked)} />
+                On the due date
+              </label>
+              <div>
+                <label className="text-xs text-neutral-600">Days after due</label>
+                <input
+                  value={remindAfter}
+                  onChange={(e) => setRemindAfter(e.target.value)}
+                  className="w-full mt-1 rounded-2xl border px-3 py-2 text-sm focus:ring-2 focus:ring-teal-200 outline-none"
+                  placeholder="e.g. 7, 14"
+                />
+              </div>
+            </div>
+          </div>
+
           <div>
             <label className="text-sm font-semibold text-neutral-700 block mb-2">Cashflow Bands</label>
             <div className="grid grid-cols-5 gap-2">
-              {cashflowFields.map((f) => (
+              {CASHFLOW_BAND_FIELDS.map((f) => (
                 <div key={f.key}>
-                  <label className="text-xs text-neutral-600">{f.label}</label>
+                  <label className="text-xs text-neutral-600">{f.label} %</label>
                   <input
                     type="number"
                     value={cashflowBands[f.key] || ""}
@@ -2468,6 +3249,20 @@ function BrandKitEditModal({
                 </div>
               ))}
             </div>
+            <div className="mt-3">
+              <label className="text-xs text-neutral-600">Weekly Floor ($)</label>
+              <p className="text-xs text-neutral-500">
+                What a week needs to bring in. The cash-flow forecast flags weeks projected below it — leave it blank to skip.
+              </p>
+              <input
+                type="number"
+                min={0}
+                value={weeklyFloor}
+                onChange={(e) => setWeeklyFloor(e.target.value)}
+                className="w-40 mt-1 rounded-2xl border px-3 py-2 text-sm focus:ring-2 focus:ring-teal-200 outline-none"
+                placeholder="e.g. 2500"
+              />
+            </div>
           </div>
 
           <div className="flex gap-3 pt-2 border-t">
@@ -2606,47 +3401,125 @@ function TestimonialsSection({ companyId }: { companyId: string }) {
     setTestimonials(data || []);
   }, [companyId]);
 
-  useEffect(() => {
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function toggle(id: string, field: "is_approved" | "is_featured", value: boolean) {
+    await supabase.from("testimonials").update({ [field]: value }).eq("id", id);
+    load();
+  }
+
+  if (testimonials.length === 0) return null;
+
+  return (
+    <div>
+      <label className="text-sm font-medium text-neutral-700 block mb-3">Testimonials</label>
+      <div className="space-y-2">
+        {testimonials.map((t) => (
+          <div key={t.id} className="rounded-2xl border p-3 bg-neutral-50 space-y-2">
+            <p className="text-sm text-neutral-700">"{t.quote}"</p>
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-neutral-500">{t.author_name}</span>
+              <div className="flex items-center gap-3">
+                <label className="flex items-center gap-1.5 text-xs text-neutral-500">
+                  <input
+                    type="checkbox"
+                    checked={t.is_approved}
+                    onChange={(e) => toggle(t.id, "is_approved", e.target.checked)}
+                  />
+                  Approved (public)
+                </label>
+                <label className="flex items-center gap-1.5 text-xs text-neutral-500">
+                  <input
+                    type="checkbox"
+                    checked={t.is_featured}
+                    onChange={(e) => toggle(t.id, "is_featured", e.target.checked)}
+                  />
+                  Featured
+                </label>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Sales tax rates (migration 0043). Every active rate applies, stacked, to
+// the taxable line items on this company's proposals; a proposal that's
+// already accepted keeps the rates it was accepted at. Founders edit,
+// everyone else sees what's charged.
+function SalesTaxSection({ companyId, role }: { companyId: string; role: Role }) {
+  const [rates, setRates] = useState<CompanyTaxRate[]>([]);
+  const [name, setName] = useState("");
+  const [rate, setRate] = useState("");
+  const canEdit = isFounder(role);
+
+  const load = useCallback(async () => {
+    setRates(await fetchTaxRates(companyId));
+  }, [companyId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function handleAdd() {
+    const value = Number(rate);
+    if (!name.trim() || !Number.isFinite(value) || value < 0 || value > 30) return;
+    if (await createTaxRate(companyId, name.trim(), value)) {
+      setName("");
+      setRate("");
+      load();
+    }
+  }
+
+  async function toggleActive(id: string, active: boolean) {
+    await updateTaxRate(id, { active });
     load();
-  }, [load]);
+  }
 
-  async function toggle(id: string, field: "is_approved" | "is_featured", value: boolean) {
-    await supabase.from("testimonials").update({ [field]: value }).eq("id", id);
+  async function handleDelete(id: string) {
+    await deleteTaxRate(id);
     load();
   }
 
-  if (testimonials.length === 0) return null;
+  if (!canEdit && rates.length === 0) return null;
 
   return (
     <div>
-      <label className="text-sm font-medium text-neutral-700 block mb-3">Testimonials</label>
+      <label className="text-sm font-medium text-neutral-700 block mb-3">Sales Tax</label>
       <div className="space-y-2">
-        {testimonials.map((t) => (
-          <div key={t.id} className="rounded-2xl border p-3 bg-neutral-50 space-y-2">
-            <p className="text-sm text-neutral-700">"{t.quote}"</p>
-            <div className="flex items-center justify-between">
-              <span className="text-xs font-medium text-neutral-500">{t.author_name}</span>
+        {rates.length === 0 && <p className="text-sm text-neutral-400">No tax rates — proposals are shown and billed without tax.</p>}
+        {rates.map((r) => (
+          <div key={r.id} className="flex items-center justify-between rounded-2xl border p-3 bg-neutral-50">
+            <span className={`text-sm ${r.active ? "text-neutral-700" : "text-neutral-400"}`}>
+              {r.name} — {r.rate}%
+            </span>
+            {canEdit && (
               <div className="flex items-center gap-3">
                 <label className="flex items-center gap-1.5 text-xs text-neutral-500">
-                  <input
-                    type="checkbox"
-                    checked={t.is_approved}
-                    onChange={(e) => toggle(t.id, "is_approved", e.target.checked)}
-                  />
-                  Approved (public)
-                </label>
-                <label className="flex items-center gap-1.5 text-xs text-neutral-500">
-                  <input
-                    type="checkbox"
-                    checked={t.is_featured}
-                    onChange={(e) => toggle(t.id, "is_featured", e.target.checked)}
-                  />
-                  Featured
+                  <input type="checkbox" checked={r.active} onChange={(e) => toggleActive(r.id, e.target.checked)} />
+                  Active
                 </label>
+                <button onClick={() => handleDelete(r.id)} className="text-xs text-red-500">
+                  ✕
+                </button>
               </div>
-            </div>
+            )}
           </div>
         ))}
+        {canEdit && (
+          <div className="flex gap-2">
+            <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name (e.g. State sales tax)" className="flex-1 rounded-xl border px-3 py-2 text-sm" />
+            <input type="number" min={0} max={30} step={0.001} value={rate} onChange={(e) => setRate(e.target.value)} placeholder="%" className="w-24 rounded-xl border px-3 py-2 text-sm" />
+            <button onClick={handleAdd} className="rounded-full border px-4 py-2 text-sm font-medium hover:bg-neutral-50">
+              Add
+            </button>
+          </div>
+        )}
+        <p className="text-xs text-neutral-400">Applies to line items marked Taxable in your proposal templates.</p>
       </div>
     </div>
   );
@@ -2716,31 +3589,27 @@ function DesignBriefSectionEditor({ section, onChange }: { section: DesignBriefS
   );
 }
 
-function LineItemsSectionEditor({ section, onChange }: { section: LineItemsSection; onChange: (s: LineItemsSection) => void }) {
+// The item rows shared by a line_items section and each package tier.
+// `keyPrefix` keeps new items' keys from colliding across tiers, since
+// selections are keyed by item key alone.
+function LineItemListEditor({ items, onChange, keyPrefix = "item" }: { items: LineItem[]; onChange: (items: LineItem[]) => void; keyPrefix?: string }) {
   function updateItem(i: number, patch: Partial<LineItem>) {
-    const items = [...section.items];
-    items[i] = { ...items[i], ...patch };
-    onChange({ ...section, items });
+    const next = [...items];
+    next[i] = { ...next[i], ...patch };
+    onChange(next);
   }
   function addItem() {
-    onChange({
-      ...section,
-      items: [
-        ...section.items,
-        { key: `item_${section.items.length + 1}`, name: "", description: "", unit_price: 0, default_quantity: 1, is_optional: false, is_included: true },
-      ],
-    });
+    onChange([
+      ...items,
+      { key: `${keyPrefix}_${items.length + 1}`, name: "", description: "", unit_price: 0, default_quantity: 1, is_optional: false, is_included: true },
+    ]);
   }
   function removeItem(i: number) {
-    onChange({ ...section, items: section.items.filter((_, idx) => idx !== i) });
+    onChange(items.filter((_, idx) => idx !== i));
   }
   return (
-    <div className="space-y-2">
-      <div className="grid grid-cols-2 gap-2">
-        <input value={section.name} onChange={(e) => onChange({ ...section, name: e.target.value })} placeholder="Section name" className="rounded-xl border px-3 py-2 text-sm" />
-        <input value={section.description} onChange={(e) => onChange({ ...section, description: e.target.value })} placeholder="Description" className="rounded-xl border px-3 py-2 text-sm" />
-      </div>
-      {section.items.map((item, i) => (
+    <>
+      {items.map((item, i) => (
         <div key={i} className="rounded-xl border p-2 space-y-1.5 bg-neutral-50">
           <div className="flex gap-2">
             <input value={item.key} onChange={(e) => updateItem(i, { key: e.target.value })} placeholder="key" className="w-24 rounded-lg border px-2 py-1 text-xs" />
@@ -2753,16 +3622,90 @@ function LineItemsSectionEditor({ section, onChange }: { section: LineItemsSecti
             <input type="number" value={item.unit_price} onChange={(e) => updateItem(i, { unit_price: Number(e.target.value) })} className="w-20 rounded-lg border px-2 py-1 text-xs" />
             <label className="text-xs text-neutral-500">Qty</label>
             <input type="number" value={item.default_quantity} onChange={(e) => updateItem(i, { default_quantity: Number(e.target.value) })} className="w-16 rounded-lg border px-2 py-1 text-xs" />
+            <label className="text-xs text-neutral-500" title="Clients can raise the quantity up to this. Leave blank to cap it at the default.">Max</label>
+            <input
+              type="number"
+              value={item.max_quantity ?? ""}
+              onChange={(e) => updateItem(i, { max_quantity: e.target.value === "" ? null : Number(e.target.value) })}
+              placeholder="—"
+              className="w-16 rounded-lg border px-2 py-1 text-xs"
+            />
             <label className="flex items-center gap-1 text-xs text-neutral-500">
               <input type="checkbox" checked={item.is_optional} onChange={(e) => updateItem(i, { is_optional: e.target.checked })} /> Optional
             </label>
             <label className="flex items-center gap-1 text-xs text-neutral-500">
               <input type="checkbox" checked={item.is_included} onChange={(e) => updateItem(i, { is_included: e.target.checked })} /> Included by default
             </label>
+            <label className="flex items-center gap-1 text-xs text-neutral-500">
+              <input type="checkbox" checked={Boolean(item.taxable)} onChange={(e) => updateItem(i, { taxable: e.target.checked })} /> Taxable
+            </label>
           </div>
         </div>
       ))}
       <button onClick={addItem} className="text-xs font-medium text-teal-700">+ Add Line Item</button>
+    </>
+  );
+}
+
+function LineItemsSectionEditor({ section, onChange }: { section: LineItemsSection; onChange: (s: LineItemsSection) => void }) {
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <input value={section.name} onChange={(e) => onChange({ ...section, name: e.target.value })} placeholder="Section name" className="rounded-xl border px-3 py-2 text-sm" />
+        <input value={section.description} onChange={(e) => onChange({ ...section, description: e.target.value })} placeholder="Description" className="rounded-xl border px-3 py-2 text-sm" />
+      </div>
+      <LineItemListEditor items={section.items} onChange={(items) => onChange({ ...section, items })} />
+    </div>
+  );
+}
+
+// Good / better / best: the client picks exactly one tier. Each tier gets
+// its own item list; "Default" is the tier shown as picked until they
+// choose.
+function PackageTiersSectionEditor({ section, onChange }: { section: PackageTiersSection; onChange: (s: PackageTiersSection) => void }) {
+  function updateTier(i: number, patch: Partial<PackageTier>) {
+    const tiers = [...section.tiers];
+    tiers[i] = { ...tiers[i], ...patch };
+    onChange({ ...section, tiers });
+  }
+  function addTier() {
+    const key = `tier_${Date.now()}`;
+    onChange({ ...section, tiers: [...section.tiers, { key, name: "", description: "", items: [] }] });
+  }
+  function removeTier(i: number) {
+    const removed = section.tiers[i];
+    onChange({
+      ...section,
+      tiers: section.tiers.filter((_, idx) => idx !== i),
+      default_tier: section.default_tier === removed.key ? null : section.default_tier,
+    });
+  }
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <input value={section.name} onChange={(e) => onChange({ ...section, name: e.target.value })} placeholder="Section name" className="rounded-xl border px-3 py-2 text-sm" />
+        <input value={section.description} onChange={(e) => onChange({ ...section, description: e.target.value })} placeholder="Description" className="rounded-xl border px-3 py-2 text-sm" />
+      </div>
+      {section.tiers.map((tier, i) => (
+        <div key={tier.key} className="rounded-xl border p-2 space-y-1.5">
+          <div className="flex gap-2 items-center">
+            <input value={tier.name} onChange={(e) => updateTier(i, { name: e.target.value })} placeholder="Tier name (e.g. Signature)" className="flex-1 rounded-lg border px-2 py-1 text-xs" />
+            <label className="flex items-center gap-1 text-xs text-neutral-500">
+              <input
+                type="radio"
+                name={`default-tier-${section.key}`}
+                checked={(section.default_tier ?? section.tiers[0]?.key) === tier.key}
+                onChange={() => onChange({ ...section, default_tier: tier.key })}
+              />{" "}
+              Default
+            </label>
+            <button onClick={() => removeTier(i)} className="text-xs text-red-500">✕</button>
+          </div>
+          <input value={tier.description} onChange={(e) => updateTier(i, { description: e.target.value })} placeholder="What's in this tier" className="w-full rounded-lg border px-2 py-1 text-xs" />
+          <LineItemListEditor items={tier.items} onChange={(items) => updateTier(i, { items })} keyPrefix={`${tier.key}_item`} />
+        </div>
+      ))}
+      <button onClick={addTier} className="text-xs font-medium text-teal-700">+ Add Tier</button>
     </div>
   );
 }
@@ -2779,21 +3722,57 @@ function PaymentRulesSectionEditor({ section, onChange }: { section: PaymentRule
   function removeInstallment(i: number) {
     onChange({ ...section, installments: section.installments.filter((_, idx) => idx !== i) });
   }
+  const recurring = section.recurring ?? null;
   return (
     <div className="space-y-2">
-      {section.installments.map((inst, i) => (
-        <div key={i} className="flex gap-2 items-center flex-wrap">
-          <input value={inst.label} onChange={(e) => updateInstallment(i, { label: e.target.value })} placeholder="Label" className="w-28 rounded-lg border px-2 py-1 text-xs" />
-          <input type="number" value={inst.percent} onChange={(e) => updateInstallment(i, { percent: Number(e.target.value) })} placeholder="%" className="w-16 rounded-lg border px-2 py-1 text-xs" />
-          <select value={inst.due_rule_type} onChange={(e) => updateInstallment(i, { due_rule_type: e.target.value as PaymentRuleInstallment["due_rule_type"] })} className="rounded-lg border px-2 py-1 text-xs">
-            <option value="on_signing">On signing</option>
-            <option value="days_before_event">Days before event</option>
+      <select
+        value={recurring ? "recurring" : "installments"}
+        onChange={(e) => onChange({ ...section, recurring: e.target.value === "recurring" ? { interval: "month", cycles: null } : null })}
+        className="rounded-lg border px-2 py-1 text-xs"
+      >
+        <option value="installments">Installments (split the total)</option>
+        <option value="recurring">Recurring retainer (bill the total every cycle)</option>
+      </select>
+      {recurring ? (
+        <div className="flex gap-2 items-center flex-wrap">
+          <select
+            value={recurring.interval}
+            onChange={(e) => onChange({ ...section, recurring: { ...recurring, interval: e.target.value as RecurringBilling["interval"] } })}
+            className="rounded-lg border px-2 py-1 text-xs"
+          >
+            <option value="month">Monthly</option>
+            <option value="quarter">Quarterly</option>
           </select>
-          <input type="number" value={inst.due_rule_offset_days} onChange={(e) => updateInstallment(i, { due_rule_offset_days: Number(e.target.value) })} placeholder="Offset days" className="w-20 rounded-lg border px-2 py-1 text-xs" />
-          <button onClick={() => removeInstallment(i)} className="text-xs text-red-500">✕</button>
+          <input
+            type="number"
+            min={1}
+            value={recurring.cycles ?? ""}
+            onChange={(e) =>
+              onChange({ ...section, recurring: { ...recurring, cycles: e.target.value === "" ? null : Math.max(1, Math.floor(Number(e.target.value))) } })
+            }
+            placeholder="Cycles"
+            className="w-20 rounded-lg border px-2 py-1 text-xs"
+          />
+          <span className="text-xs text-neutral-400">Leave cycles blank to bill until the retainer is ended.</span>
         </div>
-      ))}
-      <button onClick={addInstallment} className="text-xs font-medium text-teal-700">+ Add Installment</button>
+      ) : (
+        <>
+          {section.installments.map((inst, i) => (
+            <div key={i} className="flex gap-2 items-center flex-wrap">
+              <input value={inst.label} onChange={(e) => updateInstallment(i, { label: e.target.value })} placeholder="Label" className="w-28 rounded-lg border px-2 py-1 text-xs" />
+              <input type="number" value={inst.percent} onChange={(e) => updateInstallment(i, { percent: Number(e.target.value) })} placeholder="%" className="w-16 rounded-lg border px-2 py-1 text-xs" />
+              <select value={inst.due_rule_type} onChange={(e) => updateInstallment(i, { due_rule_type: e.target.value as PaymentRuleInstallment["due_rule_type"] })} className="rounded-lg border px-2 py-1 text-xs">
+                <option value="on_signing">On signing</option>
+                <option value="days_after_signing">Days after signing</option>
+                <option value="days_before_event">Days before event</option>
+              </select>
+              <input type="number" value={inst.due_rule_offset_days} onChange={(e) => updateInstallment(i, { due_rule_offset_days: Number(e.target.value) })} placeholder="Offset days" className="w-20 rounded-lg border px-2 py-1 text-xs" />
+              <button onClick={() => removeInstallment(i)} className="text-xs text-red-500">✕</button>
+            </div>
+          ))}
+          <button onClick={addInstallment} className="text-xs font-medium text-teal-700">+ Add Installment</button>
+        </>
+      )}
     </div>
   );
 }
@@ -2807,7 +3786,87 @@ function ContractSectionEditor({ section, onChange }: { section: ContractSection
   );
 }
 
-function TemplateSectionEditor({ section, onChange, onRemove }: { section: TemplateSection; onChange: (s: TemplateSection) => void; onRemove: () => void }) {
+function AdjustmentsSectionEditor({
+  section,
+  onChange,
+  pricedSections,
+  promoCodes,
+  onPromoCodeChange,
+}: {
+  section: AdjustmentsSection;
+  onChange: (s: AdjustmentsSection) => void;
+  pricedSections: (LineItemsSection | PackageTiersSection)[];
+  promoCodes: Record<string, string>;
+  onPromoCodeChange: (key: string, code: string) => void;
+}) {
+  function updateAdjustment(i: number, patch: Partial<Adjustment>) {
+    const adjustments = [...section.adjustments];
+    adjustments[i] = { ...adjustments[i], ...patch };
+    onChange({ ...section, adjustments });
+  }
+  function addAdjustment() {
+    onChange({
+      ...section,
+      adjustments: [
+        ...section.adjustments,
+        { key: `adjustment_${Date.now()}`, label: "", kind: "percent", value: 0, scope: null, requires_promo_code: false },
+      ],
+    });
+  }
+  function removeAdjustment(i: number) {
+    onChange({ ...section, adjustments: section.adjustments.filter((_, idx) => idx !== i) });
+  }
+  return (
+    <div className="space-y-2">
+      {section.adjustments.map((adj, i) => (
+        <div key={adj.key} className="rounded-xl border p-2 space-y-1.5 bg-neutral-50">
+          <div className="flex gap-2">
+            <input value={adj.label} onChange={(e) => updateAdjustment(i, { label: e.target.value })} placeholder="Label (e.g. Early booking discount)" className="flex-1 rounded-lg border px-2 py-1 text-xs" />
+            <button onClick={() => removeAdjustment(i)} className="text-xs text-red-500">✕</button>
+          </div>
+          <div className="flex gap-2 items-center flex-wrap">
+            <select value={adj.kind} onChange={(e) => updateAdjustment(i, { kind: e.target.value as Adjustment["kind"] })} className="rounded-lg border px-2 py-1 text-xs">
+              <option value="percent">% off</option>
+              <option value="fixed">$ off</option>
+            </select>
+            <input type="number" min={0} max={adj.kind === "percent" ? 100 : undefined} value={adj.value} onChange={(e) => updateAdjustment(i, { value: Number(e.target.value) })} className="w-20 rounded-lg border px-2 py-1 text-xs" />
+            <select value={adj.scope ?? ""} onChange={(e) => updateAdjustment(i, { scope: e.target.value || null })} className="rounded-lg border px-2 py-1 text-xs">
+              <option value="">Whole proposal</option>
+              {pricedSections.map((s) => (
+                <option key={s.key} value={s.key}>
+                  {s.name || s.key}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1 text-xs text-neutral-500">
+              <input type="checkbox" checked={adj.requires_promo_code} onChange={(e) => updateAdjustment(i, { requires_promo_code: e.target.checked })} /> Needs a promo code
+            </label>
+            {adj.requires_promo_code && (
+              <input value={promoCodes[adj.key] ?? ""} onChange={(e) => onPromoCodeChange(adj.key, e.target.value.toUpperCase())} placeholder="CODE" className="w-28 rounded-lg border px-2 py-1 text-xs uppercase" />
+            )}
+          </div>
+        </div>
+      ))}
+      <button onClick={addAdjustment} className="text-xs font-medium text-teal-700">+ Add Discount</button>
+    </div>
+  );
+}
+
+function TemplateSectionEditor({
+  section,
+  onChange,
+  onRemove,
+  pricedSections,
+  promoCodes,
+  onPromoCodeChange,
+}: {
+  section: TemplateSection;
+  onChange: (s: TemplateSection) => void;
+  onRemove: () => void;
+  pricedSections: (LineItemsSection | PackageTiersSection)[];
+  promoCodes: Record<string, string>;
+  onPromoCodeChange: (key: string, code: string) => void;
+}) {
   return (
     <div className="rounded-2xl border p-3 bg-white space-y-2">
       <div className="flex items-center justify-between">
@@ -2816,8 +3875,18 @@ function TemplateSectionEditor({ section, onChange, onRemove }: { section: Templ
       </div>
       {section.type === "design_brief" && <DesignBriefSectionEditor section={section} onChange={onChange as any} />}
       {section.type === "line_items" && <LineItemsSectionEditor section={section} onChange={onChange as any} />}
+      {section.type === "package_tiers" && <PackageTiersSectionEditor section={section} onChange={onChange as any} />}
       {section.type === "payment_rules" && <PaymentRulesSectionEditor section={section} onChange={onChange as any} />}
       {section.type === "contract" && <ContractSectionEditor section={section} onChange={onChange as any} />}
+      {section.type === "adjustments" && (
+        <AdjustmentsSectionEditor
+          section={section}
+          onChange={onChange as any}
+          pricedSections={pricedSections}
+          promoCodes={promoCodes}
+          onPromoCodeChange={onPromoCodeChange}
+        />
+      )}
     </div>
   );
 }
@@ -2826,6 +3895,8 @@ function newSectionOfType(type: TemplateSection["type"]): TemplateSection {
   if (type === "design_brief") return { type, title: "New Section", fields: [] };
   if (type === "line_items") return { type, key: `section_${Date.now()}`, name: "New Section", description: "", items: [] };
   if (type === "payment_rules") return { type, installments: [] };
+  if (type === "adjustments") return { type, adjustments: [] };
+  if (type === "package_tiers") return { type, key: `section_${Date.now()}`, name: "Packages", description: "", tiers: [], default_tier: null };
   return { type: "contract", title: "New Section", body: "" };
 }
 
@@ -2845,12 +3916,16 @@ function TemplateEditorModal({
   const [structure, setStructure] = useState<TemplateSection[]>([]);
   const [saving, setSaving] = useState(false);
   const [addType, setAddType] = useState<TemplateSection["type"]>("design_brief");
+  const [promoCodes, setPromoCodes] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     if (template) {
       setName(template.name);
       setIsDefault(template.is_default);
       setStructure(template.structure);
+      setError(null);
+      fetchPromoCodes(template.id).then(setPromoCodes);
     }
   }, [template?.id]);
 
@@ -2869,8 +3944,23 @@ function TemplateEditorModal({
   }
 
   async function handleSave() {
+    // Only adjustments still gated by a code keep one.
+    const codes: Record<string, string> = {};
+    for (const section of structure) {
+      if (section.type !== "adjustments") continue;
+      for (const adj of section.adjustments.filter((a) => a.requires_promo_code)) {
+        const code = normalizePromoCode(promoCodes[adj.key]);
+        if (!code) {
+          setError(`"${adj.label || "A discount"}" needs a promo code — 3 to 40 letters, numbers, dashes or underscores.`);
+          return;
+        }
+        codes[adj.key] = code;
+      }
+    }
+    setError(null);
     setSaving(true);
     await updateTemplate(template!.id, { name, structure, is_default: isDefault });
+    await savePromoCodes(template!.company_id, template!.id, codes);
     setSaving(false);
     onSaved();
     onClose();
@@ -2897,6 +3987,9 @@ function TemplateEditorModal({
               section={section}
               onChange={(s) => updateSection(i, s)}
               onRemove={() => removeSection(i)}
+              pricedSections={getPricedSections(structure)}
+              promoCodes={promoCodes}
+              onPromoCodeChange={(key, code) => setPromoCodes((prev) => ({ ...prev, [key]: code }))}
             />
           ))}
         </div>
@@ -2905,14 +3998,18 @@ function TemplateEditorModal({
           <select value={addType} onChange={(e) => setAddType(e.target.value as TemplateSection["type"])} className="rounded-2xl border px-3 py-2 text-sm">
             <option value="design_brief">Design Brief</option>
             <option value="line_items">Line Items</option>
+            <option value="package_tiers">Package Tiers</option>
             <option value="payment_rules">Payment Rules</option>
             <option value="contract">Contract</option>
+            <option value="adjustments">Discounts</option>
           </select>
           <button onClick={addSection} className="rounded-full border px-4 py-2 text-sm font-medium hover:bg-neutral-50">
             + Add Section
           </button>
         </div>
 
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
         <div className="flex gap-3 pt-2 border-t">
           <button
             onClick={handleSave}
@@ -3053,6 +4150,7 @@ function CompanyModalTabs({
       {canSeeTeamSection && (
         <button onClick={() => scrollTo("section-team")} className={tabClass}>Team & Roles</button>
       )}
+      <button onClick={() => scrollTo("section-tax")} className={tabClass}>Sales Tax</button>
       <button onClick={() => scrollTo("section-testimonials")} className={tabClass}>Testimonials</button>
     </div>
   );
@@ -3284,6 +4382,11 @@ function CompanyModal({
             <TeamManagementSection companyId={companyId} role={role} />
           </div>
         )}
+        {companyId && (
+          <div id="section-tax">
+            <SalesTaxSection companyId={companyId} role={role} />
+          </div>
+        )}
         {companyId && (
           <div id="section-testimonials">
             <TestimonialsSection companyId={companyId} />
@@ -3813,6 +4916,8 @@ const NUDGE_NAV_TARGET: Record<SafetyNetNudge["type"], string> = {
   quiet_lead: "Leads",
   seasonal_dip: "Reporting",
   stage_progress: "Systems",
+  overdue_payment: "Reporting",
+  cashflow_forecast: "Reporting",
 };
 
 function NudgeCard({ nudge, onDismissed, onNavigate }: { nudge: SafetyNetNudge; onDismissed: () => void; onNavigate: (page: string) => void }) {
@@ -4194,7 +5299,238 @@ function SystemsPage({ company, onCompanyChanged }: { company: Company; onCompan
   );
 }
 
-function ReportingPage({ tasks, teamMembers }: { tasks: DBTask[]; teamMembers: { id: string; display_name: string | null }[] }) {
+// Invoices, payments and refunds for a company's bookkeeper, built by
+// /api/send-broadcast under this member's session (see
+// api/_lib/accountingExport.ts). Defaults to last month.
+function AccountingExportCard({ companies, defaultCompanyId }: { companies: Company[]; defaultCompanyId?: string }) {
+  const now = new Date();
+  const [companyId, setCompanyId] = useState(defaultCompanyId ?? companies[0]?.id ?? "");
+  const [from, setFrom] = useState(new Date(now.getFullYear(), now.getMonth() - 1, 1).toLocaleDateString("en-CA"));
+  const [to, setTo] = useState(new Date(now.getFullYear(), now.getMonth(), 0).toLocaleDateString("en-CA"));
+  const [exporting, setExporting] = useState<"csv" | "iif" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleExport(format: "csv" | "iif") {
+    if (!companyId || !from || !to) return;
+    if (from > to) {
+      setError("The start date has to be on or before the end date.");
+      return;
+    }
+    setExporting(format);
+    setError(null);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      setError("Your session expired — please refresh the page.");
+      setExporting(null);
+      return;
+    }
+    try {
+      const res = await fetch("/api/send-broadcast", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${session.access_token}` },
+        body: JSON.stringify({ type: "accounting_export", company_id: companyId, from, to, format }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setError(data.error || "Something went wrong building this export.");
+        return;
+      }
+      const filename = /filename="([^"]+)"/.exec(res.headers.get("Content-Disposition") || "")?.[1] || `export.${format}`;
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      setError("Something went wrong building this export.");
+    } finally {
+      setExporting(null);
+    }
+  }
+
+  return (
+    <Card title="Accounting Export" subtitle="Invoices, payments and refunds for your bookkeeper">
+      <div className="flex flex-wrap items-end gap-3">
+        {companies.length > 1 && (
+          <div>
+            <label className="text-xs text-neutral-600 block">Company</label>
+            <select
+              value={companyId}
+              onChange={(e) => setCompanyId(e.target.value)}
+              className="mt-1 rounded-2xl border px-3 py-2 text-sm focus:ring-2 focus:ring-teal-200 outline-none"
+            >
+              {companies.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div>
+          <label className="text-xs text-neutral-600 block">From</label>
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="mt-1 rounded-2xl border px-3 py-2 text-sm focus:ring-2 focus:ring-teal-200 outline-none"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-neutral-600 block">To</label>
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="mt-1 rounded-2xl border px-3 py-2 text-sm focus:ring-2 focus:ring-teal-200 outline-none"
+          />
+        </div>
+        <button
+          onClick={() => handleExport("csv")}
+          disabled={exporting !== null || !companyId}
+          className="rounded-full bg-teal-600 px-4 py-2 text-sm font-medium text-white hover:bg-teal-700 disabled:opacity-50 transition-colors"
+        >
+          {exporting === "csv" ? "Exporting…" : "Download CSV"}
+        </button>
+        <button
+          onClick={() => handleExport("iif")}
+          disabled={exporting !== null || !companyId}
+          className="rounded-full border px-4 py-2 text-sm font-medium hover:bg-neutral-50 disabled:opacity-50 transition-colors"
+        >
+          {exporting === "iif" ? "Exporting…" : "Download for QuickBooks (IIF)"}
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </Card>
+  );
+}
+
+// The next 13 weeks of expected income (api/_lib/cashflowForecast.ts),
+// each week against the Brand Kit's weekly floor and the total split by its
+// cashflow bands.
+function CashflowForecastCard({ companies, defaultCompanyId }: { companies: Company[]; defaultCompanyId?: string }) {
+  const [companyId, setCompanyId] = useState(defaultCompanyId ?? companies[0]?.id ?? "");
+  const [forecast, setForecast] = useState<CashflowForecast | null>(null);
+  const [brandKit, setBrandKit] = useState<BrandKit | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!companyId) return;
+    let cancelled = false;
+    setForecast(null);
+    setError(null);
+    Promise.all([buildCashflowForecast(supabase, companyId), fetchBrandKit(companyId)])
+      .then(([built, kit]) => {
+        if (cancelled) return;
+        setForecast(built);
+        setBrandKit(kit);
+      })
+      .catch((err) => {
+        console.error("Error building cash-flow forecast:", err);
+        if (!cancelled) setError("Something went wrong building the forecast.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [companyId]);
+
+  const floor = Number(brandKit?.cashflow_weekly_floor ?? 0);
+  const bands = CASHFLOW_BAND_FIELDS.map((f) => ({ ...f, pct: Number(brandKit?.cashflow_bands?.[f.key] ?? 0) })).filter((b) => b.pct > 0);
+  const scale = forecast ? Math.max(floor, ...forecast.weeks.map((w) => w.expected), 1) : 1;
+
+  return (
+    <Card title="Cash-Flow Forecast" subtitle="Expected income over the next 13 weeks">
+      {companies.length > 1 && (
+        <div className="mb-3">
+          <label className="text-xs text-neutral-600 block">Company</label>
+          <select
+            value={companyId}
+            onChange={(e) => setCompanyId(e.target.value)}
+            className="mt-1 rounded-2xl border px-3 py-2 text-sm focus:ring-2 focus:ring-teal-200 outline-none"
+          >
+            {companies.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : !forecast ? (
+        <p className="text-sm text-neutral-400">Loading…</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="space-y-1">
+            {forecast.weeks.map((week) => {
+              const below = floor > 0 && week.expected < floor;
+              return (
+                <div key={week.start} className="flex items-center gap-3 text-xs">
+                  <span className="w-20 shrink-0 text-neutral-500">
+                    {new Date(`${week.start}T00:00:00Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" })}
+                  </span>
+                  <div className="relative h-4 flex-1 rounded-full bg-neutral-100">
+                    <div
+                      className={`h-4 rounded-full ${below ? "bg-red-400" : "bg-teal-500"}`}
+                      style={{ width: `${(week.expected / scale) * 100}%` }}
+                    />
+                    {floor > 0 && (
+                      <div className="absolute top-0 h-4 border-l-2 border-neutral-500" style={{ left: `${(floor / scale) * 100}%` }} />
+                    )}
+                  </div>
+                  <span className={`w-24 shrink-0 text-right ${below ? "text-red-600 font-medium" : "text-neutral-700"}`}>
+                    ${week.expected.toLocaleString()}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-xs text-neutral-500">
+            {floor > 0
+              ? `The line marks your $${floor.toLocaleString()} weekly floor. `
+              : "Set a weekly floor in the Brand Kit to flag lean weeks. "}
+            {forecast.typicalDelayDays > 0
+              ? `Clients typically pay ${forecast.typicalDelayDays} day${forecast.typicalDelayDays === 1 ? "" : "s"} after the due date, and the forecast allows for it.`
+              : "Payments are expected on their due dates."}
+          </p>
+          <div>
+            <div className="text-sm font-semibold">${forecast.total.toLocaleString()} expected in total</div>
+            {bands.length > 0 ? (
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mt-2">
+                {bands.map((band) => (
+                  <div key={band.key} className="rounded-2xl border p-3 bg-white text-center">
+                    <div className="text-lg font-semibold">${Math.round((forecast.total * band.pct) / 100).toLocaleString()}</div>
+                    <div className="text-xs text-neutral-500">
+                      {band.label} · {band.pct}%
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-neutral-500 mt-1">Add cashflow bands in the Brand Kit to see how it splits.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
+
+function ReportingPage({
+  tasks,
+  teamMembers,
+  companies,
+  defaultCompanyId,
+}: {
+  tasks: DBTask[];
+  teamMembers: { id: string; display_name: string | null }[];
+  companies: Company[];
+  defaultCompanyId?: string;
+}) {
   const [invoices, setInvoices] = useState<{ amount: number; status: string; created_at: string }[]>([]);
   const [leads, setLeads] = useState<Lead[]>([]);
   const [loading, setLoading] = useState(true);
@@ -4216,7 +5552,7 @@ function ReportingPage({ tasks, teamMembers }: { tasks: DBTask[]; teamMembers: {
   const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
   const paidThisMonth = invoices.filter((i) => i.status === "paid" && new Date(i.created_at) >= monthStart).reduce((sum, i) => sum + i.amount, 0);
   const paidAllTime = invoices.filter((i) => i.status === "paid").reduce((sum, i) => sum + i.amount, 0);
-  const unpaid = invoices.filter((i) => i.status === "unpaid").reduce((sum, i) => sum + i.amount, 0);
+  const unpaid = invoices.filter((i) => i.status === "unpaid" || i.status === "failed").reduce((sum, i) => sum + i.amount, 0);
   const overdue = invoices.filter((i) => i.status === "overdue").reduce((sum, i) => sum + i.amount, 0);
 
   const revenueStats = [
@@ -4240,6 +5576,8 @@ function ReportingPage({ tasks, teamMembers }: { tasks: DBTask[]; teamMembers: {
   return (
     <div className="space-y-6">
       <BusinessSnapshot stats={revenueStats} />
+      {companies.length > 0 && <CashflowForecastCard companies={companies} defaultCompanyId={defaultCompanyId} />}
+      {companies.length > 0 && <AccountingExportCard companies={companies} defaultCompanyId={defaultCompanyId} />}
       <Card title="Pipeline" subtitle="Leads by stage">
         <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
           {pipelineStats.map((s) => (
@@ -6567,7 +7905,9 @@ const [prefillCompanyForCreate, setPrefillCompanyForCreate] = useState<string |
           {page === "Systems" && activeCompany && <SystemsPage company={activeCompany} onCompanyChanged={refetchCompanies} />}
           {page === "Marketing" && activeCompany && <MarketingPage company={activeCompany} />}
           {page === "Automation Web" && activeCompany && <AutomationWebPage companyId={activeCompany.id} />}
-          {page === "Reporting" && <ReportingPage tasks={tasks} teamMembers={teamMembers} />}
+          {page === "Reporting" && (
+            <ReportingPage tasks={tasks} teamMembers={teamMembers} companies={allCompanies} defaultCompanyId={activeCompany?.id} />
+          )}
           {page === "Companies" && (
             <CompaniesPage
               onCompanyClick={setSelectedCompany}
@@ -8,8 +8,15 @@
 // with onboarding_completed_at left null (the column default),
 // DashboardApp.tsx's existing needsOnboarding check auto-fires
 // OnboardingWizard.tsx the moment this founder first loads the dashboard.
+//
+// Between the two, one optional step: pick a starter Automation Web
+// (src/features/automation-web/starterWebs.ts). signup_new_org already
+// seeds the basic three-node web; choosing a starter replaces it through
+// the same import_automation_web RPC a founder's own import uses.
 import React, { useState } from "react";
 import { supabase } from "./supabase";
+import { importAutomationWeb } from "./useDatabase";
+import { STARTER_WEBS } from "./features/automation-web/starterWebs";
 
 function slugify(name: string): string {
   return name
@@ -28,6 +35,8 @@ export function OrgSignupWizard() {
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [done, setDone] = useState(false);
+  const [companyId, setCompanyId] = useState<string | null>(null);
+  const [choosingStarter, setChoosingStarter] = useState<string | null>(null);
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -42,7 +51,7 @@ export function OrgSignupWizard() {
       return;
     }
 
-    const { error: rpcError } = await supabase.rpc("signup_new_org", {
+    const { data: newCompanyId, error: rpcError } = await supabase.rpc("signup_new_org", {
       p_org_name: orgName.trim(),
       p_org_slug: slugify(orgName),
       p_display_name: yourName.trim(),
@@ -54,10 +63,29 @@ export function OrgSignupWizard() {
       return;
     }
 
+    setSubmitting(false);
+    setCompanyId(newCompanyId);
+  }
+
+  function finish() {
     setDone(true);
     window.location.href = "/";
   }
 
+  async function handleStarter(starterId: string) {
+    const starter = STARTER_WEBS.find((w) => w.id === starterId);
+    if (!companyId || !starter) return;
+    setChoosingStarter(starterId);
+    setError(null);
+    const result = await importAutomationWeb(companyId, starter.document, true);
+    setChoosingStarter(null);
+    if (!result.ok) {
+      setError("That starter couldn't be set up — you can keep the basics and import one later from the Automation Web.");
+      return;
+    }
+    finish();
+  }
+
   if (done) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-neutral-50 px-6">
@@ -66,6 +94,46 @@ export function OrgSignupWizard() {
     );
   }
 
+  if (companyId) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-neutral-50 px-6">
+        <div className="w-full max-w-lg bg-white rounded-2xl border shadow-sm p-8 space-y-4">
+          <div>
+            <h1 className="text-xl font-semibold">Start with some automations?</h1>
+            <p className="text-sm text-neutral-500 mt-1">
+              Pick a starting point for what happens automatically as clients move through your business. You can change
+              any of it later.
+            </p>
+          </div>
+          <div className="space-y-2">
+            {STARTER_WEBS.map((starter) => (
+              <button
+                key={starter.id}
+                onClick={() => handleStarter(starter.id)}
+                disabled={choosingStarter !== null}
+                className="w-full text-left rounded-2xl border px-4 py-3 hover:bg-neutral-50 disabled:opacity-50"
+              >
+                <p className="text-sm font-medium text-neutral-800">
+                  {starter.name}
+                  {choosingStarter === starter.id ? " — setting up…" : ""}
+                </p>
+                <p className="text-xs text-neutral-500 mt-0.5">{starter.description}</p>
+              </button>
+            ))}
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button
+            onClick={finish}
+            disabled={choosingStarter !== null}
+            className="w-full rounded-2xl border px-4 py-2 text-sm font-medium text-neutral-600 hover:bg-neutral-50 disabled:opacity-50"
+          >
+            Keep the basics
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-neutral-50 px-6">
       <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white rounded-2xl border shadow-sm p-8 space-y-4">
@@ -14,20 +14,24 @@ import {
 import "@xyflow/react/dist/style.css";
 import { updateAutomationPosition } from "../../useDatabase";
 import { canViewAutomation, canEditAutomation } from "./permissions";
-import type { Automation, AutomationEdge, CompanyMember } from "./types";
+import type { Automation, AutomationEdge, CompanyMember, SimulatedStep } from "./types";
+import { describeCondition } from "./types";
 import { nodeTypes } from "./nodes/nodeTypes";
 import { edgeTypes } from "./edges/edgeTypes";
 import type { AutomationNodeData } from "./nodes/AutomationNode";
+import type { AutomationEdgeData } from "./edges/AutomationEdge";
 
 export function AutomationWebCanvas({
   automations,
   edges: automationEdges,
+  simulation,
   isFounder,
   member,
   onSelectAutomation,
 }: {
   automations: Automation[];
   edges: AutomationEdge[];
+  simulation: SimulatedStep[] | null;
   isFounder: boolean;
   member: CompanyMember | null;
   onSelectAutomation: (automation: Automation) => void;
@@ -38,23 +42,49 @@ export function AutomationWebCanvas({
   );
   const visibleIds = useMemo(() => new Set(visible.map((a) => a.id)), [visible]);
 
+  // A simulation's path: each node's outcome the first time the walk
+  // reached it. Everything else dims while one is showing.
+  const simulatedOutcomes = useMemo(() => {
+    if (!simulation) return null;
+    const outcomes = new Map<string, SimulatedStep["outcome"]>();
+    for (const step of simulation) {
+      if (!outcomes.has(step.automationId)) outcomes.set(step.automationId, step.outcome);
+    }
+    return outcomes;
+  }, [simulation]);
+
   const initialNodes: Node<AutomationNodeData>[] = useMemo(
     () =>
       visible.map((automation) => ({
         id: automation.id,
         type: "automation",
         position: { x: automation.position_x, y: automation.position_y },
-        data: { automation, editable: canEditAutomation(automation, isFounder, member) },
+        data: {
+          automation,
+          editable: canEditAutomation(automation, isFounder, member),
+          simulated: simulatedOutcomes ? simulatedOutcomes.get(automation.id) ?? "not_reached" : null,
+        },
       })),
-    [visible, isFounder, member]
+    [visible, isFounder, member, simulatedOutcomes]
   );
 
-  const initialEdges: Edge[] = useMemo(
+  const initialEdges: Edge<AutomationEdgeData>[] = useMemo(
     () =>
       automationEdges
         .filter((e) => visibleIds.has(e.source_automation_id) && visibleIds.has(e.target_automation_id))
-        .map((e) => ({ id: e.id, source: e.source_automation_id, target: e.target_automation_id, type: "automation" })),
-    [automationEdges, visibleIds]
+        .map((e) => ({
+          id: e.id,
+          source: e.source_automation_id,
+          target: e.target_automation_id,
+          type: "automation",
+          data: {
+            label: describeCondition(e),
+            onPath:
+              simulatedOutcomes?.get(e.source_automation_id) === "ran" &&
+              (simulatedOutcomes.get(e.target_automation_id) === "ran" || simulatedOutcomes.get(e.target_automation_id) === "failed"),
+          },
+        })),
+    [automationEdges, visibleIds, simulatedOutcomes]
   );
 
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
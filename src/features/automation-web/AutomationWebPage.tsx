@@ -1,10 +1,14 @@
 import React, { useEffect, useState, useCallback } from "react";
 import { AnimatePresence } from "framer-motion";
 import { useAutomationWeb, useProfile, fetchCompanyMembers } from "../../useDatabase";
-import type { Automation, CompanyMember } from "./types";
+import type { Automation, CompanyMember, SimulatedStep } from "./types";
 import { canEditAutomation } from "./permissions";
 import { AutomationWebCanvas } from "./AutomationWebCanvas";
 import { NodeDetailPanel } from "./panel/NodeDetailPanel";
+import { NewAutomationForm } from "./panel/NewAutomationForm";
+import { SimulatePanel } from "./panel/SimulatePanel";
+import { WebTransferPanel } from "./panel/WebTransferPanel";
+import { VersionHistory } from "./panel/VersionHistory";
 
 // companyId now comes from the app's global company switcher (Stage
 // System Buildout) instead of a local picker -- one company in focus at a
@@ -12,6 +16,8 @@ import { NodeDetailPanel } from "./panel/NodeDetailPanel";
 export function AutomationWebPage({ companyId }: { companyId: string }) {
   const [member, setMember] = useState<CompanyMember | null>(null);
   const [selected, setSelected] = useState<Automation | null>(null);
+  const [simulation, setSimulation] = useState<SimulatedStep[] | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
   const { profile } = useProfile();
   const { automations, edges, loading, refetch } = useAutomationWeb(companyId || null);
 
@@ -28,6 +34,8 @@ export function AutomationWebPage({ companyId }: { companyId: string }) {
     loadMember();
   }, [loadMember]);
 
+  useEffect(() => setSimulation(null), [companyId]);
+
   // Keep the panel's data fresh against the latest fetched automation, and
   // close it if the node it's showing is no longer visible/present.
   useEffect(() => {
@@ -48,10 +56,34 @@ export function AutomationWebPage({ companyId }: { companyId: string }) {
         <p className="text-sm text-neutral-400">Nothing here yet for this company.</p>
       )}
 
+      {isFounderHere && <NewAutomationForm companyId={companyId} automations={automations} onCreated={handleChanged} />}
+
+      {isFounderHere && (
+        <WebTransferPanel companyId={companyId} automations={automations} edges={edges} onImported={handleChanged} />
+      )}
+
+      <button onClick={() => setShowHistory((v) => !v)} className="text-sm text-neutral-500 hover:text-neutral-700 self-start">
+        {showHistory ? "Hide version history" : "Version history…"}
+      </button>
+      {showHistory && (
+        <VersionHistory
+          companyId={companyId}
+          automations={automations}
+          isFounder={isFounderHere}
+          member={member}
+          onRestored={handleChanged}
+        />
+      )}
+
+      {automations.length > 0 && (
+        <SimulatePanel companyId={companyId} automations={automations} steps={simulation} onSteps={setSimulation} />
+      )}
+
       <div className="flex-1">
         <AutomationWebCanvas
           automations={automations}
           edges={edges}
+          simulation={simulation}
           isFounder={isFounderHere}
           member={member}
           onSelectAutomation={setSelected}
@@ -1,10 +1,49 @@
 import React from "react";
-import { BaseEdge, getBezierPath, type EdgeProps } from "@xyflow/react";
+import { BaseEdge, EdgeLabelRenderer, getBezierPath, type Edge, type EdgeProps } from "@xyflow/react";
+import type { DiffMark } from "../revisionDiff";
+
+// Only conditional edges (migration 0034) carry a label -- an
+// unconditional "then run this" link stays a bare connector.
+// `onPath` marks an edge the current simulation followed; `diff` is only
+// set on the version history's comparison canvas.
+export type AutomationEdgeData = { label: string | null; onPath: boolean; diff?: DiffMark | null };
 
 // Subtle connector -- deliberately lighter stroke weight than a selected
 // node's border, so edges never compete visually with nodes (Coggle-style
-// calm canvas, not HighLevel's denser look).
-export function AutomationEdge({ id, sourceX, sourceY, targetX, targetY, sourcePosition, targetPosition }: EdgeProps) {
-  const [edgePath] = getBezierPath({ sourceX, sourceY, sourcePosition, targetX, targetY, targetPosition });
-  return <BaseEdge id={id} path={edgePath} style={{ stroke: "#D3E9CE", strokeWidth: 2 }} />;
+// calm canvas, not HighLevel's denser look). A branch label sits at the
+// midpoint in the same neutral palette as the node pills.
+export function AutomationEdge({
+  id,
+  sourceX,
+  sourceY,
+  targetX,
+  targetY,
+  sourcePosition,
+  targetPosition,
+  data,
+}: EdgeProps<Edge<AutomationEdgeData>>) {
+  const [edgePath, labelX, labelY] = getBezierPath({ sourceX, sourceY, sourcePosition, targetX, targetY, targetPosition });
+  return (
+    <>
+      <BaseEdge
+        id={id}
+        path={edgePath}
+        style={{
+          stroke: data?.onPath || data?.diff === "added" || data?.diff === "changed" ? "#2DD4BF" : data?.diff === "removed" ? "#A8A29E" : "#D3E9CE",
+          strokeWidth: 2,
+          strokeDasharray: data?.diff === "removed" ? "4 4" : undefined,
+        }}
+      />
+      {data?.label && (
+        <EdgeLabelRenderer>
+          <div
+            className="absolute rounded-full border border-neutral-200 bg-white px-2 py-0.5 text-[11px] text-neutral-600 pointer-events-none"
+            style={{ transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)` }}
+          >
+            {data.label}
+          </div>
+        </EdgeLabelRenderer>
+      )}
+    </>
+  );
 }
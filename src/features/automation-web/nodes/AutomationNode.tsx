@@ -1,11 +1,18 @@
 import React from "react";
 import { Handle, Position, type NodeProps } from "@xyflow/react";
-import type { Automation } from "../types";
+import type { Automation, SimulatedStep } from "../types";
 import { TRIGGER_LABELS, ACTION_LABELS, STATUS_LABELS } from "../types";
+import type { DiffMark } from "../revisionDiff";
 
 export interface AutomationNodeData extends Record<string, unknown> {
   automation: Automation;
   editable: boolean;
+  // Null when no simulation is showing; otherwise this node's outcome in
+  // it, or "not_reached" when the simulated walk never got here.
+  simulated: SimulatedStep["outcome"] | "not_reached" | null;
+  // Only set on the version history's read-only canvas: how this node
+  // differs from the version it's being compared against.
+  diff?: DiffMark | null;
 }
 
 // Small hand-written icon set, matching this app's existing convention of
@@ -27,6 +34,14 @@ function NodeIcon({ icon }: { icon: string | null }) {
       </svg>
     );
   }
+  if (icon === "clock") {
+    return (
+      <svg {...common}>
+        <circle cx="12" cy="12" r="9" />
+        <path d="M12 7v5l3 2" />
+      </svg>
+    );
+  }
   // default: 'sparkles' and anything unrecognized
   return (
     <svg {...common}>
@@ -35,6 +50,12 @@ function NodeIcon({ icon }: { icon: string | null }) {
   );
 }
 
+const DIFF_LABELS: Record<DiffMark, string> = {
+  added: "Added",
+  removed: "Removed",
+  changed: "Changed",
+};
+
 const STATUS_STYLES: Record<string, string> = {
   active: "bg-teal-50 text-teal-700",
   waiting: "bg-neutral-100 text-neutral-600",
@@ -42,15 +63,15 @@ const STATUS_STYLES: Record<string, string> = {
 };
 
 export function AutomationNode({ data, selected }: NodeProps & { data: AutomationNodeData }) {
-  const { automation, editable } = data;
+  const { automation, editable, simulated, diff } = data;
   const title = automation.title || ACTION_LABELS[automation.action_type] || automation.action_type;
   const subtitle = automation.subtitle || TRIGGER_LABELS[automation.trigger_type] || automation.trigger_type;
 
   return (
     <div
       className={`rounded-2xl border bg-white px-4 py-3.5 w-[240px] shadow-sm transition-colors ${
-        selected ? "border-teal-400 shadow-md" : "border-neutral-200/80"
-      } ${editable ? "" : "opacity-70"}`}
+        selected || simulated === "ran" || diff === "added" ? "border-teal-400 shadow-md" : "border-neutral-200/80"
+      } ${diff === "removed" ? "border-dashed opacity-50" : simulated === "not_reached" ? "opacity-40" : editable ? "" : "opacity-70"}`}
     >
       <Handle type="target" position={Position.Left} className="!bg-neutral-300 !border-none !w-2 !h-2" />
       <div className="flex items-start gap-3">
@@ -62,10 +83,15 @@ export function AutomationNode({ data, selected }: NodeProps & { data: Automatio
           <p className="text-xs text-neutral-400 truncate mt-0.5">{subtitle}</p>
         </div>
       </div>
-      <div className="mt-3">
+      <div className="mt-3 flex gap-1.5">
         <span className={`inline-block rounded-full px-2.5 py-0.5 text-[11px] font-medium ${STATUS_STYLES[automation.status]}`}>
           {STATUS_LABELS[automation.status]}
         </span>
+        {diff && (
+          <span className="inline-block rounded-full border border-neutral-200 px-2.5 py-0.5 text-[11px] font-medium text-neutral-600">
+            {DIFF_LABELS[diff]}
+          </span>
+        )}
       </div>
       <Handle type="source" position={Position.Right} className="!bg-neutral-300 !border-none !w-2 !h-2" />
     </div>
@@ -0,0 +1,86 @@
+import React from "react";
+import type { AutomationEdgeCondition, AutomationConditionType } from "../types";
+import { CONDITION_TYPES, CONDITION_LABELS, TRACK_LABELS, UNCONDITIONAL } from "../types";
+
+// Picks one branch condition for a connection -- only the fixed predicates
+// from api/_lib/automationConditions.ts, each with a plain value field.
+// Deliberately no free-text expression input (build spec Section 3:
+// bounded, not arbitrary). Validity is checked by the caller with
+// isValidCondition before anything is staged.
+export function ConditionPicker({
+  value,
+  onChange,
+}: {
+  value: AutomationEdgeCondition;
+  onChange: (next: AutomationEdgeCondition) => void;
+}) {
+  function changeType(type: string) {
+    if (!type) {
+      onChange(UNCONDITIONAL);
+      return;
+    }
+    const conditionType = type as AutomationConditionType;
+    onChange({
+      condition_type: conditionType,
+      condition_value: conditionType === "client_track_is" ? "ceo" : null,
+      condition_negated: value.condition_negated,
+    });
+  }
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={value.condition_type ?? ""}
+        onChange={(e) => changeType(e.target.value)}
+        className="w-full rounded-xl border px-2 py-1.5 text-sm"
+      >
+        <option value="">Always</option>
+        {CONDITION_TYPES.map((type) => (
+          <option key={type} value={type}>
+            Only if: {CONDITION_LABELS[type]}
+          </option>
+        ))}
+      </select>
+
+      {value.condition_type === "proposal_total_over" && (
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-neutral-500">$</span>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={value.condition_value ?? ""}
+            onChange={(e) => onChange({ ...value, condition_value: e.target.value || null })}
+            placeholder="5000"
+            className="flex-1 rounded-xl border px-2 py-1.5 text-sm"
+          />
+        </div>
+      )}
+
+      {value.condition_type === "client_track_is" && (
+        <select
+          value={value.condition_value ?? ""}
+          onChange={(e) => onChange({ ...value, condition_value: e.target.value })}
+          className="w-full rounded-xl border px-2 py-1.5 text-sm"
+        >
+          {Object.entries(TRACK_LABELS).map(([track, label]) => (
+            <option key={track} value={track}>
+              {label}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {value.condition_type && (
+        <select
+          value={value.condition_negated ? "otherwise" : "when"}
+          onChange={(e) => onChange({ ...value, condition_negated: e.target.value === "otherwise" })}
+          className="w-full rounded-xl border px-2 py-1.5 text-sm"
+        >
+          <option value="when">Run when this is true</option>
+          <option value="otherwise">Run otherwise (when it isn't)</option>
+        </select>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,12 @@
 import React from "react";
 
 // The inline confirm step for anything that changes what a chain does
-// (toggling active/paused, adding/removing a connection) -- per the
-// Automation Web spec's Section 4, this replaces a heavier multi-screen
-// Preview/Explanation/Decision flow because these changes are reversible
-// and always visible in the UI, never silent. Repositioning a node for
-// layout doesn't go through this at all -- it saves immediately.
+// (toggling active/paused, adding/removing a connection, changing a branch
+// condition) -- per the Automation Web spec's Section 4, this replaces a
+// heavier multi-screen Preview/Explanation/Decision flow because these
+// changes are reversible and always visible in the UI, never silent.
+// Repositioning a node for layout doesn't go through this at all -- it
+// saves immediately.
 export function ConfirmChainChange({
   message,
   onConfirm,
@@ -0,0 +1,98 @@
+import React, { useState } from "react";
+import { createAutomation } from "../../../useDatabase";
+import type { Automation, AutomationTriggerType, AutomationActionType } from "../types";
+import { TRIGGER_LABELS, ACTION_LABELS } from "../types";
+import { ConfirmChainChange } from "./ConfirmChainChange";
+
+// Starts a new chain: one trigger, one vetted action, nothing else. Both
+// lists are the fixed label maps in ../types -- a founder picks from what
+// the runtime already has handlers for (build spec Section 3: bounded, not
+// arbitrary). Waits aren't offered here; they're added after an existing
+// node from NodeDetailPanel, since a wait only means something mid-chain.
+export function NewAutomationForm({
+  companyId,
+  automations,
+  onCreated,
+}: {
+  companyId: string;
+  automations: Automation[];
+  onCreated: () => void;
+}) {
+  const [triggerType, setTriggerType] = useState("");
+  const [actionType, setActionType] = useState("");
+  const [confirming, setConfirming] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const actionOptions = Object.keys(ACTION_LABELS).filter((a) => a !== "wait");
+
+  async function handleConfirm() {
+    setSaving(true);
+    // New chains stack below whatever's already on the canvas rather than
+    // landing on top of an existing node.
+    const lowest = automations.reduce((max, a) => Math.max(max, a.position_y), -140);
+    await createAutomation({
+      company_id: companyId,
+      trigger_type: triggerType as AutomationTriggerType,
+      action_type: actionType as AutomationActionType,
+      config: {},
+      title: null,
+      subtitle: null,
+      icon: null,
+      position_x: 0,
+      position_y: lowest + 140,
+    });
+    setSaving(false);
+    setConfirming(false);
+    setTriggerType("");
+    setActionType("");
+    onCreated();
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-neutral-500">When</span>
+        <select
+          value={triggerType}
+          onChange={(e) => setTriggerType(e.target.value)}
+          className="rounded-xl border px-2 py-1.5 text-sm"
+        >
+          <option value="">Choose a trigger…</option>
+          {Object.entries(TRIGGER_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <span className="text-sm text-neutral-500">then</span>
+        <select
+          value={actionType}
+          onChange={(e) => setActionType(e.target.value)}
+          className="rounded-xl border px-2 py-1.5 text-sm"
+        >
+          <option value="">Choose an action…</option>
+          {actionOptions.map((value) => (
+            <option key={value} value={value}>
+              {ACTION_LABELS[value]}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => setConfirming(true)}
+          disabled={!triggerType || !actionType || confirming}
+          className="rounded-xl border px-3 py-1.5 text-sm font-medium hover:bg-neutral-50 disabled:opacity-40"
+        >
+          Add automation
+        </button>
+      </div>
+      {confirming && (
+        <ConfirmChainChange
+          message={`Add this automation? From now on, "${ACTION_LABELS[actionType]}" will run whenever "${TRIGGER_LABELS[triggerType]}" happens.`}
+          confirming={saving}
+          onConfirm={handleConfirm}
+          onCancel={() => setConfirming(false)}
+        />
+      )}
+    </div>
+  );
+}
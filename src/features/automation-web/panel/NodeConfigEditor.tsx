@@ -0,0 +1,252 @@
+import React, { useEffect, useState } from "react";
+import { fetchCompanyMembers, fetchSequences } from "../../../useDatabase";
+import type { Automation, CompanyMember, EmailSequence } from "../types";
+import { CLIENT_STAGE_LABELS, validateAutomationConfig } from "../types";
+
+const INPUT = "w-full rounded-xl border px-2 py-1.5 text-sm";
+const PLACEHOLDER_HINT = "Use {{client_name}} for the client's name.";
+
+type Draft = Record<string, any>;
+
+// Per-node settings (migration 0038), one small form per action_type. The
+// fields map 1:1 onto AutomationConfigs in api/_lib/automationConfig.ts --
+// validateAutomationConfig runs here before anything is staged, and the
+// parent still routes the save through ConfirmChainChange, since settings
+// change what the chain does.
+export function NodeConfigEditor({
+  automation,
+  companyId,
+  editable,
+  onStage,
+}: {
+  automation: Automation;
+  companyId: string;
+  editable: boolean;
+  onStage: (config: Record<string, unknown>) => void;
+}) {
+  const [draft, setDraft] = useState<Draft>(automation.config ?? {});
+  const [error, setError] = useState<string | null>(null);
+  const [members, setMembers] = useState<CompanyMember[]>([]);
+  const [sequences, setSequences] = useState<EmailSequence[]>([]);
+
+  useEffect(() => {
+    setDraft(automation.config ?? {});
+    setError(null);
+  }, [automation.id, automation.config]);
+
+  useEffect(() => {
+    if (automation.action_type === "create_project_and_tasks") fetchCompanyMembers(companyId).then(setMembers);
+    if (automation.action_type === "enroll_in_sequence") fetchSequences(companyId).then(setSequences);
+  }, [automation.action_type, companyId]);
+
+  function set(key: string, value: unknown) {
+    setDraft((d) => ({ ...d, [key]: value }));
+  }
+
+  function setListEntry(key: string, index: number, field: string, value: unknown) {
+    setDraft((d) => ({
+      ...d,
+      [key]: (d[key] ?? []).map((entry: Draft, i: number) => (i === index ? { ...entry, [field]: value } : entry)),
+    }));
+  }
+
+  function addListEntry(key: string) {
+    setDraft((d) => ({ ...d, [key]: [...(d[key] ?? []), { title: "" }] }));
+  }
+
+  function removeListEntry(key: string, index: number) {
+    setDraft((d) => ({ ...d, [key]: (d[key] ?? []).filter((_: Draft, i: number) => i !== index) }));
+  }
+
+  function handleSave() {
+    const result = validateAutomationConfig(automation.action_type, draft);
+    if (result.ok === false) {
+      setError(result.error);
+      return;
+    }
+    setError(null);
+    onStage(result.config as Record<string, unknown>);
+  }
+
+  const type = automation.action_type;
+  let fields: React.ReactNode = null;
+
+  if (type === "notify_team") {
+    fields = (
+      <>
+        <textarea
+          value={draft.message_template ?? ""}
+          onChange={(e) => set("message_template", e.target.value)}
+          rows={3}
+          placeholder="e.g. {{client_name}} just hit this step"
+          className={INPUT}
+          disabled={!editable}
+        />
+        <p className="text-xs text-neutral-400">{PLACEHOLDER_HINT} Leave empty to send the trigger's own message.</p>
+      </>
+    );
+  } else if (type === "request_testimonial") {
+    fields = (
+      <>
+        <textarea
+          value={draft.prompt ?? ""}
+          onChange={(e) => set("prompt", e.target.value)}
+          rows={3}
+          placeholder="e.g. {{client_name}}, what changed for you since we started working together?"
+          className={INPUT}
+          disabled={!editable}
+        />
+        <p className="text-xs text-neutral-400">
+          {PLACEHOLDER_HINT} Shown on the client's portal where they leave a testimonial. Leave empty for the standard ask.
+        </p>
+      </>
+    );
+  } else if (type === "wait") {
+    fields = (
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          min={1}
+          step={1}
+          value={draft.days ?? ""}
+          onChange={(e) => set("days", e.target.value === "" ? undefined : Number(e.target.value))}
+          className="w-24 rounded-xl border px-2 py-1.5 text-sm"
+          disabled={!editable}
+        />
+        <span className="text-sm text-neutral-500">days</span>
+      </div>
+    );
+  } else if (type === "send_email") {
+    fields = (
+      <>
+        <input
+          value={draft.subject ?? ""}
+          onChange={(e) => set("subject", e.target.value)}
+          placeholder="Subject"
+          className={INPUT}
+          disabled={!editable}
+        />
+        <textarea
+          value={draft.body ?? ""}
+          onChange={(e) => set("body", e.target.value)}
+          rows={5}
+          placeholder="Hi {{client_name}}, …"
+          className={INPUT}
+          disabled={!editable}
+        />
+        <p className="text-xs text-neutral-400">{PLACEHOLDER_HINT} Sent to the client's contact email.</p>
+      </>
+    );
+  } else if (type === "enroll_in_sequence") {
+    fields = (
+      <select value={draft.sequence_id ?? ""} onChange={(e) => set("sequence_id", e.target.value)} className={INPUT} disabled={!editable}>
+        <option value="">Choose a sequence…</option>
+        {sequences.map((s) => (
+          <option key={s.id} value={s.id}>
+            {s.name}
+            {s.active ? "" : " (off)"}
+          </option>
+        ))}
+      </select>
+    );
+  } else if (type === "move_client_stage") {
+    fields = (
+      <select value={draft.stage ?? ""} onChange={(e) => set("stage", e.target.value)} className={INPUT} disabled={!editable}>
+        <option value="">Choose a stage…</option>
+        {Object.entries(CLIENT_STAGE_LABELS).map(([value, label]) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+    );
+  } else if (type === "create_project_and_tasks" || type === "create_deliverables") {
+    const key = type === "create_project_and_tasks" ? "tasks" : "deliverables";
+    const entries: Draft[] = draft[key] ?? [];
+    fields = (
+      <>
+        {entries.length === 0 && (
+          <p className="text-xs text-neutral-400">
+            {key === "tasks" ? "Using the standard kickoff tasks. Add your own to replace them." : "Nothing listed yet."}
+          </p>
+        )}
+        {entries.map((entry, i) => (
+          <div key={i} className="rounded-xl border bg-white p-2 space-y-1.5">
+            <div className="flex gap-2">
+              <input
+                value={entry.title ?? ""}
+                onChange={(e) => setListEntry(key, i, "title", e.target.value)}
+                placeholder="Title"
+                className={INPUT}
+                disabled={!editable}
+              />
+              {editable && (
+                <button onClick={() => removeListEntry(key, i)} className="text-xs text-neutral-400 hover:text-neutral-600">
+                  Remove
+                </button>
+              )}
+            </div>
+            {key === "tasks" ? (
+              <div className="flex gap-2">
+                <select
+                  value={entry.assignee_id ?? ""}
+                  onChange={(e) => setListEntry(key, i, "assignee_id", e.target.value || undefined)}
+                  className="flex-1 rounded-xl border px-2 py-1.5 text-sm"
+                  disabled={!editable}
+                >
+                  <option value="">Unassigned</option>
+                  {members.map((m) => (
+                    <option key={m.profile_id} value={m.profile_id}>
+                      {m.profiles?.display_name || "Team member"}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={entry.due_offset_days ?? ""}
+                  onChange={(e) => setListEntry(key, i, "due_offset_days", e.target.value === "" ? undefined : Number(e.target.value))}
+                  placeholder="Due +days"
+                  className="w-28 rounded-xl border px-2 py-1.5 text-sm"
+                  disabled={!editable}
+                />
+              </div>
+            ) : (
+              <input
+                value={entry.description ?? ""}
+                onChange={(e) => setListEntry(key, i, "description", e.target.value)}
+                placeholder="Description (optional)"
+                className={INPUT}
+                disabled={!editable}
+              />
+            )}
+          </div>
+        ))}
+        {editable && (
+          <button onClick={() => addListEntry(key)} className="text-xs font-medium text-teal-700 hover:underline">
+            + Add {key === "tasks" ? "a task" : "a deliverable"}
+          </button>
+        )}
+        {key === "tasks" && <p className="text-xs text-neutral-400">{PLACEHOLDER_HINT} Due dates count from the project's start.</p>}
+      </>
+    );
+  } else {
+    return null;
+  }
+
+  return (
+    <div>
+      <p className="text-sm font-medium text-neutral-700 mb-2">Settings</p>
+      <div className="space-y-2">
+        {fields}
+        {error && <p className="text-xs text-neutral-600">{error}</p>}
+        {editable && (
+          <button onClick={handleSave} className="rounded-xl border px-3 py-1.5 text-sm font-medium hover:bg-neutral-50">
+            Save settings
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
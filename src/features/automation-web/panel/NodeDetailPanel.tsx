@@ -2,17 +2,40 @@ import React, { useState } from "react";
 import { motion } from "framer-motion";
 import {
   updateAutomation,
+  createAutomation,
   createAutomationEdge,
   deleteAutomationEdge,
+  updateAutomationEdgeCondition,
 } from "../../../useDatabase";
-import type { Automation, AutomationEdge } from "../types";
-import { DEPARTMENTS, TRIGGER_LABELS, ACTION_LABELS } from "../types";
+import type { Automation, AutomationEdge, AutomationEdgeCondition } from "../types";
+import {
+  DEPARTMENTS,
+  TRIGGER_LABELS,
+  ACTION_LABELS,
+  UNCONDITIONAL,
+  describeCondition,
+  isValidCondition,
+  waitLabel,
+} from "../types";
 import { ConfirmChainChange } from "./ConfirmChainChange";
+import { ConditionPicker } from "./ConditionPicker";
+import { NodeConfigEditor } from "./NodeConfigEditor";
+import { RunHistory } from "./RunHistory";
 
 type PendingChange =
   | { type: "toggle_active"; message: string }
-  | { type: "add_edge"; targetId: string; message: string }
-  | { type: "remove_edge"; edgeId: string; message: string };
+  | { type: "add_edge"; targetId: string; condition: AutomationEdgeCondition; message: string }
+  | { type: "remove_edge"; edgeId: string; message: string }
+  | { type: "edit_condition"; edgeId: string; condition: AutomationEdgeCondition; message: string }
+  | { type: "add_wait"; days: number; message: string }
+  | { type: "update_config"; config: Record<string, unknown>; message: string };
+
+// How a condition reads inside a confirm message -- "only when total over
+// $5,000" vs. plain "right after".
+function conditionClause(condition: AutomationEdgeCondition): string {
+  const label = describeCondition(condition);
+  return label ? `, but only when: ${label}` : "";
+}
 
 export function NodeDetailPanel({
   automation,
@@ -36,6 +59,14 @@ export function NodeDetailPanel({
   const [pending, setPending] = useState<PendingChange | null>(null);
   const [saving, setSaving] = useState(false);
   const [connectTarget, setConnectTarget] = useState("");
+  const [connectCondition, setConnectCondition] = useState<AutomationEdgeCondition>(UNCONDITIONAL);
+  const [editingEdgeId, setEditingEdgeId] = useState<string | null>(null);
+  const [editingCondition, setEditingCondition] = useState<AutomationEdgeCondition>(UNCONDITIONAL);
+  const [waitDays, setWaitDays] = useState("");
+
+  const parsedWaitDays = Number(waitDays);
+  const waitDaysValid = Number.isInteger(parsedWaitDays) && parsedWaitDays >= 1;
+  const configuredWaitDays = automation.action_type === "wait" ? Number(automation.config?.days) || null : null;
 
   const outgoing = edges.filter((e) => e.source_automation_id === automation.id);
   const connectable = allAutomations.filter(
@@ -48,13 +79,43 @@ export function NodeDetailPanel({
     if (pending.type === "toggle_active") {
       await updateAutomation(automation.id, { active: !automation.active, status: automation.active ? "paused" : "active" });
     } else if (pending.type === "add_edge") {
-      await createAutomationEdge(companyId, automation.id, pending.targetId);
+      await createAutomationEdge(companyId, automation.id, pending.targetId, pending.condition);
     } else if (pending.type === "remove_edge") {
       await deleteAutomationEdge(pending.edgeId);
+    } else if (pending.type === "edit_condition") {
+      await updateAutomationEdgeCondition(pending.edgeId, pending.condition);
+    } else if (pending.type === "update_config") {
+      // A wait's title is its length, so it follows the new setting.
+      const days = pending.config.days;
+      await updateAutomation(
+        automation.id,
+        automation.action_type === "wait" && typeof days === "number"
+          ? { config: pending.config, title: waitLabel(days) }
+          : { config: pending.config }
+      );
+    } else if (pending.type === "add_wait") {
+      // Same trigger as this node so it reads as part of the same chain;
+      // the runtime never starts it directly because it has an incoming
+      // edge (see runTrigger's head selection).
+      const created = await createAutomation({
+        company_id: companyId,
+        trigger_type: automation.trigger_type,
+        action_type: "wait",
+        config: { days: pending.days },
+        title: waitLabel(pending.days),
+        subtitle: "Then runs what's connected next",
+        icon: "clock",
+        position_x: automation.position_x + 300,
+        position_y: automation.position_y,
+      });
+      if (created) await createAutomationEdge(companyId, automation.id, created.id);
     }
     setSaving(false);
     setPending(null);
     setConnectTarget("");
+    setConnectCondition(UNCONDITIONAL);
+    setEditingEdgeId(null);
+    setWaitDays("");
     onChanged();
   }
 
@@ -73,7 +134,48 @@ export function NodeDetailPanel({
     setPending({
       type: "add_edge",
       targetId: target.id,
-      message: `Connect these two? This means "${target.title || ACTION_LABELS[target.action_type]}" will now run right after "${automation.title || ACTION_LABELS[automation.action_type]}".`,
+      condition: connectCondition,
+      message: `Connect these two? This means "${target.title || ACTION_LABELS[target.action_type]}" will now run right after "${automation.title || ACTION_LABELS[automation.action_type]}"${conditionClause(connectCondition)}.`,
+    });
+  }
+
+  function stageAddWait() {
+    if (!waitDaysValid) return;
+    setPending({
+      type: "add_wait",
+      days: parsedWaitDays,
+      message: `Add a ${parsedWaitDays}-day wait after "${automation.title || ACTION_LABELS[automation.action_type]}"? Anything you connect after the wait will run ${parsedWaitDays} day${parsedWaitDays === 1 ? "" : "s"} later instead of right away.`,
+    });
+  }
+
+  function stageConfig(config: Record<string, unknown>) {
+    setPending({
+      type: "update_config",
+      config,
+      message: `Save these settings? "${automation.title || ACTION_LABELS[automation.action_type]}" will use them from its next run on.`,
+    });
+  }
+
+  function startEditingCondition(edge: AutomationEdge) {
+    setEditingEdgeId(edge.id);
+    setEditingCondition({
+      condition_type: edge.condition_type,
+      condition_value: edge.condition_value,
+      condition_negated: edge.condition_negated,
+    });
+  }
+
+  function stageEditCondition(edge: AutomationEdge) {
+    const target = allAutomations.find((a) => a.id === edge.target_automation_id);
+    const name = target?.title || ACTION_LABELS[target?.action_type ?? ""] || "this step";
+    const label = describeCondition(editingCondition);
+    setPending({
+      type: "edit_condition",
+      edgeId: edge.id,
+      condition: editingCondition,
+      message: label
+        ? `Change this branch? "${name}" will now run after "${automation.title || ACTION_LABELS[automation.action_type]}" only when: ${label}.`
+        : `Remove this branch's condition? "${name}" will now always run after "${automation.title || ACTION_LABELS[automation.action_type]}".`,
     });
   }
 
@@ -121,8 +223,17 @@ export function NodeDetailPanel({
           <p className="text-neutral-500">
             Action: <span className="text-neutral-700">{ACTION_LABELS[automation.action_type]}</span>
           </p>
+          {automation.action_type === "wait" && (
+            <p className="text-neutral-500">
+              {configuredWaitDays
+                ? `Holds everything connected after it for ${configuredWaitDays} day${configuredWaitDays === 1 ? "" : "s"}, then picks it back up on the next daily run.`
+                : "No length set yet — nothing connected after it will run."}
+            </p>
+          )}
         </div>
 
+        <NodeConfigEditor automation={automation} companyId={companyId} editable={editable} onStage={stageConfig} />
+
         {editable && (
           <button
             onClick={stageToggleActive}
@@ -138,13 +249,39 @@ export function NodeDetailPanel({
           <div className="space-y-2">
             {outgoing.map((edge) => {
               const target = allAutomations.find((a) => a.id === edge.target_automation_id);
+              const conditionLabel = describeCondition(edge);
               return (
-                <div key={edge.id} className="flex items-center justify-between rounded-xl border px-3 py-2 bg-neutral-50">
-                  <span className="text-sm text-neutral-700">{target?.title || ACTION_LABELS[target?.action_type ?? ""] || "Unknown step"}</span>
-                  {editable && (
-                    <button onClick={() => stageRemoveEdge(edge)} className="text-xs text-neutral-400 hover:text-neutral-600">
-                      Disconnect
-                    </button>
+                <div key={edge.id} className="rounded-xl border px-3 py-2 bg-neutral-50">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm text-neutral-700 truncate">{target?.title || ACTION_LABELS[target?.action_type ?? ""] || "Unknown step"}</p>
+                      <p className="text-xs text-neutral-400">{conditionLabel ? `Only when: ${conditionLabel}` : "Always"}</p>
+                    </div>
+                    {editable && (
+                      <div className="flex shrink-0 gap-3">
+                        <button
+                          onClick={() => (editingEdgeId === edge.id ? setEditingEdgeId(null) : startEditingCondition(edge))}
+                          className="text-xs text-neutral-400 hover:text-neutral-600"
+                        >
+                          Condition
+                        </button>
+                        <button onClick={() => stageRemoveEdge(edge)} className="text-xs text-neutral-400 hover:text-neutral-600">
+                          Disconnect
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  {editable && editingEdgeId === edge.id && (
+                    <div className="mt-3 space-y-2">
+                      <ConditionPicker value={editingCondition} onChange={setEditingCondition} />
+                      <button
+                        onClick={() => stageEditCondition(edge)}
+                        disabled={!isValidCondition(editingCondition)}
+                        className="rounded-xl border px-3 py-1.5 text-sm font-medium bg-white hover:bg-neutral-50 disabled:opacity-40"
+                      >
+                        Update condition
+                      </button>
+                    </div>
                   )}
                 </div>
               );
@@ -152,25 +289,51 @@ export function NodeDetailPanel({
           </div>
 
           {editable && connectable.length > 0 && (
-            <div className="flex gap-2 mt-3">
-              <select
-                value={connectTarget}
-                onChange={(e) => setConnectTarget(e.target.value)}
-                className="flex-1 rounded-xl border px-2 py-1.5 text-sm"
-              >
-                <option value="">Connect to…</option>
-                {connectable.map((a) => (
-                  <option key={a.id} value={a.id}>
-                    {a.title || ACTION_LABELS[a.action_type]}
-                  </option>
-                ))}
-              </select>
+            <div className="mt-3 space-y-2">
+              <div className="flex gap-2">
+                <select
+                  value={connectTarget}
+                  onChange={(e) => setConnectTarget(e.target.value)}
+                  className="flex-1 rounded-xl border px-2 py-1.5 text-sm"
+                >
+                  <option value="">Connect to…</option>
+                  {connectable.map((a) => (
+                    <option key={a.id} value={a.id}>
+                      {a.title || ACTION_LABELS[a.action_type]}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={stageAddEdge}
+                  disabled={!connectTarget || !isValidCondition(connectCondition)}
+                  className="rounded-xl border px-3 py-1.5 text-sm font-medium hover:bg-neutral-50 disabled:opacity-40"
+                >
+                  Connect
+                </button>
+              </div>
+              {connectTarget && <ConditionPicker value={connectCondition} onChange={setConnectCondition} />}
+            </div>
+          )}
+
+          {editable && (
+            <div className="flex items-center gap-2 mt-3">
+              <span className="text-sm text-neutral-500">Wait</span>
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={waitDays}
+                onChange={(e) => setWaitDays(e.target.value)}
+                placeholder="14"
+                className="w-20 rounded-xl border px-2 py-1.5 text-sm"
+              />
+              <span className="text-sm text-neutral-500">days, then continue</span>
               <button
-                onClick={stageAddEdge}
-                disabled={!connectTarget}
-                className="rounded-xl border px-3 py-1.5 text-sm font-medium hover:bg-neutral-50 disabled:opacity-40"
+                onClick={stageAddWait}
+                disabled={!waitDaysValid}
+                className="ml-auto rounded-xl border px-3 py-1.5 text-sm font-medium hover:bg-neutral-50 disabled:opacity-40"
               >
-                Connect
+                Add
               </button>
             </div>
           )}
@@ -209,6 +372,8 @@ export function NodeDetailPanel({
             onCancel={() => setPending(null)}
           />
         )}
+
+        {isFounder && <RunHistory automationId={automation.id} />}
       </div>
     </motion.div>
   );
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from "react";
+import { fetchAutomationRunSteps } from "../../../useDatabase";
+import type { AutomationRunStep } from "../types";
+import { TRIGGER_LABELS, STEP_OUTCOME_LABELS } from "../types";
+
+// Same neutral palette as the node status pill -- a skipped or failed step
+// is information, not an alarm (no red/yellow/green, per the build spec).
+const OUTCOME_STYLES: Record<string, string> = {
+  ran: "bg-teal-50 text-teal-700",
+  skipped: "bg-neutral-100 text-neutral-500",
+  failed: "bg-neutral-100 text-neutral-700",
+};
+
+// Read-only trail of what this node actually did, newest first, from the
+// execution log (migration 0033). The client filter only offers clients
+// that appear in the loaded steps -- it narrows what's already here rather
+// than re-querying.
+export function RunHistory({ automationId }: { automationId: string }) {
+  const [steps, setSteps] = useState<AutomationRunStep[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [clientFilter, setClientFilter] = useState("");
+
+  useEffect(() => {
+    let mounted = true;
+    setLoading(true);
+    setClientFilter("");
+    fetchAutomationRunSteps(automationId).then((rows) => {
+      if (!mounted) return;
+      setSteps(rows);
+      setLoading(false);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [automationId]);
+
+  const clients = new Map<string, string>();
+  for (const step of steps) {
+    const run = step.automation_runs;
+    if (run?.client_id) clients.set(run.client_id, run.clients?.name ?? "Unknown client");
+  }
+  const visible = clientFilter ? steps.filter((s) => s.automation_runs?.client_id === clientFilter) : steps;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-medium text-neutral-700">Run history</p>
+        {clients.size > 0 && (
+          <select
+            value={clientFilter}
+            onChange={(e) => setClientFilter(e.target.value)}
+            className="rounded-xl border px-2 py-1 text-xs"
+          >
+            <option value="">All clients</option>
+            {Array.from(clients.entries()).map(([id, name]) => (
+              <option key={id} value={id}>
+                {name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      {loading && <p className="text-sm text-neutral-400">Loading…</p>}
+      {!loading && visible.length === 0 && <p className="text-sm text-neutral-400">This hasn't run yet.</p>}
+      <div className="space-y-2">
+        {visible.map((step) => {
+          const run = step.automation_runs;
+          return (
+            <div key={step.id} className="rounded-xl border px-3 py-2 bg-neutral-50">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm text-neutral-700 truncate">
+                  {run?.clients?.name ?? TRIGGER_LABELS[run?.trigger_type ?? ""] ?? "Run"}
+                </span>
+                <span className={`shrink-0 rounded-full px-2.5 py-0.5 text-[11px] font-medium ${OUTCOME_STYLES[step.outcome]}`}>
+                  {STEP_OUTCOME_LABELS[step.outcome]}
+                </span>
+              </div>
+              <p className="text-xs text-neutral-400 mt-0.5">
+                {TRIGGER_LABELS[run?.trigger_type ?? ""] ?? run?.trigger_type} · {new Date(step.started_at).toLocaleString()} ·{" "}
+                {step.duration_ms} ms
+              </p>
+              {step.detail && <p className="text-xs text-neutral-500 mt-1">{step.detail}</p>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
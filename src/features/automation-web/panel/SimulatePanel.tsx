@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from "react";
+import { supabase } from "../../../supabase";
+import { fetchClients, type Client } from "../../../useDatabase";
+import type { Automation, SimulatedStep } from "../types";
+import { TRIGGER_LABELS, ACTION_LABELS, SIMULATED_OUTCOME_LABELS } from "../types";
+
+// Same neutral palette as RunHistory's outcome pills.
+const OUTCOME_STYLES: Record<string, string> = {
+  ran: "bg-teal-50 text-teal-700",
+  skipped: "bg-neutral-100 text-neutral-500",
+  failed: "bg-neutral-100 text-neutral-700",
+};
+
+// "What would happen if this fired for this client?" -- a dry run through
+// the real runtime (simulateTrigger, via /api/send-broadcast's
+// simulate_automation type). Nothing is written, so there's no
+// ConfirmChainChange here. The steps go up to the page so the canvas can
+// highlight the path; Clear drops them.
+export function SimulatePanel({
+  companyId,
+  automations,
+  steps,
+  onSteps,
+}: {
+  companyId: string;
+  automations: Automation[];
+  steps: SimulatedStep[] | null;
+  onSteps: (steps: SimulatedStep[] | null) => void;
+}) {
+  const [clients, setClients] = useState<Client[]>([]);
+  const [triggerType, setTriggerType] = useState("");
+  const [clientId, setClientId] = useState("");
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchClients(companyId).then(setClients);
+    setClientId("");
+  }, [companyId]);
+
+  async function handleSimulate() {
+    setRunning(true);
+    setError(null);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      setError("Your session expired — please refresh the page.");
+      setRunning(false);
+      return;
+    }
+    try {
+      const res = await fetch("/api/send-broadcast", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${session.access_token}` },
+        body: JSON.stringify({ type: "simulate_automation", company_id: companyId, trigger_type: triggerType, client_id: clientId }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error || "Something went wrong simulating this.");
+        return;
+      }
+      onSteps(data.steps ?? []);
+    } catch {
+      setError("Something went wrong simulating this.");
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  function nodeTitle(step: SimulatedStep): string {
+    const automation = automations.find((a) => a.id === step.automationId);
+    return automation?.title || ACTION_LABELS[step.actionType] || step.actionType;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-neutral-500">Simulate</span>
+        <select value={triggerType} onChange={(e) => setTriggerType(e.target.value)} className="rounded-xl border px-2 py-1.5 text-sm">
+          <option value="">Choose a trigger…</option>
+          {Object.entries(TRIGGER_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <span className="text-sm text-neutral-500">for</span>
+        <select value={clientId} onChange={(e) => setClientId(e.target.value)} className="rounded-xl border px-2 py-1.5 text-sm">
+          <option value="">Choose a client…</option>
+          {clients.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleSimulate}
+          disabled={!triggerType || !clientId || running}
+          className="rounded-xl border px-3 py-1.5 text-sm font-medium hover:bg-neutral-50 disabled:opacity-40"
+        >
+          {running ? "Simulating…" : "Simulate"}
+        </button>
+        {steps && (
+          <button onClick={() => onSteps(null)} className="text-sm text-neutral-400 hover:text-neutral-600">
+            Clear
+          </button>
+        )}
+      </div>
+      {error && <p className="text-xs text-neutral-600">{error}</p>}
+      {steps && steps.length === 0 && (
+        <p className="text-sm text-neutral-400">Nothing in this web would run for that trigger.</p>
+      )}
+      {steps && steps.length > 0 && (
+        <div className="rounded-2xl border bg-white p-3 space-y-2 max-h-60 overflow-y-auto">
+          <p className="text-xs text-neutral-400">Nothing was written — this is what would happen, in order.</p>
+          {steps.map((step) => (
+            <div key={step.stepOrder} className="rounded-xl border px-3 py-2 bg-neutral-50">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm text-neutral-700 truncate">
+                  {step.stepOrder}. {nodeTitle(step)}
+                </span>
+                <span className={`shrink-0 rounded-full px-2.5 py-0.5 text-[11px] font-medium ${OUTCOME_STYLES[step.outcome]}`}>
+                  {SIMULATED_OUTCOME_LABELS[step.outcome]}
+                </span>
+              </div>
+              {step.detail && <p className="text-xs text-neutral-500 mt-1">{step.detail}</p>}
+              {step.writes.length > 0 && (
+                <ul className="text-xs text-neutral-500 mt-1 list-disc pl-4 space-y-0.5">
+                  {step.writes.map((line, i) => (
+                    <li key={i}>{line}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
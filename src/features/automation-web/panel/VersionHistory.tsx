@@ -0,0 +1,231 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { ReactFlow, Background, BackgroundVariant, Controls, type Node, type Edge } from "@xyflow/react";
+import { fetchAutomationWebRevisions, restoreAutomationWebRevision, type AutomationWebRevision } from "../../../useDatabase";
+import type { Automation, CompanyMember } from "../types";
+import { describeCondition } from "../types";
+import type { WebDocumentNode } from "../webDocument";
+import { diffWebDocuments, edgeKey } from "../revisionDiff";
+import { canViewAutomation } from "../permissions";
+import { nodeTypes } from "../nodes/nodeTypes";
+import { edgeTypes } from "../edges/edgeTypes";
+import type { AutomationNodeData } from "../nodes/AutomationNode";
+import type { AutomationEdgeData } from "../edges/AutomationEdge";
+import { ConfirmChainChange } from "./ConfirmChainChange";
+
+// A snapshot node in the shape AutomationNode and the clearance check
+// expect. Never written back -- a restore goes through the RPC.
+function toAutomation(node: WebDocumentNode, companyId: string): Automation {
+  return { ...node, id: node.ref, company_id: companyId, created_at: "", updated_at: "" };
+}
+
+function authorName(revision: AutomationWebRevision): string {
+  return revision.profiles?.display_name || (revision.created_by ? "A team member" : "Automatic");
+}
+
+// Every structural change to the web, newest first (migration 0041 records
+// them; nothing here writes one). Picking a version shows it on a
+// read-only canvas, marked up against the version before it -- or any
+// other version chosen to compare with. Founders can restore a version:
+// that changes what every chain does, so it goes through
+// ConfirmChainChange, and it's itself recorded, so it can be undone from
+// this same list.
+export function VersionHistory({
+  companyId,
+  automations,
+  isFounder,
+  member,
+  onRestored,
+}: {
+  companyId: string;
+  automations: Automation[];
+  isFounder: boolean;
+  member: CompanyMember | null;
+  onRestored: () => void;
+}) {
+  const [revisions, setRevisions] = useState<AutomationWebRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // `automations` changes whenever the web does (useAutomationWeb's
+  // realtime reload), which is exactly when a new revision exists.
+  useEffect(() => {
+    fetchAutomationWebRevisions(companyId).then(setRevisions);
+  }, [companyId, automations]);
+
+  useEffect(() => {
+    setSelectedId(null);
+    setCompareId(null);
+    setConfirming(false);
+    setMessage(null);
+  }, [companyId]);
+
+  const selectedIndex = revisions.findIndex((r) => r.id === selectedId);
+  const selected = selectedIndex === -1 ? null : revisions[selectedIndex];
+  // Defaults to the version just before the selected one.
+  const compare = revisions.find((r) => r.id === compareId) ?? revisions[selectedIndex + 1] ?? null;
+
+  const summaries = useMemo(
+    () =>
+      revisions.map((revision, i) => {
+        const previous = revisions[i + 1];
+        if (revision.restored_from) {
+          const source = revisions.find((r) => r.id === revision.restored_from);
+          return source ? `Restored the version from ${new Date(source.created_at).toLocaleString()}` : "Restored an earlier version";
+        }
+        if (!previous) return "Earliest recorded version";
+        const { changes } = diffWebDocuments(previous.snapshot, revision.snapshot!);
+        if (changes.length === 0) return "No visible change";
+        return changes.length === 1 ? changes[0] : `${changes[0]}, and ${changes.length - 1} more`;
+      }),
+    [revisions]
+  );
+
+  const diff = useMemo(
+    () => (selected ? diffWebDocuments(compare?.snapshot ?? null, selected.snapshot!) : null),
+    [selected, compare]
+  );
+
+  // The selected version's nodes, plus anything the compared version had
+  // that it doesn't (shown where it used to sit, marked removed).
+  const { nodes, edges } = useMemo(() => {
+    if (!selected || !diff) return { nodes: [] as Node<AutomationNodeData>[], edges: [] as Edge<AutomationEdgeData>[] };
+    const after = selected.snapshot!;
+    const before = compare?.snapshot;
+    const shown = [...after.nodes, ...(before?.nodes ?? []).filter((n) => diff.nodes.get(n.ref) === "removed")].filter((n) =>
+      canViewAutomation(toAutomation(n, companyId), isFounder, member)
+    );
+    const shownRefs = new Set(shown.map((n) => n.ref));
+    const shownEdges = [...after.edges, ...(before?.edges ?? []).filter((e) => diff.edges.get(edgeKey(e)) === "removed")].filter(
+      (e) => shownRefs.has(e.source) && shownRefs.has(e.target)
+    );
+    return {
+      nodes: shown.map((node) => ({
+        id: node.ref,
+        type: "automation",
+        position: { x: node.position_x, y: node.position_y },
+        data: { automation: toAutomation(node, companyId), editable: true, simulated: null, diff: diff.nodes.get(node.ref) ?? null },
+      })),
+      edges: shownEdges.map((edge) => ({
+        id: edgeKey(edge),
+        source: edge.source,
+        target: edge.target,
+        type: "automation",
+        data: { label: describeCondition(edge), onPath: false, diff: diff.edges.get(edgeKey(edge)) ?? null },
+      })),
+    };
+  }, [selected, compare, diff, companyId, isFounder, member]);
+
+  async function handleRestore() {
+    if (!selected) return;
+    setSaving(true);
+    const result = await restoreAutomationWebRevision(selected.id);
+    setSaving(false);
+    setConfirming(false);
+    if (!result.ok) {
+      setMessage(result.error || "Couldn't restore this version.");
+      return;
+    }
+    setMessage("Restored. The web is back the way it was in that version.");
+    setSelectedId(null);
+    setCompareId(null);
+    onRestored();
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-neutral-400">No versions recorded yet — one is saved every time the web changes.</p>;
+  }
+
+  return (
+    <div className="rounded-2xl border bg-white p-3 flex gap-3 h-80">
+      <div className="w-72 shrink-0 overflow-y-auto space-y-1.5">
+        {revisions.map((revision, i) => (
+          <button
+            key={revision.id}
+            onClick={() => {
+              setSelectedId(revision.id);
+              setCompareId(null);
+              setConfirming(false);
+              setMessage(null);
+            }}
+            className={`w-full text-left rounded-xl border px-3 py-2 ${revision.id === selectedId ? "border-teal-400 bg-[#F3F7F1]" : "hover:bg-neutral-50"}`}
+          >
+            <p className="text-xs text-neutral-400">
+              {new Date(revision.created_at).toLocaleString()} · {authorName(revision)}
+              {i === 0 ? " · Current" : ""}
+            </p>
+            <p className="text-sm text-neutral-700 mt-0.5 line-clamp-2">{summaries[i]}</p>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 flex flex-col min-w-0 space-y-2">
+        {!selected && <p className="text-sm text-neutral-400">Choose a version to see what it looked like and what changed.</p>}
+        {selected && (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-neutral-500">Compared with</span>
+              <select
+                value={compare?.id ?? ""}
+                onChange={(e) => setCompareId(e.target.value || null)}
+                className="rounded-xl border px-2 py-1.5 text-sm"
+              >
+                {!compare && <option value="">Nothing earlier</option>}
+                {revisions
+                  .filter((r) => r.id !== selected.id)
+                  .map((r) => (
+                    <option key={r.id} value={r.id}>
+                      {new Date(r.created_at).toLocaleString()}
+                    </option>
+                  ))}
+              </select>
+              {isFounder && selectedIndex > 0 && !confirming && (
+                <button
+                  onClick={() => setConfirming(true)}
+                  className="ml-auto rounded-xl border px-3 py-1.5 text-sm font-medium hover:bg-neutral-50"
+                >
+                  Restore this version
+                </button>
+              )}
+            </div>
+            {confirming && (
+              <ConfirmChainChange
+                message={`Put the whole web back the way it was on ${new Date(selected.created_at).toLocaleString()}? Steps added since then will be deleted, and every setting and connection goes back to that version. This is recorded too, so you can undo it from this list.`}
+                confirming={saving}
+                onConfirm={handleRestore}
+                onCancel={() => setConfirming(false)}
+              />
+            )}
+            {diff && diff.changes.length > 0 && (
+              <ul className="text-xs text-neutral-500 list-disc pl-4 space-y-0.5 max-h-16 overflow-y-auto">
+                {diff.changes.map((line, i) => (
+                  <li key={i}>{line}</li>
+                ))}
+              </ul>
+            )}
+            <div className="flex-1 rounded-2xl border border-neutral-200/80 overflow-hidden">
+              <ReactFlow
+                key={`${selected.id}:${compare?.id ?? ""}`}
+                nodes={nodes}
+                edges={edges}
+                nodeTypes={nodeTypes}
+                edgeTypes={edgeTypes}
+                nodesDraggable={false}
+                nodesConnectable={false}
+                elementsSelectable={false}
+                fitView
+                proOptions={{ hideAttribution: true }}
+              >
+                <Background variant={BackgroundVariant.Dots} gap={18} size={1} color="#E7E5E4" />
+                <Controls showInteractive={false} />
+              </ReactFlow>
+            </div>
+          </>
+        )}
+        {message && <p className="text-xs text-neutral-600">{message}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import React, { useState } from "react";
+import { importAutomationWeb, useCompanies } from "../../../useDatabase";
+import type { Automation, AutomationEdge } from "../types";
+import { buildWebDocument, parseWebDocument, prepareImport, type AutomationWebDocument } from "../webDocument";
+import { ConfirmChainChange } from "./ConfirmChainChange";
+
+type Pending = { kind: "import" | "clone"; targetCompanyId: string; targetName: string; document: AutomationWebDocument };
+
+// Founder-only: move a whole web between companies. Export downloads this
+// company's web as a JSON document (webDocument.ts); import reads one back
+// in; clone is both at once, straight into another company. Importing
+// changes what chains run, so it goes through ConfirmChainChange like any
+// other edit -- export is read-only and doesn't.
+export function WebTransferPanel({
+  companyId,
+  automations,
+  edges,
+  onImported,
+}: {
+  companyId: string;
+  automations: Automation[];
+  edges: AutomationEdge[];
+  onImported: () => void;
+}) {
+  const { companies } = useCompanies();
+  const [open, setOpen] = useState(false);
+  const [replace, setReplace] = useState(false);
+  const [cloneTarget, setCloneTarget] = useState("");
+  const [pending, setPending] = useState<Pending | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const companyName = companies.find((c) => c.id === companyId)?.name ?? "This company";
+  const otherCompanies = companies.filter((c) => c.id !== companyId);
+
+  function exportDocument(): AutomationWebDocument {
+    return buildWebDocument(`${companyName} automation web`, companyId, automations, edges);
+  }
+
+  function handleExport() {
+    const blob = new Blob([JSON.stringify(exportDocument(), null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${companyName.toLowerCase().replace(/[^a-z0-9]+/g, "-")}-automation-web.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setMessage(null);
+    const parsed = parseWebDocument(await file.text());
+    if (parsed.ok === false) {
+      setMessage(parsed.error);
+      return;
+    }
+    setPending({ kind: "import", targetCompanyId: companyId, targetName: companyName, document: parsed.document });
+  }
+
+  function stageClone() {
+    const target = otherCompanies.find((c) => c.id === cloneTarget);
+    if (!target) return;
+    setMessage(null);
+    setPending({ kind: "clone", targetCompanyId: target.id, targetName: target.name, document: exportDocument() });
+  }
+
+  async function handleConfirm() {
+    if (!pending) return;
+    setSaving(true);
+    const { document: prepared, cleared } = prepareImport(pending.document, pending.targetCompanyId);
+    const result = await importAutomationWeb(pending.targetCompanyId, prepared, replace);
+    setSaving(false);
+    setPending(null);
+    if (!result.ok) {
+      setMessage(result.error || "Couldn't import this web.");
+      return;
+    }
+    const clearedNote = cleared
+      ? ` ${cleared} assignee or email sequence setting${cleared === 1 ? " was" : "s were"} cleared — those belong to the original company, so set them again here.`
+      : "";
+    setMessage(`Added ${result.created} step${result.created === 1 ? "" : "s"} to ${pending.targetName}.${clearedNote}`);
+    if (pending.targetCompanyId === companyId) onImported();
+  }
+
+  if (!open) {
+    return (
+      <button onClick={() => setOpen(true)} className="text-sm text-neutral-500 hover:text-neutral-700">
+        Export, import or copy this web…
+      </button>
+    );
+  }
+
+  const confirmMessage = pending
+    ? `${replace ? "Replace" : "Add to"} ${pending.targetName}'s automation web with ${pending.document.nodes.length} step${
+        pending.document.nodes.length === 1 ? "" : "s"
+      } from "${pending.document.name}"?${replace ? " Every step it has now will be deleted first." : ""}`
+    : "";
+
+  return (
+    <div className="rounded-2xl border bg-white p-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={handleExport} className="rounded-xl border px-3 py-1.5 text-sm font-medium hover:bg-neutral-50">
+          Export
+        </button>
+        <label className="rounded-xl border px-3 py-1.5 text-sm font-medium hover:bg-neutral-50 cursor-pointer">
+          Import…
+          <input type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+        </label>
+        {otherCompanies.length > 0 && (
+          <>
+            <span className="text-sm text-neutral-500">or copy to</span>
+            <select value={cloneTarget} onChange={(e) => setCloneTarget(e.target.value)} className="rounded-xl border px-2 py-1.5 text-sm">
+              <option value="">Choose a company…</option>
+              {otherCompanies.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={stageClone}
+              disabled={!cloneTarget || automations.length === 0}
+              className="rounded-xl border px-3 py-1.5 text-sm font-medium hover:bg-neutral-50 disabled:opacity-40"
+            >
+              Copy
+            </button>
+          </>
+        )}
+        <button onClick={() => setOpen(false)} className="ml-auto text-sm text-neutral-400 hover:text-neutral-600">
+          Close
+        </button>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-neutral-600">
+        <input type="checkbox" checked={replace} onChange={(e) => setReplace(e.target.checked)} />
+        Replace the existing web instead of adding alongside it
+      </label>
+      {message && <p className="text-xs text-neutral-600">{message}</p>}
+      {pending && (
+        <ConfirmChainChange message={confirmMessage} confirming={saving} onConfirm={handleConfirm} onCancel={() => setPending(null)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+// What changed between two recorded versions of a web (migration 0041's
+// automation_web_revisions snapshots). Both sides are webDocument.ts
+// documents whose refs are real automation ids, so a node is "the same
+// node" across versions exactly when its ref matches. Layout (position_x/y)
+// is deliberately not a change -- dragging a node never makes a revision,
+// and a diff full of moves would bury the ones that matter.
+import type { AutomationWebDocument, WebDocumentEdge, WebDocumentNode } from "./webDocument";
+import { ACTION_LABELS, TRIGGER_LABELS, describeCondition } from "./types";
+
+export type DiffMark = "added" | "removed" | "changed";
+
+export interface WebDiff {
+  // Keyed by node ref, and by edgeKey() for connections. Anything absent
+  // is unchanged.
+  nodes: Map<string, DiffMark>;
+  edges: Map<string, DiffMark>;
+  // Plain-language lines for the history list, in document order.
+  changes: string[];
+}
+
+export function edgeKey(edge: Pick<WebDocumentEdge, "source" | "target">): string {
+  return `${edge.source}->${edge.target}`;
+}
+
+export function nodeName(node: WebDocumentNode): string {
+  return node.title || ACTION_LABELS[node.action_type] || node.action_type;
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function nodeChanges(before: WebDocumentNode, after: WebDocumentNode): string[] {
+  const lines: string[] = [];
+  if (before.active !== after.active) lines.push(after.active ? "turned on" : "turned off");
+  if (before.title !== after.title) lines.push(`renamed from "${nodeName(before)}"`);
+  if (before.trigger_type !== after.trigger_type) {
+    lines.push(`now runs on "${TRIGGER_LABELS[after.trigger_type] || after.trigger_type}"`);
+  }
+  if (before.action_type !== after.action_type) lines.push(`now does "${ACTION_LABELS[after.action_type] || after.action_type}"`);
+  if (!sameJson(before.config, after.config)) lines.push("settings changed");
+  if (!sameJson([...before.clearance_departments].sort(), [...after.clearance_departments].sort())) {
+    lines.push("clearance changed");
+  }
+  if (before.subtitle !== after.subtitle || before.icon !== after.icon) lines.push("label changed");
+  return lines;
+}
+
+function conditionText(edge: WebDocumentEdge): string {
+  const label = describeCondition(edge);
+  return label ? ` (${label})` : "";
+}
+
+// `before` is null for the earliest recorded version, which then reads as
+// everything having been added.
+export function diffWebDocuments(before: AutomationWebDocument | null, after: AutomationWebDocument): WebDiff {
+  const nodes = new Map<string, DiffMark>();
+  const edges = new Map<string, DiffMark>();
+  const changes: string[] = [];
+
+  const beforeNodes = new Map((before?.nodes ?? []).map((n) => [n.ref, n]));
+  const afterNodes = new Map(after.nodes.map((n) => [n.ref, n]));
+  const name = (ref: string) => {
+    const node = afterNodes.get(ref) ?? beforeNodes.get(ref);
+    return node ? `"${nodeName(node)}"` : "a step";
+  };
+
+  for (const node of after.nodes) {
+    const previous = beforeNodes.get(node.ref);
+    if (!previous) {
+      nodes.set(node.ref, "added");
+      changes.push(`Added ${name(node.ref)}`);
+      continue;
+    }
+    const lines = nodeChanges(previous, node);
+    if (lines.length > 0) {
+      nodes.set(node.ref, "changed");
+      changes.push(`${name(node.ref)}: ${lines.join(", ")}`);
+    }
+  }
+  for (const node of before?.nodes ?? []) {
+    if (!afterNodes.has(node.ref)) {
+      nodes.set(node.ref, "removed");
+      changes.push(`Removed ${name(node.ref)}`);
+    }
+  }
+
+  const beforeEdges = new Map((before?.edges ?? []).map((e) => [edgeKey(e), e]));
+  const afterEdges = new Map(after.edges.map((e) => [edgeKey(e), e]));
+  for (const edge of after.edges) {
+    const key = edgeKey(edge);
+    const previous = beforeEdges.get(key);
+    if (!previous) {
+      edges.set(key, "added");
+      changes.push(`Connected ${name(edge.source)} → ${name(edge.target)}${conditionText(edge)}`);
+    } else if (
+      previous.condition_type !== edge.condition_type ||
+      previous.condition_value !== edge.condition_value ||
+      previous.condition_negated !== edge.condition_negated
+    ) {
+      edges.set(key, "changed");
+      changes.push(`Changed the condition on ${name(edge.source)} → ${name(edge.target)}${conditionText(edge) || " (now always)"}`);
+    }
+  }
+  for (const edge of before?.edges ?? []) {
+    const key = edgeKey(edge);
+    if (!afterEdges.has(key)) {
+      edges.set(key, "removed");
+      changes.push(`Disconnected ${name(edge.source)} → ${name(edge.target)}`);
+    }
+  }
+
+  return { nodes, edges, changes };
+}
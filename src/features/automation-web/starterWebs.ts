@@ -0,0 +1,140 @@
+// Ready-made webs a new company can start from (offered by
+// OrgSignupWizard.tsx right after signup_new_org creates the company).
+// Each is an ordinary AutomationWebDocument, imported through the same
+// import_automation_web RPC as a founder's own export -- so a starter web
+// can only ever contain what the editor itself could build. Nothing here
+// refers to company rows (no assignees, no email sequences): those are
+// set per company after import.
+import type { AutomationWebDocument, WebDocumentNode, WebDocumentEdge } from "./webDocument";
+import { WEB_DOCUMENT_FORMAT, WEB_DOCUMENT_VERSION } from "./webDocument";
+import { UNCONDITIONAL } from "./types";
+
+export interface StarterWeb {
+  id: string;
+  name: string;
+  description: string;
+  document: AutomationWebDocument;
+}
+
+type StarterNode = Pick<WebDocumentNode, "ref" | "trigger_type" | "action_type" | "title" | "subtitle" | "icon"> &
+  Partial<Pick<WebDocumentNode, "config">>;
+
+// Lays each chain out left to right, one row per chain -- `chains` lists
+// refs in order, and every consecutive pair becomes an unconditional edge.
+function starterDocument(name: string, nodes: StarterNode[], chains: string[][]): AutomationWebDocument {
+  const positions = new Map<string, { x: number; y: number }>();
+  chains.forEach((chain, row) => chain.forEach((ref, col) => positions.set(ref, { x: col * 300, y: row * 140 })));
+
+  const edges: WebDocumentEdge[] = [];
+  for (const chain of chains) {
+    for (let i = 1; i < chain.length; i++) edges.push({ source: chain[i - 1], target: chain[i], ...UNCONDITIONAL });
+  }
+
+  return {
+    format: WEB_DOCUMENT_FORMAT,
+    version: WEB_DOCUMENT_VERSION,
+    name,
+    exported_at: "2026-10-19T00:00:00.000Z",
+    source_company_id: null,
+    nodes: nodes.map((n) => ({
+      config: {},
+      active: true,
+      status: "active",
+      clearance_departments: [],
+      position_x: positions.get(n.ref)?.x ?? 0,
+      position_y: positions.get(n.ref)?.y ?? 0,
+      ...n,
+    })),
+    edges,
+  };
+}
+
+export const STARTER_WEBS: StarterWeb[] = [
+  {
+    id: "client_lifecycle",
+    name: "Client lifecycle",
+    description:
+      "Kickoff and the first invoice when a proposal is accepted, a heads-up when the agreement is signed or an invoice is paid, and a testimonial ask two weeks after a project wraps.",
+    document: starterDocument(
+      "Client lifecycle",
+      [
+        { ref: "accepted", trigger_type: "proposal_accepted", action_type: "create_project_and_tasks", title: "New client accepted", subtitle: "Creates project + kickoff tasks", icon: "sparkles" },
+        { ref: "first_invoice", trigger_type: "proposal_accepted", action_type: "raise_next_invoice", title: "Invoice the first payment", subtitle: "From the accepted payment schedule", icon: null },
+        { ref: "signed", trigger_type: "agreement_signed", action_type: "notify_team", title: "Agreement signed", subtitle: "Notifies the founder", icon: "check" },
+        { ref: "paid", trigger_type: "invoice_paid", action_type: "notify_team", title: "Invoice paid", subtitle: "Notifies the founder", icon: "check" },
+        { ref: "completed", trigger_type: "project_completed", action_type: "move_client_stage", title: "Project completed", subtitle: "Moves the client to Delivered", icon: "flag", config: { stage: "delivered" } },
+        { ref: "completed_wait", trigger_type: "project_completed", action_type: "wait", title: "Wait 14 days", subtitle: null, icon: "clock", config: { days: 14 } },
+        {
+          ref: "testimonial",
+          trigger_type: "project_completed",
+          action_type: "request_testimonial",
+          title: "Ask for a testimonial",
+          subtitle: "On the client's portal",
+          icon: null,
+          config: { prompt: "{{client_name}}, now that the dust has settled — what changed for you?" },
+        },
+      ],
+      [["accepted", "first_invoice"], ["signed"], ["paid"], ["completed", "completed_wait", "testimonial"]]
+    ),
+  },
+  {
+    id: "lead_follow_up",
+    name: "Lead follow-up",
+    description: "Tells you about every new lead, thanks them straight away, and checks in again three days later.",
+    document: starterDocument(
+      "Lead follow-up",
+      [
+        { ref: "lead", trigger_type: "lead_created", action_type: "notify_team", title: "New lead", subtitle: "Notifies the founder", icon: "sparkles" },
+        {
+          ref: "thanks",
+          trigger_type: "lead_created",
+          action_type: "send_email",
+          title: "Thank them",
+          subtitle: "Email to the lead",
+          icon: null,
+          config: {
+            subject: "Thanks for reaching out",
+            body: "<p>Hi {{client_name}},</p><p>Thanks for getting in touch — we'll be in contact shortly with next steps.</p>",
+          },
+        },
+        { ref: "lead_wait", trigger_type: "lead_created", action_type: "wait", title: "Wait 3 days", subtitle: null, icon: "clock", config: { days: 3 } },
+        {
+          ref: "check_in",
+          trigger_type: "lead_created",
+          action_type: "send_email",
+          title: "Check in",
+          subtitle: "Email to the lead",
+          icon: null,
+          config: {
+            subject: "Still thinking it over?",
+            body: "<p>Hi {{client_name}},</p><p>Just checking in — happy to answer any questions whenever suits you.</p>",
+          },
+        },
+      ],
+      [["lead", "thanks", "lead_wait", "check_in"]]
+    ),
+  },
+  {
+    id: "delivery",
+    name: "Delivery rhythm",
+    description:
+      "Sets up the project when a proposal is accepted, adds a standard deliverable list once onboarding is in, and keeps you posted as deliverables are approved.",
+    document: starterDocument(
+      "Delivery rhythm",
+      [
+        { ref: "accepted", trigger_type: "proposal_accepted", action_type: "create_project_and_tasks", title: "New client accepted", subtitle: "Creates project + kickoff tasks", icon: "sparkles" },
+        {
+          ref: "onboarded",
+          trigger_type: "onboarding_submitted",
+          action_type: "create_deliverables",
+          title: "Onboarding in",
+          subtitle: "Adds the standard deliverables",
+          icon: null,
+          config: { deliverables: [{ title: "Discovery summary" }, { title: "First draft" }, { title: "Final handoff" }] },
+        },
+        { ref: "approved", trigger_type: "deliverable_approved", action_type: "notify_team", title: "Deliverable approved", subtitle: "Notifies the founder", icon: "check" },
+      ],
+      [["accepted"], ["onboarded"], ["approved"]]
+    ),
+  },
+];
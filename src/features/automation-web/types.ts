@@ -4,27 +4,72 @@
 export type {
   Automation,
   AutomationEdge,
+  AutomationEdgeCondition,
+  AutomationConditionType,
   AutomationTriggerType,
   AutomationActionType,
   AutomationStatus,
+  AutomationRunStep,
+  AutomationWebRevision,
   CompanyMember,
+  EmailSequence,
 } from "../../useDatabase";
 export { DEPARTMENTS } from "../../useDatabase";
+export {
+  CONDITION_TYPES,
+  CONDITION_LABELS,
+  TRACK_LABELS,
+  UNCONDITIONAL,
+  isValidCondition,
+  describeCondition,
+} from "../../../api/_lib/automationConditions";
+export { validateAutomationConfig } from "../../../api/_lib/automationConfig";
+export type { AutomationConfigs } from "../../../api/_lib/automationConfig";
+export { CLIENT_STAGE_LABELS } from "../../../api/_lib/automationHandlers/moveClientStage";
+export type { SimulatedStep } from "../../../api/_lib/automationRunLog";
 
 export const TRIGGER_LABELS: Record<string, string> = {
   proposal_accepted: "Proposal accepted",
   deliverable_approved: "Deliverable approved",
   project_completed: "Project completed",
+  invoice_paid: "Invoice paid",
+  agreement_signed: "Agreement signed",
+  lead_created: "New lead",
+  onboarding_submitted: "Onboarding submitted",
 };
 
 export const ACTION_LABELS: Record<string, string> = {
   create_project_and_tasks: "Create project + tasks",
   notify_team: "Notify the team",
   request_testimonial: "Request testimonial",
+  wait: "Wait",
+  send_email: "Email the client",
+  enroll_in_sequence: "Enroll in an email sequence",
+  move_client_stage: "Move the client's stage",
+  create_deliverables: "Create deliverables",
+  raise_next_invoice: "Invoice the next payment",
 };
 
+// A wait node's length lives in config.days (migration 0035).
+export function waitLabel(days: number): string {
+  return `Wait ${days} day${days === 1 ? "" : "s"}`;
+}
+
 export const STATUS_LABELS: Record<string, string> = {
   active: "Active",
   waiting: "Waiting",
   paused: "Paused",
 };
+
+export const STEP_OUTCOME_LABELS: Record<string, string> = {
+  ran: "Ran",
+  skipped: "Skipped",
+  failed: "Failed",
+};
+
+// The same outcomes, as a simulation reports them.
+export const SIMULATED_OUTCOME_LABELS: Record<string, string> = {
+  ran: "Would run",
+  skipped: "Would skip",
+  failed: "Would fail",
+};
@@ -0,0 +1,146 @@
+// The portable form of a company's Automation Web: every node (trigger,
+// action, settings, position, clearance departments) and every connection
+// (with its branch condition), in a versioned JSON document that migration
+// 0040's import_automation_web() RPC reads back into any company with
+// fresh ids. Nodes are referred to by `ref` -- their id in the source
+// company -- and edges point at refs, never at ids the target company
+// could already have.
+//
+// Bump WEB_DOCUMENT_VERSION (and teach the RPC the new shape) whenever the
+// node or edge fields change meaning; parseWebDocument refuses versions it
+// doesn't know rather than guessing.
+import type { Automation, AutomationEdge, AutomationEdgeCondition } from "./types";
+import { TRIGGER_LABELS, ACTION_LABELS, isValidCondition, validateAutomationConfig } from "./types";
+
+export const WEB_DOCUMENT_FORMAT = "backstage.automation-web";
+export const WEB_DOCUMENT_VERSION = 1;
+
+export interface WebDocumentNode {
+  ref: string;
+  trigger_type: Automation["trigger_type"];
+  action_type: Automation["action_type"];
+  config: Record<string, unknown>;
+  active: boolean;
+  title: string | null;
+  subtitle: string | null;
+  icon: string | null;
+  status: "active" | "paused";
+  position_x: number;
+  position_y: number;
+  clearance_departments: string[];
+}
+
+export interface WebDocumentEdge extends AutomationEdgeCondition {
+  source: string;
+  target: string;
+}
+
+export interface AutomationWebDocument {
+  format: typeof WEB_DOCUMENT_FORMAT;
+  version: typeof WEB_DOCUMENT_VERSION;
+  name: string;
+  exported_at: string;
+  // Null for a starter web, which was never any one company's.
+  source_company_id: string | null;
+  nodes: WebDocumentNode[];
+  edges: WebDocumentEdge[];
+}
+
+export function buildWebDocument(
+  name: string,
+  companyId: string,
+  automations: Automation[],
+  edges: AutomationEdge[]
+): AutomationWebDocument {
+  return {
+    format: WEB_DOCUMENT_FORMAT,
+    version: WEB_DOCUMENT_VERSION,
+    name,
+    exported_at: new Date().toISOString(),
+    source_company_id: companyId,
+    nodes: automations.map((a) => ({
+      ref: a.id,
+      trigger_type: a.trigger_type,
+      action_type: a.action_type,
+      config: a.config ?? {},
+      active: a.active,
+      title: a.title,
+      subtitle: a.subtitle,
+      icon: a.icon,
+      status: a.status === "paused" ? "paused" : "active",
+      position_x: a.position_x,
+      position_y: a.position_y,
+      clearance_departments: a.clearance_departments,
+    })),
+    edges: edges.map((e) => ({
+      source: e.source_automation_id,
+      target: e.target_automation_id,
+      condition_type: e.condition_type,
+      condition_value: e.condition_value,
+      condition_negated: e.condition_negated,
+    })),
+  };
+}
+
+// Checks a pasted or uploaded export before anything is sent -- the RPC
+// and the table constraints check again, this is for a readable error.
+export function parseWebDocument(text: string): { ok: true; document: AutomationWebDocument } | { ok: false; error: string } {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "That isn't valid JSON." };
+  }
+  if (!raw || raw.format !== WEB_DOCUMENT_FORMAT) return { ok: false, error: "That isn't an automation web export." };
+  if (raw.version !== WEB_DOCUMENT_VERSION) {
+    return { ok: false, error: `This export is version ${raw.version}; only version ${WEB_DOCUMENT_VERSION} can be imported here.` };
+  }
+  if (!Array.isArray(raw.nodes) || !Array.isArray(raw.edges)) return { ok: false, error: "This export is missing its steps or connections." };
+
+  const refs = new Set<string>();
+  for (const node of raw.nodes) {
+    if (!node || typeof node.ref !== "string" || refs.has(node.ref)) return { ok: false, error: "Every step in an export needs its own ref." };
+    refs.add(node.ref);
+    if (!(node.trigger_type in TRIGGER_LABELS)) return { ok: false, error: `Unknown trigger: ${node.trigger_type}` };
+    if (!(node.action_type in ACTION_LABELS)) return { ok: false, error: `Unknown action: ${node.action_type}` };
+    const config = validateAutomationConfig(node.action_type, node.config);
+    if (config.ok === false) return { ok: false, error: `"${node.title || ACTION_LABELS[node.action_type]}": ${config.error}` };
+  }
+  for (const edge of raw.edges) {
+    if (!edge || !refs.has(edge.source) || !refs.has(edge.target)) {
+      return { ok: false, error: "A connection in this export points at a step that isn't in it." };
+    }
+    if (!isValidCondition(edge)) return { ok: false, error: "A connection in this export has an invalid condition." };
+  }
+  return { ok: true, document: raw as AutomationWebDocument };
+}
+
+// Task assignees and email sequences are rows of the company the web was
+// exported from -- they mean nothing (and 0038's trigger would reject
+// them) anywhere else. Importing into another company clears them; the
+// count goes back to the founder so they know which settings to redo.
+export function prepareImport(
+  document: AutomationWebDocument,
+  targetCompanyId: string
+): { document: AutomationWebDocument; cleared: number } {
+  if (document.source_company_id === targetCompanyId) return { document, cleared: 0 };
+
+  let cleared = 0;
+  const nodes = document.nodes.map((node) => {
+    const config: Record<string, any> = { ...node.config };
+    if (config.sequence_id) {
+      delete config.sequence_id;
+      cleared++;
+    }
+    if (Array.isArray(config.tasks)) {
+      config.tasks = config.tasks.map((task: Record<string, unknown>) => {
+        if (!task.assignee_id) return task;
+        cleared++;
+        const { assignee_id: _assignee, ...rest } = task;
+        return rest;
+      });
+    }
+    return { ...node, config };
+  });
+  return { document: { ...document, nodes }, cleared };
+}
@@ -5,7 +5,8 @@
 
 import { useEffect, useState, useCallback, useRef } from "react";
 import { supabase } from "./supabase";
-import type { TemplateSection, Selections } from "../api/_lib/proposalEngine";
+import type { TemplateSection, Selections, TaxRate, ComputedTotals } from "../api/_lib/proposalEngine";
+import type { AutomationWebDocument } from "./features/automation-web/webDocument";
 
 // =====================================================
 // TYPES
@@ -949,9 +950,27 @@ export function useProjects(clientId?: string) {
 // read/edit side: the visual canvas at src/features/automation-web/.
 // =====================================================
 
-export type AutomationTriggerType = "proposal_accepted" | "deliverable_approved" | "project_completed";
-export type AutomationActionType = "create_project_and_tasks" | "notify_team" | "request_testimonial";
+export type AutomationTriggerType =
+  | "proposal_accepted"
+  | "deliverable_approved"
+  | "project_completed"
+  | "invoice_paid"
+  | "agreement_signed"
+  | "lead_created"
+  | "onboarding_submitted";
+export type AutomationActionType =
+  | "create_project_and_tasks"
+  | "notify_team"
+  | "request_testimonial"
+  | "wait"
+  | "send_email"
+  | "enroll_in_sequence"
+  | "move_client_stage"
+  | "create_deliverables"
+  | "raise_next_invoice";
 export type AutomationStatus = "active" | "waiting" | "paused"; // neutral, no red/yellow/green
+// Branch predicates (migration 0034) -- see api/_lib/automationConditions.ts.
+export type AutomationConditionType = "proposal_total_over" | "client_track_is" | "project_has_target_date";
 
 export interface Automation {
   id: string;
@@ -976,9 +995,14 @@ export interface AutomationEdge {
   company_id: string;
   source_automation_id: string;
   target_automation_id: string;
+  condition_type: AutomationConditionType | null;
+  condition_value: string | null;
+  condition_negated: boolean;
   created_at: string;
 }
 
+export type AutomationEdgeCondition = Pick<AutomationEdge, "condition_type" | "condition_value" | "condition_negated">;
+
 export async function fetchAutomations(companyId: string): Promise<Automation[]> {
   const { data, error } = await supabase.from("automations").select("*").eq("company_id", companyId).order("created_at", { ascending: true });
   if (error) {
@@ -1011,7 +1035,9 @@ export async function updateAutomationPosition(id: string, positionX: number, po
 
 // Anything that changes what a chain does (active/config/clearance) goes
 // through this after the inline confirm step -- see
-// src/features/automation-web/panel/ConfirmChainChange.tsx.
+// src/features/automation-web/panel/ConfirmChainChange.tsx. Like every
+// structural write below, it also leaves an automation_web_revisions row
+// (migration 0041's trigger) -- nothing to do here to make that happen.
 export async function updateAutomation(
   id: string,
   updates: Partial<Pick<Automation, "active" | "status" | "config" | "clearance_departments" | "title" | "subtitle">>
@@ -1024,10 +1050,33 @@ export async function updateAutomation(
   return true;
 }
 
-export async function createAutomationEdge(companyId: string, sourceId: string, targetId: string): Promise<boolean> {
+// New nodes are only ever created from the fixed trigger/action lists --
+// a new chain from NewAutomationForm, or a wait added after an existing
+// node (migration 0035) -- never as free-form rows. Returns the new row so
+// the caller can connect it.
+export async function createAutomation(
+  automation: Pick<
+    Automation,
+    "company_id" | "trigger_type" | "action_type" | "config" | "title" | "subtitle" | "icon" | "position_x" | "position_y"
+  >
+): Promise<Automation | null> {
+  const { data, error } = await supabase.from("automations").insert(automation).select().single();
+  if (error) {
+    console.error("Error creating automation:", error);
+    return null;
+  }
+  return data;
+}
+
+export async function createAutomationEdge(
+  companyId: string,
+  sourceId: string,
+  targetId: string,
+  condition?: AutomationEdgeCondition
+): Promise<boolean> {
   const { error } = await supabase
     .from("automation_edges")
-    .insert({ company_id: companyId, source_automation_id: sourceId, target_automation_id: targetId });
+    .insert({ company_id: companyId, source_automation_id: sourceId, target_automation_id: targetId, ...condition });
   if (error) {
     console.error("Error creating automation edge:", error);
     return false;
@@ -1035,6 +1084,18 @@ export async function createAutomationEdge(companyId: string, sourceId: string,
   return true;
 }
 
+// Changing a branch condition changes what the chain does, so this also
+// goes through the inline confirm step first. automation_edges' check
+// constraints reject anything outside the fixed predicate list.
+export async function updateAutomationEdgeCondition(id: string, condition: AutomationEdgeCondition): Promise<boolean> {
+  const { error } = await supabase.from("automation_edges").update(condition).eq("id", id);
+  if (error) {
+    console.error("Error updating automation edge condition:", error);
+    return false;
+  }
+  return true;
+}
+
 export async function deleteAutomationEdge(id: string): Promise<boolean> {
   const { error } = await supabase.from("automation_edges").delete().eq("id", id);
   if (error) {
@@ -1044,6 +1105,109 @@ export async function deleteAutomationEdge(id: string): Promise<boolean> {
   return true;
 }
 
+// Brings in an exported -- or starter -- web (see
+// src/features/automation-web/webDocument.ts) through the
+// import_automation_web RPC (migration 0040): one transaction, fresh ids,
+// founder-only. `replace` deletes the company's current web first.
+// Resolves to how many steps were created.
+export async function importAutomationWeb(
+  companyId: string,
+  document: object,
+  replace: boolean
+): Promise<{ ok: boolean; created?: number; error?: string }> {
+  const { data, error } = await supabase.rpc("import_automation_web", {
+    p_company_id: companyId,
+    p_document: document,
+    p_replace: replace,
+  });
+  if (error) {
+    console.error("Error importing automation web:", error);
+    return { ok: false, error: error.message };
+  }
+  return { ok: true, created: data ?? 0 };
+}
+
+// Version history (migration 0041): one row per transaction that changed
+// the web's structure, with the whole web as it stood afterwards. Newest
+// first; the author is joined in for the history list.
+export interface AutomationWebRevision {
+  id: string;
+  company_id: string;
+  created_by: string | null;
+  created_at: string;
+  restored_from: string | null;
+  snapshot: AutomationWebDocument | null;
+  profiles: { display_name: string | null } | null;
+}
+
+export async function fetchAutomationWebRevisions(companyId: string, limit = 50): Promise<AutomationWebRevision[]> {
+  const { data, error } = await supabase
+    .from("automation_web_revisions")
+    .select("*, profiles(display_name)")
+    .eq("company_id", companyId)
+    .not("snapshot", "is", null)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) {
+    console.error("Error fetching automation web revisions:", error);
+    return [];
+  }
+  return (data as any) || [];
+}
+
+// Puts the whole web back as a revision recorded it, atomically, through
+// restore_automation_web_revision (founder-only). The restore is recorded
+// as a revision of its own, so it can be undone the same way.
+export async function restoreAutomationWebRevision(revisionId: string): Promise<{ ok: boolean; error?: string }> {
+  const { error } = await supabase.rpc("restore_automation_web_revision", { p_revision_id: revisionId });
+  if (error) {
+    console.error("Error restoring automation web revision:", error);
+    return { ok: false, error: error.message };
+  }
+  return { ok: true };
+}
+
+// Execution log (migration 0033) -- one row per step a node actually took
+// in a run, written by api/_lib/automationRunLog.ts. The parent run's
+// client is joined in so the Run history panel can show (and filter by)
+// who a step ran for.
+export type AutomationStepOutcome = "ran" | "skipped" | "failed";
+
+export interface AutomationRunStep {
+  id: string;
+  run_id: string;
+  company_id: string;
+  automation_id: string | null;
+  action_type: string;
+  step_order: number;
+  context: Record<string, unknown>;
+  outcome: AutomationStepOutcome;
+  detail: string | null;
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  automation_runs: {
+    trigger_type: string;
+    client_id: string | null;
+    status: "running" | "completed" | "failed";
+    clients: { name: string } | null;
+  } | null;
+}
+
+export async function fetchAutomationRunSteps(automationId: string, limit = 25): Promise<AutomationRunStep[]> {
+  const { data, error } = await supabase
+    .from("automation_run_steps")
+    .select("*, automation_runs(trigger_type, client_id, status, clients(name))")
+    .eq("automation_id", automationId)
+    .order("started_at", { ascending: false })
+    .limit(limit);
+  if (error) {
+    console.error("Error fetching automation run steps:", error);
+    return [];
+  }
+  return (data as any) || [];
+}
+
 export function useAutomationWeb(companyId: string | null) {
   const [automations, setAutomations] = useState<Automation[]>([]);
   const [edges, setEdges] = useState<AutomationEdge[]>([]);
@@ -1104,6 +1268,9 @@ export interface BrandKit {
     light?: string;
     dark?: string;
   };
+  // The logo generated PDFs embed, as a PNG or JPEG data URL (migration
+  // 0053) -- stored rather than fetched from logo_variants at render time.
+  pdf_logo: string | null;
   color_primary: string | null;
   color_secondary: string | null;
   color_accent: string | null;
@@ -1113,6 +1280,13 @@ export interface BrandKit {
   tone_notes: string | null;
   policy_defaults: Record<string, string>;
   cashflow_bands: Record<string, number>;
+  // The weekly income the cash-flow forecast warns below (migration 0051).
+  cashflow_weekly_floor: number | null;
+  // Days relative to an installment's due date to email the client a
+  // payment reminder -- negative is before. Empty means no reminders.
+  payment_reminder_days: number[];
+  // Goes in front of each new invoice's number (migration 0050).
+  invoice_prefix: string;
   share_slug: string;
   created_at: string;
   updated_at: string;
@@ -1866,7 +2040,16 @@ export interface GeneratedDocument {
   id: string;
   template_id: string;
   client_id: string | null;
-  field_values: { authored: Record<string, unknown>; selections: Selections };
+  // promo_code/unlocked_adjustments are only ever written by
+  // api/submit-proposal-selections.ts, after matching the code.
+  field_values: {
+    authored: Record<string, unknown>;
+    selections: Selections;
+    promo_code?: string | null;
+    unlocked_adjustments?: string[];
+    // Snapshotted at acceptance; before that the company's current rates apply.
+    tax_rates?: TaxRate[];
+  };
   status: "draft" | "finalized" | "sent" | "viewed";
   gdrive_file_id: string | null;
   gdrive_folder_id: string | null;
@@ -1879,18 +2062,47 @@ export interface GeneratedDocument {
 export interface ProposalRecord {
   id: string;
   client_id: string;
-  status: "draft" | "sent" | "viewed" | "accepted" | "declined";
+  status: "draft" | "sent" | "viewed" | "accepted" | "declined" | "expired";
   generated_document_id: string | null;
   event_date: string | null;
+  // Past this, the cron marks the proposal expired (migration 0045). Null
+  // means it never expires.
+  expires_at: string | null;
+  // The latest proposal_revisions number (migration 0044); null until sent.
+  current_revision: number | null;
   created_at: string;
   updated_at: string;
 }
 
+// A frozen version of a proposal: what it offered when published, and
+// what it came to at the starting choices (null for a v1 backfilled by
+// migration 0044).
+export interface ProposalRevision {
+  id: string;
+  proposal_id: string;
+  client_id: string;
+  revision_number: number;
+  structure: TemplateSection[];
+  authored: Record<string, unknown>;
+  totals: ComputedTotals | null;
+  created_by: string | null;
+  created_at: string;
+}
+
 export interface PaymentSchedule {
   id: string;
   proposal_id: string | null;
   client_id: string;
+  // Per cycle for a retainer (billing_interval set -- migration 0046).
   total_amount: number;
+  tax_amount: number;
+  billing_interval: "month" | "quarter" | null;
+  billing_cycles: number | null;
+  billing_anchor_date: string | null;
+  next_billing_date: string | null;
+  stripe_subscription_id: string | null;
+  status: "active" | "completed" | "cancelled";
+  ended_at: string | null;
   created_at: string;
 }
 
@@ -1898,13 +2110,99 @@ export interface PaymentInstallment {
   id: string;
   payment_schedule_id: string;
   sequence_number: number;
+  // Tax-inclusive; tax_amount is the part of it that's sales tax.
   amount: number;
-  due_rule_type: "on_signing" | "days_after_signing" | "days_before_event";
+  tax_amount: number;
+  due_rule_type: "on_signing" | "days_after_signing" | "days_before_event" | "recurring";
   due_rule_offset_days: number | null;
   due_date: string | null;
   invoice_id: string | null;
-  status: "pending" | "invoiced" | "paid" | "overdue";
+  // failed/refunded/partially_refunded/disputed are set by the Stripe webhook.
+  status:
+    | "pending"
+    | "invoiced"
+    | "partially_paid"
+    | "paid"
+    | "overdue"
+    | "failed"
+    | "refunded"
+    | "partially_refunded"
+    | "disputed";
   created_at: string;
+  // Embedded by fetchPaymentScheduleForProposal. The balance is amount
+  // less these -- never stored (migration 0049).
+  installment_payments?: InstallmentPayment[];
+  invoices?: { invoice_number: string | null; share_token: string } | null;
+}
+
+export interface InstallmentPayment {
+  id: string;
+  installment_id: string;
+  client_id: string;
+  amount: number;
+  method: "stripe" | "check" | "bank_transfer" | "cash" | "other";
+  reference: string | null;
+  paid_on: string;
+  recorded_by: string | null;
+  created_at: string;
+}
+
+// A company's sales tax rates (migration 0043). Every active rate applies
+// to a proposal's taxable line items -- see computeDocumentTotals.
+export interface CompanyTaxRate {
+  id: string;
+  company_id: string;
+  name: string;
+  rate: number;
+  active: boolean;
+  created_at: string;
+}
+
+export async function fetchTaxRates(companyId: string): Promise<CompanyTaxRate[]> {
+  const { data, error } = await supabase
+    .from("company_tax_rates")
+    .select("*")
+    .eq("company_id", companyId)
+    .order("created_at", { ascending: true });
+  if (error) {
+    console.error("Error fetching tax rates:", error);
+    return [];
+  }
+  return (data || []).map((r) => ({ ...r, rate: Number(r.rate) }));
+}
+
+// The rates a not-yet-accepted proposal is taxed at, in the shape
+// computeDocumentTotals takes.
+export async function fetchActiveTaxRates(companyId: string): Promise<TaxRate[]> {
+  const rates = await fetchTaxRates(companyId);
+  return rates.filter((r) => r.active).map((r) => ({ name: r.name, rate: r.rate }));
+}
+
+export async function createTaxRate(companyId: string, name: string, rate: number): Promise<boolean> {
+  const { error } = await supabase.from("company_tax_rates").insert({ company_id: companyId, name, rate });
+  if (error) {
+    console.error("Error creating tax rate:", error);
+    return false;
+  }
+  return true;
+}
+
+export async function updateTaxRate(id: string, updates: Partial<Pick<CompanyTaxRate, "name" | "rate" | "active">>): Promise<boolean> {
+  const { error } = await supabase.from("company_tax_rates").update(updates).eq("id", id);
+  if (error) {
+    console.error("Error updating tax rate:", error);
+    return false;
+  }
+  return true;
+}
+
+export async function deleteTaxRate(id: string): Promise<boolean> {
+  const { error } = await supabase.from("company_tax_rates").delete().eq("id", id);
+  if (error) {
+    console.error("Error deleting tax rate:", error);
+    return false;
+  }
+  return true;
 }
 
 export async function createTemplate(params: {
@@ -1945,6 +2243,41 @@ export async function deleteTemplate(id: string): Promise<boolean> {
   return true;
 }
 
+// Promo codes for a template's code-gated adjustments (migration 0042),
+// keyed by adjustment key. Kept out of the template's structure because
+// the client portal can read that.
+export async function fetchPromoCodes(templateId: string): Promise<Record<string, string>> {
+  const { data, error } = await supabase.from("proposal_promo_codes").select("adjustment_key, code").eq("template_id", templateId);
+  if (error) {
+    console.error("Error fetching promo codes:", error);
+    return {};
+  }
+  return Object.fromEntries((data || []).map((row) => [row.adjustment_key, row.code]));
+}
+
+// Replaces a template's promo codes with `codes` -- any adjustment not in
+// it (removed, or no longer gated) loses its code.
+export async function savePromoCodes(companyId: string, templateId: string, codes: Record<string, string>): Promise<boolean> {
+  const keys = Object.keys(codes);
+  let deletion = supabase.from("proposal_promo_codes").delete().eq("template_id", templateId);
+  if (keys.length > 0) deletion = deletion.not("adjustment_key", "in", `(${keys.map((k) => `"${k}"`).join(",")})`);
+  const { error: deleteError } = await deletion;
+  if (deleteError) {
+    console.error("Error clearing promo codes:", deleteError);
+    return false;
+  }
+  if (keys.length === 0) return true;
+  const { error } = await supabase.from("proposal_promo_codes").upsert(
+    keys.map((key) => ({ company_id: companyId, template_id: templateId, adjustment_key: key, code: codes[key] })),
+    { onConflict: "template_id,adjustment_key" }
+  );
+  if (error) {
+    console.error("Error saving promo codes:", error);
+    return false;
+  }
+  return true;
+}
+
 export async function fetchDocumentTemplates(
   companyId: string,
   type?: string
@@ -2010,14 +2343,18 @@ export async function createProposal(params: {
   return { generatedDocument: doc, proposal };
 }
 
-export async function markProposalSent(generatedDocumentId: string, proposalId: string): Promise<boolean> {
+export async function markProposalSent(
+  generatedDocumentId: string,
+  proposalId: string,
+  expiresAt: string | null = null
+): Promise<boolean> {
   const { error: docErr } = await supabase
     .from("generated_documents")
     .update({ status: "sent" })
     .eq("id", generatedDocumentId);
   const { error: propErr } = await supabase
     .from("proposals")
-    .update({ status: "sent" })
+    .update({ status: "sent", expires_at: expiresAt })
     .eq("id", proposalId);
   if (docErr || propErr) {
     console.error("Error marking proposal sent:", docErr || propErr);
@@ -2026,6 +2363,60 @@ export async function markProposalSent(generatedDocumentId: string, proposalId:
   return true;
 }
 
+// Oldest first, so revisions[0] is v1 and the last is the one in force.
+export async function fetchProposalRevisions(proposalId: string): Promise<ProposalRevision[]> {
+  const { data, error } = await supabase
+    .from("proposal_revisions")
+    .select("*")
+    .eq("proposal_id", proposalId)
+    .order("revision_number", { ascending: true });
+  if (error) {
+    console.error("Error fetching proposal revisions:", error);
+    return [];
+  }
+  return data || [];
+}
+
+// Founder-only (the RPC checks). Makes `structure` and `authored` the
+// version in front of the client; `selections` should already have the
+// entries for items the new structure dropped taken out.
+export async function publishProposalRevision(params: {
+  proposalId: string;
+  structure: TemplateSection[];
+  authored: Record<string, unknown>;
+  selections: Selections;
+  totals: ComputedTotals;
+}): Promise<{ ok: boolean; revisionNumber?: number; error?: string }> {
+  const { data, error } = await supabase.rpc("publish_proposal_revision", {
+    p_proposal_id: params.proposalId,
+    p_structure: params.structure,
+    p_authored: params.authored,
+    p_selections: params.selections,
+    p_totals: params.totals,
+  });
+  if (error) {
+    console.error("Error publishing proposal revision:", error);
+    return { ok: false, error: error.message };
+  }
+  return { ok: true, revisionNumber: data as number };
+}
+
+// Founder-only (enforce_founder_only_transitions, migration 0045). An
+// expired proposal goes back to "sent" -- extending it is reopening it.
+export async function extendProposalExpiry(
+  proposal: ProposalRecord,
+  expiresAt: string | null
+): Promise<{ ok: boolean; error?: string }> {
+  const updates: Partial<ProposalRecord> = { expires_at: expiresAt };
+  if (proposal.status === "expired") updates.status = "sent";
+  const { error } = await supabase.from("proposals").update(updates).eq("id", proposal.id);
+  if (error) {
+    console.error("Error extending proposal expiry:", error);
+    return { ok: false, error: error.message };
+  }
+  return { ok: true };
+}
+
 export type ProposalWithDocument = ProposalRecord & { generated_documents: GeneratedDocument | null };
 
 export async function fetchProposalsForClient(clientId: string): Promise<ProposalWithDocument[]> {
@@ -2081,9 +2472,10 @@ export async function fetchPaymentScheduleForProposal(
 
   const { data: installments, error: installmentsError } = await supabase
     .from("payment_installments")
-    .select("*")
+    .select("*, installment_payments(*), invoices(invoice_number, share_token)")
     .eq("payment_schedule_id", schedule.id)
-    .order("sequence_number", { ascending: true });
+    .order("sequence_number", { ascending: true })
+    .order("paid_on", { referencedTable: "installment_payments", ascending: true });
 
   if (installmentsError) {
     console.error("Error fetching payment installments:", installmentsError);
@@ -2093,6 +2485,30 @@ export async function fetchPaymentScheduleForProposal(
   return { schedule, installments: installments || [] };
 }
 
+// Founder-only (the RPC checks). For money taken outside Stripe -- a check,
+// a bank transfer -- in full or in part. Resolves to the installment's new
+// status.
+export async function recordInstallmentPayment(params: {
+  installmentId: string;
+  amount: number;
+  method: Exclude<InstallmentPayment["method"], "stripe">;
+  reference: string;
+  paidOn: string;
+}): Promise<{ ok: boolean; status?: "paid" | "partially_paid"; error?: string }> {
+  const { data, error } = await supabase.rpc("record_installment_payment", {
+    p_installment_id: params.installmentId,
+    p_amount: params.amount,
+    p_method: params.method,
+    p_reference: params.reference,
+    p_paid_on: params.paidOn,
+  });
+  if (error) {
+    console.error("Error recording payment:", error);
+    return { ok: false, error: error.message };
+  }
+  return { ok: true, status: data as "paid" | "partially_paid" };
+}
+
 export interface Deliverable {
   id: string;
   project_id: string;
@@ -2565,7 +2981,7 @@ export async function acceptStageTransition(transitionId: string): Promise<boole
 export interface SafetyNetNudge {
   id: string;
   company_id: string;
-  type: "cash_buffer" | "quiet_lead" | "seasonal_dip" | "stage_progress";
+  type: "cash_buffer" | "quiet_lead" | "seasonal_dip" | "stage_progress" | "overdue_payment" | "cashflow_forecast";
   message: string;
   created_at: string;
   dismissed_at: string | null;
@@ -0,0 +1,56 @@
+-- Automation Web: persisted execution log. runTrigger/executeChain
+-- (api/_lib/automationRuntime.ts) used to return nothing, so a handler
+-- silently bailing (e.g. create_project_and_tasks with no clientName on
+-- the trigger) left no trace anywhere -- the "never silent" rule from the
+-- build spec's Section 8 only held for the status pill, not for what a
+-- chain actually did. One automation_runs row per trigger firing, one
+-- automation_run_steps row per node visited, in the order visited.
+--
+-- Written by whichever client fired the trigger: the service-role client
+-- from an api/ route, or a team member's own session from
+-- DashboardApp.tsx's project_completed call -- so both tables get the same
+-- team_full_access (is_company_member) policy as automations itself, which
+-- already covers that second path.
+
+create table public.automation_runs (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  trigger_type text not null,
+  -- Nullable: deliverable_approved/project_completed don't carry a client
+  -- through AutomationTriggerContext today.
+  client_id uuid references public.clients(id) on delete set null,
+  context jsonb not null default '{}'::jsonb,
+  status text not null default 'running'
+    check (status in ('running', 'completed', 'failed')),
+  started_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+create index automation_runs_company_id_idx on public.automation_runs(company_id);
+create index automation_runs_client_id_idx on public.automation_runs(client_id);
+alter table public.automation_runs enable row level security;
+create policy "team_full_access" on public.automation_runs for all
+  using (is_company_member(company_id)) with check (is_company_member(company_id));
+
+create table public.automation_run_steps (
+  id uuid primary key default gen_random_uuid(),
+  run_id uuid not null references public.automation_runs(id) on delete cascade,
+  company_id uuid not null references public.companies(id) on delete cascade,
+  -- set null, not cascade: deleting a node shouldn't erase the record of
+  -- what it already did. action_type is copied onto the step for the same
+  -- reason.
+  automation_id uuid references public.automations(id) on delete set null,
+  action_type text not null,
+  step_order integer not null,
+  context jsonb not null default '{}'::jsonb,
+  outcome text not null check (outcome in ('ran', 'skipped', 'failed')),
+  -- Why a step was skipped, or the error message a failed step threw.
+  detail text,
+  started_at timestamptz not null,
+  finished_at timestamptz not null,
+  duration_ms integer not null
+);
+create index automation_run_steps_run_id_idx on public.automation_run_steps(run_id);
+create index automation_run_steps_automation_id_idx on public.automation_run_steps(automation_id);
+alter table public.automation_run_steps enable row level security;
+create policy "team_full_access" on public.automation_run_steps for all
+  using (is_company_member(company_id)) with check (is_company_member(company_id));
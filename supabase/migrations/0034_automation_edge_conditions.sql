@@ -0,0 +1,32 @@
+-- Automation Web: conditional branches. Until now every automation_edges
+-- row meant "then run this", unconditionally -- one node could fan out,
+-- but never choose. These columns let an edge carry one predicate from a
+-- fixed, reviewed list (api/_lib/automationConditions.ts), evaluated by
+-- automationRuntime.ts when the chain reaches it:
+--
+--   proposal_total_over      value = dollar amount, e.g. '5000'
+--   client_track_is          value = a clients.track value, e.g. 'ceo'
+--   project_has_target_date  no value
+--
+-- condition_negated is the "otherwise" side, so one node can route to two
+-- different next steps on the same predicate. Existing edges keep
+-- condition_type null and behave exactly as before.
+--
+-- The check constraints are what keep this bounded rather than arbitrary
+-- (build spec Section 3): a founder picks a predicate and fills in its
+-- value -- there is no expression language here, and an unknown predicate
+-- or a malformed value is rejected by the database, not just the UI.
+
+alter table public.automation_edges
+  add column condition_type text
+    check (condition_type in ('proposal_total_over', 'client_track_is', 'project_has_target_date')),
+  add column condition_value text,
+  add column condition_negated boolean not null default false;
+
+alter table public.automation_edges
+  add constraint automation_edges_condition_shape check (
+    (condition_type is null and condition_value is null and not condition_negated)
+    or (condition_type = 'proposal_total_over' and condition_value ~ '^\d+(\.\d{1,2})?$')
+    or (condition_type = 'client_track_is' and condition_value in ('freelancer', 'founder_mini', 'founder_full', 'ceo'))
+    or (condition_type = 'project_has_target_date' and condition_value is null)
+  );
@@ -0,0 +1,39 @@
+-- Automation Web: delayed "wait N days" steps. Every node used to fire
+-- synchronously inside whichever request fired the trigger (respond.ts,
+-- submit-proposal-selections.ts, the dashboard's project_completed call),
+-- so "request a testimonial 14 days after the project completed" had no
+-- way to be expressed. A 'wait' node (length in automations.config.days)
+-- now parks the rest of its chain here with a run_at time; the daily cron
+-- (api/cron/process-email-sequences.ts) resumes due rows through
+-- automationRuntime.ts's resumeChain(). This is also what finally gives
+-- the 'waiting' status from 0028 a real meaning: a wait node shows it
+-- while it has anything parked.
+
+alter table public.automations drop constraint automations_action_type_check;
+alter table public.automations add constraint automations_action_type_check
+  check (action_type in ('create_project_and_tasks', 'notify_team', 'request_testimonial', 'wait'));
+
+create table public.automation_waits (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  -- The wait node itself. Cascade: deleting the node drops what it was
+  -- holding, rather than resuming a chain from a node that's gone.
+  automation_id uuid not null references public.automations(id) on delete cascade,
+  -- The trigger of the firing that parked this, so the resumed run is
+  -- logged under the same trigger in automation_runs.
+  trigger_type text not null,
+  -- The firing's AutomationTriggerContext, verbatim.
+  context jsonb not null default '{}'::jsonb,
+  run_at timestamptz not null,
+  status text not null default 'waiting'
+    check (status in ('waiting', 'resumed')),
+  created_at timestamptz not null default now(),
+  resumed_at timestamptz
+);
+create index automation_waits_due_idx on public.automation_waits(status, run_at);
+create index automation_waits_automation_id_idx on public.automation_waits(automation_id);
+alter table public.automation_waits enable row level security;
+-- Same reasoning as automation_runs (0033): the dashboard's
+-- project_completed call parks chains under a team member's own session.
+create policy "team_full_access" on public.automation_waits for all
+  using (is_company_member(company_id)) with check (is_company_member(company_id));
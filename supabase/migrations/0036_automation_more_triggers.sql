@@ -0,0 +1,18 @@
+-- Automation Web: four more triggers founders can build chains off. Each
+-- fires from the one place that event already happens, through
+-- automationRuntime.ts's runTrigger (best-effort, like the original three):
+--
+--   invoice_paid          api/stripe-webhook.ts, checkout.session.completed
+--   agreement_signed      api/respond.ts, the agreement branch
+--   lead_created          api/submit-lead.ts and api/submit-intake.ts
+--   onboarding_submitted  api/submit-onboarding.ts
+--
+-- Only the check constraint from 0012 changes -- no existing row is
+-- touched, and a company with no nodes on these triggers sees no change.
+
+alter table public.automations drop constraint automations_trigger_type_check;
+alter table public.automations add constraint automations_trigger_type_check
+  check (trigger_type in (
+    'proposal_accepted', 'deliverable_approved', 'project_completed',
+    'invoice_paid', 'agreement_signed', 'lead_created', 'onboarding_submitted'
+  ));
@@ -0,0 +1,19 @@
+-- Automation Web: five more vetted actions, each a reviewed handler in
+-- api/_lib/automationHandlers/ dispatched by automationRuntime.ts:
+--
+--   send_email          one email to the client (config: subject, body)
+--   enroll_in_sequence  enroll the client in an email_sequences row
+--                       (config: sequence_id)
+--   move_client_stage   set clients.stage (config: stage)
+--   create_deliverables add a list of deliverables to the project
+--                       (config: deliverables [{title, description}])
+--   raise_next_invoice  invoice the next pending payment_installments row
+--
+-- Same shape as 0035/0036: only the check constraint from 0012 changes.
+
+alter table public.automations drop constraint automations_action_type_check;
+alter table public.automations add constraint automations_action_type_check
+  check (action_type in (
+    'create_project_and_tasks', 'notify_team', 'request_testimonial', 'wait',
+    'send_email', 'enroll_in_sequence', 'move_client_stage', 'create_deliverables', 'raise_next_invoice'
+  ));
@@ -0,0 +1,133 @@
+-- Automation Web: typed per-node settings. automations.config (0012) is
+-- now read by the runtime for every action_type -- message templates with
+-- {{client_name}}, the kickoff task list with assignees and due offsets,
+-- the testimonial prompt, a wait's length, and so on (the full shape is
+-- AutomationConfigs in api/_lib/automationConfig.ts).
+--
+-- The dashboard writes automations directly under RLS, so there is no
+-- api/ route to validate a save in. This trigger is that server-side check:
+-- it rejects the same malformed shapes validateAutomationConfig() does, so
+-- a hand-crafted request can't store a config the runtime would trip on.
+-- The runtime still re-validates before acting -- this guards the write,
+-- that guards the read.
+
+-- Only {{client_name}} is a known placeholder; any other {{name}} is
+-- rejected rather than sent out as literal braces.
+create or replace function public.automation_template_ok(template jsonb)
+returns boolean
+language sql
+immutable
+as $$
+  select template is null
+    or template = 'null'::jsonb
+    or (
+      jsonb_typeof(template) = 'string'
+      and length(template #>> '{}') <= 5000
+      and regexp_replace(template #>> '{}', '\{\{\s*client_name\s*\}\}', '', 'g') !~ '\{\{\s*[a-z_]+\s*\}\}'
+    );
+$$;
+
+-- A list of {title, ...} objects, each with a non-blank title, at most 25.
+create or replace function public.automation_titled_list_ok(list jsonb)
+returns boolean
+language sql
+immutable
+as $$
+  select list is null
+    or list = 'null'::jsonb
+    or (
+      jsonb_typeof(list) = 'array'
+      and jsonb_array_length(list) <= 25
+      and not exists (
+        select 1 from jsonb_array_elements(list) entry
+        where jsonb_typeof(entry) <> 'object'
+          or jsonb_typeof(entry -> 'title') is distinct from 'string'
+          or btrim(entry ->> 'title') = ''
+      )
+    );
+$$;
+
+create or replace function public.validate_automation_config()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  cfg jsonb := coalesce(NEW.config, '{}'::jsonb);
+begin
+  if jsonb_typeof(cfg) <> 'object' then
+    raise exception 'Automation settings must be an object';
+  end if;
+
+  if NEW.action_type = 'create_project_and_tasks' then
+    if not automation_titled_list_ok(cfg -> 'tasks') then
+      raise exception 'Kickoff tasks must be a list of up to 25 tasks, each with a title';
+    end if;
+    if exists (
+      -- nullif: a JSON null passes the check above, and coalesce alone
+      -- only catches SQL null.
+      select 1 from jsonb_array_elements(coalesce(nullif(cfg -> 'tasks', 'null'::jsonb), '[]'::jsonb)) task
+      where not automation_template_ok(task -> 'title')
+        or not automation_template_ok(task -> 'description')
+        or (task ? 'due_offset_days' and task -> 'due_offset_days' <> 'null'::jsonb
+            and (jsonb_typeof(task -> 'due_offset_days') <> 'number'
+                 or (task ->> 'due_offset_days')::numeric not between 0 and 365
+                 or (task ->> 'due_offset_days')::numeric <> trunc((task ->> 'due_offset_days')::numeric)))
+        or (task ? 'assignee_id' and task -> 'assignee_id' <> 'null'::jsonb
+            and not exists (
+              select 1 from company_members cm
+              where cm.company_id = NEW.company_id
+                and cm.profile_id::text = task ->> 'assignee_id'
+            ))
+    ) then
+      raise exception 'A kickoff task has an invalid title, due offset, or assignee';
+    end if;
+  elsif NEW.action_type = 'notify_team' then
+    if not automation_template_ok(cfg -> 'message_template') then
+      raise exception 'The message template is invalid';
+    end if;
+  elsif NEW.action_type = 'request_testimonial' then
+    if not automation_template_ok(cfg -> 'prompt') then
+      raise exception 'The testimonial prompt is invalid';
+    end if;
+  elsif NEW.action_type = 'wait' then
+    if cfg ? 'days' and cfg -> 'days' <> 'null'::jsonb
+       and (jsonb_typeof(cfg -> 'days') <> 'number'
+            or (cfg ->> 'days')::numeric not between 1 and 365
+            or (cfg ->> 'days')::numeric <> trunc((cfg ->> 'days')::numeric)) then
+      raise exception 'A wait must be a whole number of days from 1 to 365';
+    end if;
+  elsif NEW.action_type = 'send_email' then
+    if not automation_template_ok(cfg -> 'subject') or not automation_template_ok(cfg -> 'body') then
+      raise exception 'The email subject or message is invalid';
+    end if;
+  elsif NEW.action_type = 'enroll_in_sequence' then
+    if cfg ? 'sequence_id' and cfg -> 'sequence_id' <> 'null'::jsonb
+       and not exists (
+         select 1 from email_sequences s
+         where s.company_id = NEW.company_id and s.id::text = cfg ->> 'sequence_id'
+       ) then
+      raise exception 'That email sequence does not belong to this company';
+    end if;
+  elsif NEW.action_type = 'move_client_stage' then
+    if cfg ? 'stage' and cfg -> 'stage' <> 'null'::jsonb
+       and (cfg ->> 'stage') not in ('lead', 'proposal_sent', 'active', 'delivered', 'archived') then
+      raise exception 'Invalid client stage';
+    end if;
+  elsif NEW.action_type = 'create_deliverables' then
+    if not automation_titled_list_ok(cfg -> 'deliverables') then
+      raise exception 'Deliverables must be a list of up to 25 items, each with a title';
+    end if;
+  end if;
+
+  return NEW;
+end;
+$$;
+
+create trigger validate_automation_config
+  before insert or update of config, action_type on public.automations
+  for each row execute function public.validate_automation_config();
+
+-- Where request_testimonial's configured prompt lands: the portal's
+-- offboarding card shows it in place of its generic ask when set.
+alter table public.projects add column testimonial_prompt text;
@@ -0,0 +1,52 @@
+-- Automation Web: safe re-firing and retried failures.
+--
+-- Every trigger call site (submit-proposal-selections.ts, respond.ts, the
+-- Stripe webhook, ...) can be retried -- by the client re-submitting, by
+-- Stripe redelivering -- and each retry used to walk the whole web again,
+-- creating a second project, a second invoice. A firing now carries an
+-- idempotency key built from its trigger and the record it's about (the
+-- proposal for proposal_accepted, the invoice for invoice_paid, and so on
+-- -- see firingKey() in api/_lib/automationRuntime.ts). The first firing's
+-- automation_runs row claims the key; a repeat hits this unique index and
+-- runTrigger does nothing. Runs without a key (a resumed wait, a retry, a
+-- firing missing the record its key needs) stay null and never collide.
+alter table public.automation_runs add column idempotency_key text;
+create unique index automation_runs_idempotency_key_idx
+  on public.automation_runs(company_id, idempotency_key)
+  where idempotency_key is not null;
+
+-- A node whose handler throws no longer aborts the rest of the firing: it
+-- is recorded as failed, nothing downstream of it runs, its siblings carry
+-- on -- and it's queued here. The daily cron re-runs due rows through
+-- automationRuntime.ts's retryFailedStep() with growing gaps (1, 2, then 4
+-- days -- RETRY_DELAYS_DAYS in api/_lib/automationRetries.ts); when the
+-- node succeeds, the chain continues from it. After the last retry fails
+-- the row is marked gave_up and the founders are told.
+create table public.automation_retries (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  -- The node that failed. Cascade, same as automation_waits (0035):
+  -- deleting the node drops its retries.
+  automation_id uuid not null references public.automations(id) on delete cascade,
+  -- The run it first failed in.
+  run_id uuid references public.automation_runs(id) on delete set null,
+  trigger_type text not null,
+  -- The firing's AutomationTriggerContext, verbatim.
+  context jsonb not null default '{}'::jsonb,
+  -- Retries made so far (the original failure isn't counted).
+  attempts integer not null default 0,
+  last_error text,
+  next_attempt_at timestamptz not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'retrying', 'succeeded', 'gave_up')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+create index automation_retries_due_idx on public.automation_retries(status, next_attempt_at);
+create index automation_retries_automation_id_idx on public.automation_retries(automation_id);
+alter table public.automation_retries enable row level security;
+-- Same reasoning as automation_runs (0033): the dashboard's
+-- project_completed call can queue a retry under a team member's own
+-- session.
+create policy "team_full_access" on public.automation_retries for all
+  using (is_company_member(company_id)) with check (is_company_member(company_id));
@@ -0,0 +1,109 @@
+-- Automation Web: export, import and clone between companies. A founder
+-- running several companies used to rebuild the same chains in each one's
+-- automations / automation_edges rows by hand. The dashboard now exports a
+-- company's web as a versioned JSON document (format
+-- 'backstage.automation-web', built and parsed by
+-- src/features/automation-web/webDocument.ts) and imports one through this
+-- RPC -- nodes first, each document ref mapped to its freshly generated
+-- id, then edges through that map -- in one transaction, so a bad edge
+-- halfway through can't leave half a web behind. The same call seeds a new
+-- company from the starter gallery in OrgSignupWizard.tsx.
+--
+-- Founder-only, like every other web edit. Security definer for the
+-- atomic delete-and-replace; every row still goes through the table's own
+-- check constraints and 0038's validate_automation_config() trigger, so an
+-- import can't store anything the editor couldn't.
+create or replace function public.import_automation_web(p_company_id uuid, p_document jsonb, p_replace boolean default false)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_refs jsonb := '{}'::jsonb;
+  v_node jsonb;
+  v_edge jsonb;
+  v_id uuid;
+  v_offset double precision := 0;
+  v_created integer := 0;
+begin
+  if not is_company_founder(p_company_id) then
+    raise exception 'Only a founder of this company can import an automation web';
+  end if;
+
+  if p_document ->> 'format' is distinct from 'backstage.automation-web'
+     or p_document ->> 'version' is distinct from '1'
+     or jsonb_typeof(p_document -> 'nodes') is distinct from 'array'
+     or jsonb_typeof(p_document -> 'edges') is distinct from 'array' then
+    raise exception 'This is not an automation web export this version can read';
+  end if;
+
+  if jsonb_array_length(p_document -> 'nodes') > 200 then
+    raise exception 'An automation web can have at most 200 steps';
+  end if;
+
+  if p_replace then
+    delete from public.automations where company_id = p_company_id;
+  else
+    -- Added alongside an existing web: lay the import out below it, the
+    -- same way NewAutomationForm stacks a new chain.
+    select coalesce(max(position_y) + 140, 0) into v_offset
+    from public.automations where company_id = p_company_id;
+    v_offset := v_offset - coalesce((
+      select min((n ->> 'position_y')::double precision) from jsonb_array_elements(p_document -> 'nodes') n
+    ), 0);
+  end if;
+
+  for v_node in select * from jsonb_array_elements(p_document -> 'nodes') loop
+    if v_refs ? (v_node ->> 'ref') then
+      raise exception 'Two steps in this export share the ref %', v_node ->> 'ref';
+    end if;
+
+    insert into public.automations (
+      company_id, trigger_type, action_type, config, active, title, subtitle, icon, status,
+      position_x, position_y, clearance_departments
+    ) values (
+      p_company_id,
+      v_node ->> 'trigger_type',
+      v_node ->> 'action_type',
+      coalesce(v_node -> 'config', '{}'::jsonb),
+      coalesce((v_node ->> 'active')::boolean, true),
+      v_node ->> 'title',
+      v_node ->> 'subtitle',
+      v_node ->> 'icon',
+      -- 'waiting' describes chains parked in the source company, not
+      -- anything true here.
+      case when v_node ->> 'status' = 'paused' then 'paused' else 'active' end,
+      coalesce((v_node ->> 'position_x')::double precision, 0),
+      coalesce((v_node ->> 'position_y')::double precision, 0) + v_offset,
+      coalesce(array(select jsonb_array_elements_text(coalesce(v_node -> 'clearance_departments', '[]'::jsonb))), '{}')
+    )
+    returning id into v_id;
+
+    v_refs := v_refs || jsonb_build_object(v_node ->> 'ref', v_id);
+    v_created := v_created + 1;
+  end loop;
+
+  for v_edge in select * from jsonb_array_elements(p_document -> 'edges') loop
+    if not (v_refs ? (v_edge ->> 'source')) or not (v_refs ? (v_edge ->> 'target')) then
+      raise exception 'A connection in this export points at a step that isn''t in it';
+    end if;
+
+    insert into public.automation_edges (
+      company_id, source_automation_id, target_automation_id, condition_type, condition_value, condition_negated
+    ) values (
+      p_company_id,
+      (v_refs ->> (v_edge ->> 'source'))::uuid,
+      (v_refs ->> (v_edge ->> 'target'))::uuid,
+      v_edge ->> 'condition_type',
+      v_edge ->> 'condition_value',
+      coalesce((v_edge ->> 'condition_negated')::boolean, false)
+    );
+  end loop;
+
+  return v_created;
+end;
+$$;
+
+revoke all on function public.import_automation_web(uuid, jsonb, boolean) from public;
+grant execute on function public.import_automation_web(uuid, jsonb, boolean) to authenticated;
@@ -0,0 +1,222 @@
+-- Automation Web: version history and restore. updateAutomation,
+-- createAutomationEdge and deleteAutomationEdge (src/useDatabase.ts) wrote
+-- straight over the web with no trail, so ConfirmChainChange could warn
+-- before a change but nothing could undo one after. Every structural
+-- change now leaves a revision: the whole web as it stood afterwards, who
+-- made the change, and when.
+--
+-- Recorded by the database rather than by each call site, so nothing that
+-- writes the web can skip it -- the dashboard's direct writes, the 0040
+-- import RPC, a restore. The triggers are deferred to commit and keyed by
+-- transaction, so one request is one revision however many rows it
+-- touched (an import of forty steps is one entry, not forty). Only
+-- columns that change what a chain does count: a drag (position_x/y) or
+-- the runtime flipping a wait node's status pill isn't a revision.
+--
+-- The snapshot is the same versioned document an export is
+-- (src/features/automation-web/webDocument.ts), with each node's real id
+-- as its ref -- so a restore can put nodes back under their own ids and
+-- their run history stays attached.
+
+create table public.automation_web_revisions (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  -- Null when the change came from a server-side job rather than a person.
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  txid bigint not null default txid_current(),
+  -- Set when this revision is a restore of an earlier one.
+  restored_from uuid references public.automation_web_revisions(id) on delete set null,
+  -- Null only until the transaction that created the row commits.
+  snapshot jsonb,
+  unique (company_id, txid)
+);
+create index automation_web_revisions_company_idx on public.automation_web_revisions(company_id, created_at desc);
+alter table public.automation_web_revisions enable row level security;
+-- Read-only to the team: rows are only ever written by the trigger and
+-- restore function below (both security definer).
+create policy "team_read" on public.automation_web_revisions for select
+  using (is_company_member(company_id));
+
+create or replace function public.automation_web_snapshot(p_company_id uuid)
+returns jsonb
+language sql
+stable
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'format', 'backstage.automation-web',
+    'version', 1,
+    'name', 'Version history',
+    'exported_at', now(),
+    'source_company_id', p_company_id,
+    'nodes', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'ref', a.id,
+        'trigger_type', a.trigger_type,
+        'action_type', a.action_type,
+        'config', a.config,
+        'active', a.active,
+        'title', a.title,
+        'subtitle', a.subtitle,
+        'icon', a.icon,
+        'status', case when a.status = 'paused' then 'paused' else 'active' end,
+        'position_x', a.position_x,
+        'position_y', a.position_y,
+        'clearance_departments', to_jsonb(a.clearance_departments)
+      ) order by a.created_at, a.id)
+      from public.automations a where a.company_id = p_company_id
+    ), '[]'::jsonb),
+    'edges', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'source', e.source_automation_id,
+        'target', e.target_automation_id,
+        'condition_type', e.condition_type,
+        'condition_value', e.condition_value,
+        'condition_negated', e.condition_negated
+      ) order by e.created_at, e.id)
+      from public.automation_edges e where e.company_id = p_company_id
+    ), '[]'::jsonb)
+  );
+$$;
+
+-- Runs at commit, once per changed row; the first firing for a
+-- transaction takes the snapshot (every firing sees the same final state)
+-- and the rest return early.
+create or replace function public.record_automation_web_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_company_id uuid := coalesce(NEW.company_id, OLD.company_id);
+begin
+  -- The company itself is being deleted (its rows cascade here).
+  if not exists (select 1 from public.companies where id = v_company_id) then
+    return null;
+  end if;
+
+  if exists (
+    select 1 from public.automation_web_revisions
+    where company_id = v_company_id and txid = txid_current() and snapshot is not null
+  ) then
+    return null;
+  end if;
+
+  insert into public.automation_web_revisions (company_id, created_by, snapshot)
+  values (v_company_id, auth.uid(), automation_web_snapshot(v_company_id))
+  on conflict (company_id, txid) do update set snapshot = excluded.snapshot;
+  return null;
+end;
+$$;
+
+create constraint trigger record_automation_web_revision
+  after insert or delete or update of trigger_type, action_type, config, active, title, subtitle, icon, clearance_departments
+  on public.automations
+  deferrable initially deferred
+  for each row execute function public.record_automation_web_revision();
+
+create constraint trigger record_automation_web_revision
+  after insert or delete or update of condition_type, condition_value, condition_negated
+  on public.automation_edges
+  deferrable initially deferred
+  for each row execute function public.record_automation_web_revision();
+
+-- Puts the company's web back exactly as a revision recorded it, in one
+-- transaction: nodes the revision doesn't have are deleted, nodes it does
+-- are upserted under their original ids, and every edge is replaced. The
+-- restore is itself a new revision (restored_from set), so it can be
+-- undone the same way. Founder-only.
+create or replace function public.restore_automation_web_revision(p_revision_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_company_id uuid;
+  v_snapshot jsonb;
+begin
+  select company_id, snapshot into v_company_id, v_snapshot
+  from public.automation_web_revisions where id = p_revision_id;
+
+  if v_company_id is null or v_snapshot is null then
+    raise exception 'That version was not found';
+  end if;
+
+  if not is_company_founder(v_company_id) then
+    raise exception 'Only a founder of this company can restore a version';
+  end if;
+
+  insert into public.automation_web_revisions (company_id, created_by, restored_from)
+  values (v_company_id, auth.uid(), p_revision_id)
+  on conflict (company_id, txid) do update set restored_from = excluded.restored_from;
+
+  delete from public.automation_edges where company_id = v_company_id;
+
+  delete from public.automations
+  where company_id = v_company_id
+    and id not in (select (n ->> 'ref')::uuid from jsonb_array_elements(v_snapshot -> 'nodes') n);
+
+  insert into public.automations (
+    id, company_id, trigger_type, action_type, config, active, title, subtitle, icon, status,
+    position_x, position_y, clearance_departments
+  )
+  select
+    (n ->> 'ref')::uuid,
+    v_company_id,
+    n ->> 'trigger_type',
+    n ->> 'action_type',
+    coalesce(n -> 'config', '{}'::jsonb),
+    (n ->> 'active')::boolean,
+    n ->> 'title',
+    n ->> 'subtitle',
+    n ->> 'icon',
+    n ->> 'status',
+    (n ->> 'position_x')::double precision,
+    (n ->> 'position_y')::double precision,
+    coalesce(array(select jsonb_array_elements_text(n -> 'clearance_departments')), '{}')
+  from jsonb_array_elements(v_snapshot -> 'nodes') n
+  on conflict (id) do update set
+    trigger_type = excluded.trigger_type,
+    action_type = excluded.action_type,
+    config = excluded.config,
+    active = excluded.active,
+    title = excluded.title,
+    subtitle = excluded.subtitle,
+    icon = excluded.icon,
+    -- A wait node still holding parked chains keeps saying so.
+    status = case when automations.status = 'waiting' and excluded.status = 'active' then 'waiting' else excluded.status end,
+    position_x = excluded.position_x,
+    position_y = excluded.position_y,
+    clearance_departments = excluded.clearance_departments
+  where automations.company_id = v_company_id;
+
+  insert into public.automation_edges (
+    company_id, source_automation_id, target_automation_id, condition_type, condition_value, condition_negated
+  )
+  select
+    v_company_id,
+    (e ->> 'source')::uuid,
+    (e ->> 'target')::uuid,
+    e ->> 'condition_type',
+    e ->> 'condition_value',
+    coalesce((e ->> 'condition_negated')::boolean, false)
+  from jsonb_array_elements(v_snapshot -> 'edges') e;
+
+  -- Taken here rather than left to the deferred trigger, so a restore that
+  -- happens to change nothing still gets its snapshot.
+  update public.automation_web_revisions
+  set snapshot = automation_web_snapshot(v_company_id)
+  where company_id = v_company_id and txid = txid_current();
+end;
+$$;
+
+revoke all on function public.restore_automation_web_revision(uuid) from public;
+grant execute on function public.restore_automation_web_revision(uuid) to authenticated;
+
+-- A starting point for every existing company, so the first change made
+-- after this migration has something to be compared against.
+insert into public.automation_web_revisions (company_id, snapshot)
+select id, automation_web_snapshot(id) from public.companies;
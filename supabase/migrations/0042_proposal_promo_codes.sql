@@ -0,0 +1,28 @@
+-- Proposal engine: discounts. Templates gain an `adjustments` section
+-- (api/_lib/proposalEngine.ts) -- percentage or fixed discounts off one
+-- line-item section or the whole proposal. That part needs no schema: it's
+-- more of document_templates.structure.
+--
+-- An adjustment can instead be held back until the client enters a promo
+-- code. The code can't sit in structure alongside it, because
+-- "client_reads_linked" (migration 0009) lets the portal read the whole
+-- template -- so codes live here, team-only, one row per gated
+-- adjustment. Clients never read this table: api/submit-proposal-selections.ts
+-- matches what they typed with the service role and records only which
+-- adjustment keys it unlocked (generated_documents.field_values
+-- .unlocked_adjustments), which computeDocumentTotals then honors.
+create table public.proposal_promo_codes (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  template_id uuid not null references public.document_templates(id) on delete cascade,
+  -- The Adjustment.key this code unlocks within that template.
+  adjustment_key text not null,
+  -- Same shape normalizePromoCode() produces.
+  code text not null check (code ~ '^[A-Z0-9_-]{3,40}$'),
+  created_at timestamptz not null default now(),
+  unique (template_id, adjustment_key)
+);
+create index proposal_promo_codes_lookup_idx on public.proposal_promo_codes(template_id, code);
+alter table public.proposal_promo_codes enable row level security;
+create policy "team_full_access" on public.proposal_promo_codes for all
+  using (is_company_member(company_id)) with check (is_company_member(company_id));
@@ -0,0 +1,43 @@
+-- Sales tax. Proposal totals were pre-tax only, so tax was being added to
+-- invoices by hand. Now:
+--   * each company keeps its own list of rates (state, county, ...) -- every
+--     active one applies, stacked, to a proposal's taxable lines;
+--   * line items carry a `taxable` flag in the template structure
+--     (api/_lib/proposalEngine.ts), so that part needs no schema;
+--   * the tax on an accepted proposal is stored next to every money
+--     amount it's part of, so it can be shown and billed separately.
+-- Amounts stay tax-inclusive everywhere (payment_schedules.total_amount,
+-- payment_installments.amount, invoices.amount) -- tax_amount is the part
+-- of that which is tax, never an extra to add on.
+
+create table public.company_tax_rates (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  name text not null check (length(btrim(name)) between 1 and 60),
+  -- A percentage, e.g. 6.625.
+  rate numeric(6, 3) not null check (rate >= 0 and rate <= 30),
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+create index company_tax_rates_company_idx on public.company_tax_rates(company_id);
+alter table public.company_tax_rates enable row level security;
+create policy "team_full_access" on public.company_tax_rates for all
+  using (is_company_member(company_id)) with check (is_company_member(company_id));
+-- The portal shows a client their proposal's tax before they accept it.
+create policy "client_reads_own_company" on public.company_tax_rates for select
+  using (
+    exists (
+      select 1 from public.clients c
+      where c.company_id = company_tax_rates.company_id
+        and client_owns(c.id)
+    )
+  );
+
+alter table public.payment_schedules
+  add column tax_amount numeric(10, 2) not null default 0 check (tax_amount >= 0);
+
+alter table public.payment_installments
+  add column tax_amount numeric(10, 2) not null default 0 check (tax_amount >= 0 and tax_amount <= amount);
+
+alter table public.invoices
+  add column tax_amount numeric(10, 2) not null default 0 check (tax_amount >= 0 and tax_amount <= amount);
@@ -0,0 +1,120 @@
+-- Proposal revisions. A proposal used to be priced from its template's
+-- live structure, so editing a template quietly re-priced every proposal
+-- already out with a client, and nobody -- least of all the client -- could
+-- see what had changed. Now a proposal is priced from numbered, frozen
+-- revisions:
+--   * v1 is published when a founder sends the proposal;
+--   * a founder can publish v2, v3, ... from the proposal itself, which
+--     takes the template's structure as it stands then, plus the design
+--     brief as edited for that version;
+--   * each revision keeps the structure and authored values it was
+--     published with, and the totals at the proposal's starting choices,
+--     so the portal can show "what changed since v1";
+--   * api/submit-proposal-selections.ts prices from the latest revision
+--     and won't accept any other.
+-- Revisions are never edited or deleted -- there's no update or delete
+-- policy, and publishing goes through publish_proposal_revision() below.
+-- Proposals sent before this migration get a v1 backfilled from their
+-- template as it is now (which is what they were being priced from).
+
+create table public.proposal_revisions (
+  id uuid primary key default gen_random_uuid(),
+  proposal_id uuid not null references public.proposals(id) on delete cascade,
+  -- Denormalized from the proposal, for RLS (same as payment_schedules).
+  client_id uuid not null references public.clients(id) on delete cascade,
+  revision_number integer not null check (revision_number >= 1),
+  structure jsonb not null,
+  authored jsonb not null default '{}'::jsonb,
+  -- computeDocumentTotals() at the starting choices (no selections, no
+  -- promo code). Null for a backfilled v1, which was never computed.
+  totals jsonb,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (proposal_id, revision_number)
+);
+alter table public.proposal_revisions enable row level security;
+create policy "team_reads" on public.proposal_revisions for select
+  using (is_company_member_via_client(client_id));
+create policy "client_reads_own" on public.proposal_revisions for select
+  using (client_owns(client_id));
+
+-- The latest revision's number, kept by publish_proposal_revision() so the
+-- portal can tell when it's looking at an old one. Null until sent.
+alter table public.proposals add column current_revision integer;
+
+-- Publishes the next revision of a proposal and makes it the one the
+-- client sees: the document's authored values become `p_authored`, and
+-- its selections become `p_selections` (the caller drops any for items the
+-- new structure no longer has). Founder-only, like sending -- a revision
+-- changes what's in front of the client. A declined proposal goes back to
+-- "sent", since a new version is a new offer. Numbering happens under a
+-- lock on the proposal row, so two founders publishing at once get
+-- consecutive numbers rather than a conflict.
+create or replace function public.publish_proposal_revision(
+  p_proposal_id uuid,
+  p_structure jsonb,
+  p_authored jsonb,
+  p_selections jsonb,
+  p_totals jsonb
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_proposal public.proposals%rowtype;
+  v_number integer;
+begin
+  select * into v_proposal from public.proposals where id = p_proposal_id for update;
+
+  if v_proposal.id is null then
+    raise exception 'That proposal was not found';
+  end if;
+
+  if not is_company_founder_via_client(v_proposal.client_id) then
+    raise exception 'Only a founder can publish a proposal revision';
+  end if;
+
+  if v_proposal.status = 'accepted' then
+    raise exception 'This proposal has been accepted and can no longer be revised';
+  end if;
+
+  if jsonb_typeof(p_structure) is distinct from 'array' then
+    raise exception 'A revision needs the proposal structure';
+  end if;
+
+  v_number := coalesce(v_proposal.current_revision, 0) + 1;
+
+  insert into public.proposal_revisions (proposal_id, client_id, revision_number, structure, authored, totals, created_by)
+  values (p_proposal_id, v_proposal.client_id, v_number, p_structure, coalesce(p_authored, '{}'::jsonb), p_totals, auth.uid());
+
+  update public.generated_documents
+  set field_values = coalesce(field_values, '{}'::jsonb)
+        || jsonb_build_object('authored', coalesce(p_authored, '{}'::jsonb), 'selections', coalesce(p_selections, '{}'::jsonb)),
+      updated_at = now()
+  where id = v_proposal.generated_document_id;
+
+  update public.proposals
+  set current_revision = v_number,
+      status = case when status = 'declined' then 'sent' else status end,
+      updated_at = now()
+  where id = p_proposal_id;
+
+  return v_number;
+end;
+$$;
+
+revoke all on function public.publish_proposal_revision(uuid, jsonb, jsonb, jsonb, jsonb) from public;
+grant execute on function public.publish_proposal_revision(uuid, jsonb, jsonb, jsonb, jsonb) to authenticated;
+
+insert into public.proposal_revisions (proposal_id, client_id, revision_number, structure, authored)
+select p.id, p.client_id, 1, t.structure, coalesce(gd.field_values -> 'authored', '{}'::jsonb)
+from public.proposals p
+join public.generated_documents gd on gd.id = p.generated_document_id
+join public.document_templates t on t.id = gd.template_id
+where p.status in ('sent', 'viewed', 'declined');
+
+update public.proposals p
+set current_revision = 1
+where exists (select 1 from public.proposal_revisions r where r.proposal_id = p.id);
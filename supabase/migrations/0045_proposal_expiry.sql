@@ -0,0 +1,121 @@
+-- Proposal expiry. A proposal's status had no notion of time, so a quote
+-- sent months ago could still be accepted at prices the business no
+-- longer offers. Now:
+--   * a founder can give a proposal an expiry when sending it
+--     (proposals.expires_at -- null means it never expires);
+--   * the daily cron (api/cron/process-email-sequences.ts) moves sent or
+--     viewed proposals past their expiry to the new 'expired' status and
+--     emails the team;
+--   * api/submit-proposal-selections.ts refuses to accept one that has
+--     expired, whether or not the cron has got to it yet;
+--   * a founder can extend the expiry, which puts an expired proposal
+--     back to 'sent';
+--   * publishing a new version of an expired proposal reopens it too (see
+--     publish_proposal_revision() below).
+
+alter table public.proposals add column expires_at timestamptz;
+
+alter table public.proposals drop constraint proposals_status_check;
+alter table public.proposals add constraint proposals_status_check
+  check (status in ('draft', 'sent', 'viewed', 'accepted', 'declined', 'expired'));
+
+create index proposals_expiry_idx on public.proposals(expires_at)
+  where expires_at is not null and status in ('sent', 'viewed');
+
+-- Setting or moving an expiry is part of sending a proposal, so it's
+-- founder-only too. Same function as 0032, with that one check added.
+create or replace function public.enforce_founder_only_transitions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if TG_TABLE_NAME = 'proposals' then
+    if NEW.status = 'sent' and OLD.status is distinct from 'sent' then
+      if not is_company_founder_via_client(NEW.client_id) then
+        raise exception 'Only a founder can send a proposal';
+      end if;
+    end if;
+    if NEW.expires_at is distinct from OLD.expires_at then
+      if not is_company_founder_via_client(NEW.client_id) then
+        raise exception 'Only a founder can change when a proposal expires';
+      end if;
+    end if;
+  elsif TG_TABLE_NAME = 'clients' then
+    if NEW.stage = 'archived' and OLD.stage is distinct from 'archived' then
+      if not is_company_founder(NEW.company_id) then
+        raise exception 'Only a founder can archive a client';
+      end if;
+    end if;
+  elsif TG_TABLE_NAME = 'agreements' then
+    if NEW.status = 'voided' and OLD.status is distinct from 'voided' then
+      if not is_company_founder_via_client(NEW.client_id) then
+        raise exception 'Only a founder can void an agreement';
+      end if;
+    end if;
+  end if;
+  return NEW;
+end;
+$$;
+
+-- A new version is a new offer, so an expired proposal goes back to
+-- "sent" along with a declined one, and an expiry that has already passed
+-- is cleared -- otherwise the client would be shown a version they can't
+-- accept. A founder can set a fresh expiry from the proposal's page. Same
+-- function as 0044 otherwise.
+create or replace function public.publish_proposal_revision(
+  p_proposal_id uuid,
+  p_structure jsonb,
+  p_authored jsonb,
+  p_selections jsonb,
+  p_totals jsonb
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_proposal public.proposals%rowtype;
+  v_number integer;
+begin
+  select * into v_proposal from public.proposals where id = p_proposal_id for update;
+
+  if v_proposal.id is null then
+    raise exception 'That proposal was not found';
+  end if;
+
+  if not is_company_founder_via_client(v_proposal.client_id) then
+    raise exception 'Only a founder can publish a proposal revision';
+  end if;
+
+  if v_proposal.status = 'accepted' then
+    raise exception 'This proposal has been accepted and can no longer be revised';
+  end if;
+
+  if jsonb_typeof(p_structure) is distinct from 'array' then
+    raise exception 'A revision needs the proposal structure';
+  end if;
+
+  v_number := coalesce(v_proposal.current_revision, 0) + 1;
+
+  insert into public.proposal_revisions (proposal_id, client_id, revision_number, structure, authored, totals, created_by)
+  values (p_proposal_id, v_proposal.client_id, v_number, p_structure, coalesce(p_authored, '{}'::jsonb), p_totals, auth.uid());
+
+  update public.generated_documents
+  set field_values = coalesce(field_values, '{}'::jsonb)
+        || jsonb_build_object('authored', coalesce(p_authored, '{}'::jsonb), 'selections', coalesce(p_selections, '{}'::jsonb)),
+      updated_at = now()
+  where id = v_proposal.generated_document_id;
+
+  update public.proposals
+  set current_revision = v_number,
+      status = case when status in ('declined', 'expired') then 'sent' else status end,
+      expires_at = case when expires_at <= now() then null else expires_at end,
+      updated_at = now()
+  where id = p_proposal_id;
+
+  return v_number;
+end;
+$$;
@@ -0,0 +1,100 @@
+-- Recurring retainer billing. A payment schedule was always a fixed set of
+-- installments splitting one total -- right for event work, wrong for a
+-- monthly coaching retainer. Now a template's payment_rules section can
+-- instead bill the proposal total every month or quarter, for a set number
+-- of cycles or until ended (`recurring` in api/_lib/proposalEngine.ts).
+-- Accepting such a proposal creates a retainer schedule, where:
+--   * each cycle is one payment_installment (due_rule_type 'recurring')
+--     with its invoice issued up front by issue_retainer_cycle() below --
+--     the first on acceptance, the rest by the daily cron
+--     (api/cron/process-email-sequences.ts) as they come due;
+--   * the client pays cycle by cycle, or starts a Stripe subscription from
+--     the portal, whose renewals api/stripe-webhook.ts records against the
+--     cycles and whose cancellation ends the retainer;
+--   * a founder can end a retainer early from the proposal.
+
+alter table public.payment_schedules
+  -- Null for an ordinary installment schedule. For a retainer,
+  -- total_amount and tax_amount are per cycle.
+  add column billing_interval text check (billing_interval in ('month', 'quarter')),
+  -- Null means open-ended.
+  add column billing_cycles integer check (billing_cycles >= 1),
+  -- Cycle n falls due billing_interval * (n - 1) after this, so due dates
+  -- never drift across short months.
+  add column billing_anchor_date date,
+  -- When the cron should issue the next cycle; null once there isn't one.
+  add column next_billing_date date,
+  add column stripe_subscription_id text unique,
+  -- 'completed' once the last of billing_cycles has been issued;
+  -- 'cancelled' when ended early.
+  add column status text not null default 'active' check (status in ('active', 'completed', 'cancelled')),
+  add column ended_at timestamptz;
+
+create index payment_schedules_next_billing_idx on public.payment_schedules(next_billing_date)
+  where billing_interval is not null and status = 'active';
+
+alter table public.payment_installments drop constraint payment_installments_due_rule_type_check;
+alter table public.payment_installments add constraint payment_installments_due_rule_type_check
+  check (due_rule_type in ('on_signing', 'days_after_signing', 'days_before_event', 'recurring'));
+
+-- Issues a retainer's next cycle: its invoice, and the installment for it,
+-- due on the cycle's date. Returns the installment's id, or null when the
+-- schedule isn't an active retainer or has no cycles left. Server-only --
+-- acceptance, the cron and the Stripe webhook all call it with the service
+-- role -- and it locks the schedule row, so a renewal webhook and the cron
+-- racing each other can't issue the same cycle twice.
+create or replace function public.issue_retainer_cycle(p_schedule_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_schedule public.payment_schedules%rowtype;
+  v_cycle integer;
+  v_step interval;
+  v_invoice_id uuid;
+  v_installment_id uuid;
+  v_last boolean;
+begin
+  select * into v_schedule from public.payment_schedules where id = p_schedule_id for update;
+
+  if v_schedule.id is null or v_schedule.billing_interval is null or v_schedule.status <> 'active' then
+    return null;
+  end if;
+
+  select coalesce(max(sequence_number), 0) + 1 into v_cycle
+  from public.payment_installments
+  where payment_schedule_id = p_schedule_id;
+
+  if v_schedule.billing_cycles is not null and v_cycle > v_schedule.billing_cycles then
+    return null;
+  end if;
+
+  v_step := case v_schedule.billing_interval when 'quarter' then interval '3 months' else interval '1 month' end;
+  v_last := v_schedule.billing_cycles is not null and v_cycle >= v_schedule.billing_cycles;
+
+  insert into public.invoices (client_id, amount, tax_amount, status)
+  values (v_schedule.client_id, v_schedule.total_amount, v_schedule.tax_amount, 'unpaid')
+  returning id into v_invoice_id;
+
+  insert into public.payment_installments (
+    payment_schedule_id, sequence_number, amount, tax_amount, due_rule_type, due_rule_offset_days, due_date, invoice_id, status
+  )
+  values (
+    p_schedule_id, v_cycle, v_schedule.total_amount, v_schedule.tax_amount, 'recurring', 0,
+    (v_schedule.billing_anchor_date + v_step * (v_cycle - 1))::date, v_invoice_id, 'invoiced'
+  )
+  returning id into v_installment_id;
+
+  update public.payment_schedules
+  set next_billing_date = case when v_last then null else (billing_anchor_date + v_step * v_cycle)::date end,
+      status = case when v_last then 'completed' else status end
+  where id = p_schedule_id;
+
+  return v_installment_id;
+end;
+$$;
+
+revoke all on function public.issue_retainer_cycle(uuid) from public;
+grant execute on function public.issue_retainer_cycle(uuid) to service_role;
@@ -0,0 +1,38 @@
+-- The rest of a Stripe payment's life. api/stripe-webhook.ts only ever
+-- heard "checkout completed" and took that as paid -- wrong for bank
+-- (ACH) payments, which complete days later or not at all -- and never
+-- heard about refunds or disputes. Now it also handles:
+--   * checkout.session.async_payment_succeeded / _failed -- a bank payment
+--     clearing or bouncing ('failed');
+--   * charge.refunded -- 'refunded', or 'partially_refunded' with
+--     amount_refunded recording how much;
+--   * charge.dispute.created -- 'disputed'.
+-- Each lands on the invoice and on its payment_installment, and messages
+-- the company's founders. An abandoned checkout (checkout.session.expired)
+-- changes nothing -- no payment was attempted, so nothing failed.
+--
+-- Stripe redelivers an event until it gets a 2xx, and may deliver one
+-- twice, so every processed event's id is recorded here and a repeat is
+-- acknowledged without being processed again. Service role only: no
+-- policies.
+
+create table public.stripe_webhook_events (
+  id text primary key,
+  type text not null,
+  processed_at timestamptz not null default now()
+);
+alter table public.stripe_webhook_events enable row level security;
+
+alter table public.invoices drop constraint invoices_status_check;
+alter table public.invoices add constraint invoices_status_check
+  check (status in ('unpaid', 'paid', 'overdue', 'failed', 'refunded', 'partially_refunded', 'disputed'));
+
+alter table public.invoices
+  add column amount_refunded numeric(10, 2) not null default 0 check (amount_refunded >= 0 and amount_refunded <= amount);
+
+create index invoices_stripe_payment_intent_idx on public.invoices(stripe_payment_intent_id)
+  where stripe_payment_intent_id is not null;
+
+alter table public.payment_installments drop constraint payment_installments_status_check;
+alter table public.payment_installments add constraint payment_installments_status_check
+  check (status in ('pending', 'invoiced', 'paid', 'overdue', 'failed', 'refunded', 'partially_refunded', 'disputed'));
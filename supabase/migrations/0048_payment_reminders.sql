@@ -0,0 +1,35 @@
+-- Overdue installments and payment reminders. payment_installments and
+-- invoices have always had an 'overdue' status, and ReportingPage sums
+-- overdue invoices, but nothing ever set it. Now the daily cron
+-- (api/cron/process-email-sequences.ts):
+--   * moves pending or invoiced installments past their due_date to
+--     'overdue', along with their unpaid invoice;
+--   * emails the client a reminder, in the company's brand, with a link to
+--     pay from their portal -- by default 3 days before the due date, on
+--     it, and 7 days after (brand_kits.payment_reminder_days);
+--   * raises an overdue_payment Safety Net nudge for the founder.
+
+-- Days relative to an installment's due date: negative is before it, 0 is
+-- the day itself. Empty turns reminders off. A company without a brand kit
+-- gets the default.
+alter table public.brand_kits
+  add column payment_reminder_days integer[] not null default '{-3, 0, 7}';
+
+-- One row per reminder sent, so each point in the cadence goes out once
+-- per installment however often the cron runs. Service role only: no
+-- policies.
+create table public.payment_reminders (
+  id uuid primary key default gen_random_uuid(),
+  installment_id uuid not null references public.payment_installments(id) on delete cascade,
+  days_from_due integer not null,
+  sent_at timestamptz not null default now(),
+  unique (installment_id, days_from_due)
+);
+alter table public.payment_reminders enable row level security;
+
+create index payment_installments_due_date_idx on public.payment_installments(due_date)
+  where status in ('pending', 'invoiced', 'overdue', 'failed');
+
+alter table public.safety_net_nudges drop constraint safety_net_nudges_type_check;
+alter table public.safety_net_nudges add constraint safety_net_nudges_type_check
+  check (type in ('cash_buffer', 'quiet_lead', 'seasonal_dip', 'stage_progress', 'overdue_payment'));
@@ -0,0 +1,131 @@
+-- A ledger of payments against installments. An installment could only
+-- become 'paid' through the Stripe webhook, all at once -- but plenty of
+-- clients pay a deposit by check or bank transfer, or in parts. Now:
+--   * every payment is a row in installment_payments, whether Stripe took
+--     it (api/stripe-webhook.ts) or a founder recorded it by hand with
+--     record_installment_payment() below;
+--   * an installment's balance is its amount less the sum of its
+--     payments, always derived from the ledger and never stored;
+--   * an installment paid in part is 'partially_paid' (and so is its
+--     invoice), and 'paid' once nothing is left;
+--   * the portal's Pay Now charges what's left, not the full amount.
+-- Payments are never edited or deleted -- there's no insert, update or
+-- delete policy. A mistake is corrected by the founder recording the
+-- difference, or in Stripe.
+
+create table public.installment_payments (
+  id uuid primary key default gen_random_uuid(),
+  installment_id uuid not null references public.payment_installments(id) on delete cascade,
+  -- Denormalized from the payment schedule, for RLS (same as
+  -- proposal_revisions).
+  client_id uuid not null references public.clients(id) on delete cascade,
+  amount numeric(10, 2) not null check (amount > 0),
+  method text not null check (method in ('stripe', 'check', 'bank_transfer', 'cash', 'other')),
+  -- Check number, transfer reference, or Stripe payment intent.
+  reference text,
+  paid_on date not null,
+  -- Null for a payment Stripe took.
+  recorded_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+create index installment_payments_installment_id_idx on public.installment_payments(installment_id);
+alter table public.installment_payments enable row level security;
+create policy "team_reads" on public.installment_payments for select
+  using (is_company_member_via_client(client_id));
+create policy "client_reads_own" on public.installment_payments for select
+  using (client_owns(client_id));
+
+alter table public.invoices drop constraint invoices_status_check;
+alter table public.invoices add constraint invoices_status_check
+  check (status in ('unpaid', 'partially_paid', 'paid', 'overdue', 'failed', 'refunded', 'partially_refunded', 'disputed'));
+
+alter table public.payment_installments drop constraint payment_installments_status_check;
+alter table public.payment_installments add constraint payment_installments_status_check
+  check (status in ('pending', 'invoiced', 'partially_paid', 'paid', 'overdue', 'failed', 'refunded', 'partially_refunded', 'disputed'));
+
+-- Records a payment a founder took outside Stripe against an installment,
+-- and returns the installment's new status: 'partially_paid', or 'paid'
+-- once the ledger covers its amount. An installment not yet invoiced gets
+-- its invoice here, the way the portal's checkout would have made one.
+-- The installment row is locked while its balance is worked out, so two
+-- founders recording at once can't overpay it between them.
+create or replace function public.record_installment_payment(
+  p_installment_id uuid,
+  p_amount numeric,
+  p_method text,
+  p_reference text,
+  p_paid_on date
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_installment public.payment_installments%rowtype;
+  v_client_id uuid;
+  v_balance numeric;
+  v_invoice_id uuid;
+  v_status text;
+begin
+  select * into v_installment from public.payment_installments where id = p_installment_id for update;
+
+  if v_installment.id is null then
+    raise exception 'That payment was not found';
+  end if;
+
+  select client_id into v_client_id from public.payment_schedules where id = v_installment.payment_schedule_id;
+
+  if not is_company_founder_via_client(v_client_id) then
+    raise exception 'Only a founder can record a payment';
+  end if;
+
+  if v_installment.status in ('paid', 'refunded', 'partially_refunded', 'disputed') then
+    raise exception 'This installment has nothing left to pay';
+  end if;
+
+  if p_method is null or p_method = 'stripe' then
+    raise exception 'Choose how this payment was made';
+  end if;
+
+  select v_installment.amount - coalesce(sum(amount), 0) into v_balance
+  from public.installment_payments
+  where installment_id = p_installment_id;
+
+  if p_amount is null or p_amount <= 0 or p_amount > v_balance then
+    raise exception 'Enter an amount up to the % still owed', to_char(v_balance, 'FM$999,999,990.00');
+  end if;
+
+  insert into public.installment_payments (installment_id, client_id, amount, method, reference, paid_on, recorded_by)
+  values (p_installment_id, v_client_id, p_amount, p_method, nullif(trim(p_reference), ''), coalesce(p_paid_on, current_date), auth.uid());
+
+  v_status := case when p_amount = v_balance then 'paid' else 'partially_paid' end;
+
+  v_invoice_id := v_installment.invoice_id;
+  if v_invoice_id is null then
+    insert into public.invoices (client_id, amount, tax_amount, status)
+    values (v_client_id, v_installment.amount, v_installment.tax_amount, v_status)
+    returning id into v_invoice_id;
+  else
+    update public.invoices set status = v_status, updated_at = now() where id = v_invoice_id;
+  end if;
+
+  update public.payment_installments
+  set status = v_status, invoice_id = v_invoice_id
+  where id = p_installment_id;
+
+  return v_status;
+end;
+$$;
+
+revoke all on function public.record_installment_payment(uuid, numeric, text, text, date) from public;
+grant execute on function public.record_installment_payment(uuid, numeric, text, text, date) to authenticated;
+
+-- Installments Stripe already took payment for, so their balance comes out
+-- right. Refunded and disputed ones were paid before that happened.
+insert into public.installment_payments (installment_id, client_id, amount, method, reference, paid_on)
+select i.id, s.client_id, i.amount, 'stripe', inv.stripe_payment_intent_id, coalesce(inv.updated_at, i.created_at)::date
+from public.payment_installments i
+join public.payment_schedules s on s.id = i.payment_schedule_id
+left join public.invoices inv on inv.id = i.invoice_id
+where i.status in ('paid', 'refunded', 'partially_refunded', 'disputed');
@@ -0,0 +1,93 @@
+-- Invoice numbers and share links. An invoice was only ever a uuid, which
+-- is no use to a bookkeeper. Now:
+--   * every invoice gets a number, sequential and gap-free per company
+--     (INV-0001, INV-0002, ...), assigned on insert by the trigger below
+--     -- so checkout, retainer cycles, recorded payments and automations
+--     all get one without knowing about it;
+--   * the prefix is the company's own (brand_kits.invoice_prefix). It's
+--     read when the number is assigned, so changing it doesn't renumber
+--     invoices already issued;
+--   * every invoice has a share_token, and /invoices/<share_token> serves
+--     its PDF without a login (api/respond.ts) -- the link a client opens
+--     from the portal or forwards to their own bookkeeper.
+-- Numbers and tokens never change once assigned.
+
+alter table public.brand_kits
+  add column invoice_prefix text not null default 'INV-' check (char_length(invoice_prefix) <= 12);
+
+alter table public.invoices
+  add column invoice_sequence integer,
+  add column invoice_number text,
+  add column share_token text not null unique default replace(gen_random_uuid()::text, '-', '');
+
+-- The last number each company has issued. The trigger takes the next one
+-- with an upsert, which holds the row lock until the inserting transaction
+-- ends: a second invoice waits for the first, and an insert that rolls
+-- back takes its number back with it -- which is what keeps the sequence
+-- free of gaps. Server-only: no policies.
+create table public.invoice_counters (
+  company_id uuid primary key references public.companies(id) on delete cascade,
+  last_number integer not null
+);
+alter table public.invoice_counters enable row level security;
+
+create or replace function public.assign_invoice_number()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_company_id uuid;
+  v_prefix text;
+  v_number integer;
+begin
+  if TG_OP = 'UPDATE' then
+    NEW.invoice_sequence := OLD.invoice_sequence;
+    NEW.invoice_number := OLD.invoice_number;
+    NEW.share_token := OLD.share_token;
+    return NEW;
+  end if;
+
+  select company_id into v_company_id from public.clients where id = NEW.client_id;
+  if v_company_id is null then
+    return NEW;
+  end if;
+
+  insert into public.invoice_counters (company_id, last_number)
+  values (v_company_id, 1)
+  on conflict (company_id) do update set last_number = invoice_counters.last_number + 1
+  returning last_number into v_number;
+
+  select invoice_prefix into v_prefix from public.brand_kits where company_id = v_company_id;
+
+  NEW.invoice_sequence := v_number;
+  NEW.invoice_number := coalesce(v_prefix, 'INV-') || lpad(v_number::text, 4, '0');
+  return NEW;
+end;
+$$;
+
+-- Existing invoices, numbered in the order they were created.
+with numbered as (
+  select i.id, c.company_id,
+         row_number() over (partition by c.company_id order by i.created_at, i.id) as n
+  from public.invoices i
+  join public.clients c on c.id = i.client_id
+  where c.company_id is not null
+)
+update public.invoices i
+set invoice_sequence = numbered.n,
+    invoice_number = coalesce(bk.invoice_prefix, 'INV-') || lpad(numbered.n::text, 4, '0')
+from numbered
+left join public.brand_kits bk on bk.company_id = numbered.company_id
+where i.id = numbered.id;
+
+insert into public.invoice_counters (company_id, last_number)
+select c.company_id, max(i.invoice_sequence)
+from public.invoices i
+join public.clients c on c.id = i.client_id
+where i.invoice_sequence is not null
+group by c.company_id;
+
+create trigger assign_invoice_number before insert or update on public.invoices
+  for each row execute function public.assign_invoice_number();
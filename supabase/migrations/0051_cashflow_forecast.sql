@@ -0,0 +1,17 @@
+-- Cash-flow forecast. The Brand Kit's cashflow bands said how income
+-- should be split, and the cash_buffer nudge compared this week's paid
+-- invoices with the last four -- but nothing looked ahead. Now ReportingPage
+-- shows the next 13 weeks of expected income (api/_lib/cashflowForecast.ts:
+-- unpaid installments, upcoming retainer cycles, and how late clients
+-- usually pay) split by the cashflow bands, and the daily cron raises a
+-- cashflow_forecast Safety Net nudge when a week is projected to bring in
+-- less than the company's weekly floor.
+
+-- What a week needs to bring in to cover the business. Null means no
+-- floor, and no cashflow_forecast nudges.
+alter table public.brand_kits
+  add column cashflow_weekly_floor numeric(10, 2) check (cashflow_weekly_floor >= 0);
+
+alter table public.safety_net_nudges drop constraint safety_net_nudges_type_check;
+alter table public.safety_net_nudges add constraint safety_net_nudges_type_check
+  check (type in ('cash_buffer', 'quiet_lead', 'seasonal_dip', 'stage_progress', 'overdue_payment', 'cashflow_forecast'));
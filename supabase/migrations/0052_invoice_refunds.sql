@@ -0,0 +1,37 @@
+-- A ledger of refunds, one row per Stripe refund. invoices.amount_refunded
+-- only holds the running total, and the accounting export had to date it
+-- by the invoice's updated_at -- so a later write to the invoice (a
+-- dispute, say) moved the refund into a later period and exported it
+-- again there, and two partial refunds came out as one. Now
+-- api/stripe-webhook.ts records each refund of a charge here on
+-- charge.refunded, dated the day Stripe made it, and
+-- api/_lib/accountingExport.ts exports these rows. amount_refunded stays
+-- as the total the invoice's status is worked out from.
+--
+-- Written by the webhook only (service role): no insert, update or delete
+-- policy, same as installment_payments.
+
+create table public.invoice_refunds (
+  id uuid primary key default gen_random_uuid(),
+  invoice_id uuid not null references public.invoices(id) on delete cascade,
+  -- Denormalized from the invoice, for RLS (same as installment_payments).
+  client_id uuid not null references public.clients(id) on delete cascade,
+  amount numeric(10, 2) not null check (amount > 0),
+  -- Null for the refunds carried over below, which predate this table.
+  stripe_refund_id text unique,
+  refunded_on date not null,
+  created_at timestamptz not null default now()
+);
+create index invoice_refunds_invoice_id_idx on public.invoice_refunds(invoice_id);
+alter table public.invoice_refunds enable row level security;
+create policy "team_reads" on public.invoice_refunds for select
+  using (is_company_member_via_client(client_id));
+
+-- Refunds recorded before this table, one row per invoice for the total,
+-- on the best date there is. The webhook counts these against a charge's
+-- oldest refunds, so a later refund of the same charge isn't recorded
+-- twice.
+insert into public.invoice_refunds (invoice_id, client_id, amount, refunded_on)
+select id, client_id, amount_refunded, updated_at::date
+from public.invoices
+where amount_refunded > 0;
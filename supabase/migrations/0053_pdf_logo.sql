@@ -0,0 +1,13 @@
+-- The logo on generated PDFs, stored with the Brand Kit. api/_lib/documentPdf.ts
+-- used to fetch logo_variants.primary (any URL a team member typed) each
+-- time it rendered -- a network call on every download, including from the
+-- unauthenticated /invoices/<share_token> link, and no logo at all when
+-- the host was slow or down. Now a founder uploads the PDF logo once in the
+-- Brand Kit editor, it's kept here as a PNG or JPEG data URL, and the PDF
+-- embeds it without going to the network. Null renders the company name
+-- alone.
+
+alter table public.brand_kits
+  add column pdf_logo text check (
+    pdf_logo ~ '^data:image/(png|jpeg);base64,' and char_length(pdf_logo) <= 700000
+  );